@@ -1,55 +1,321 @@
-import React, { useState, useEffect } from 'react';
-import { Task, AppState, TaskStatus } from './types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Task, AppState, TaskStatus, TimerSession, UserProfile, ProfileSettings, TaskTemplate, SchedulerMode, TimerMode, RewardState, BadgeRule, Subject, ChecklistItem, Assignment } from './types';
 import TaskInput from './components/TaskInput';
 import Schedule from './components/Schedule';
 import Timer from './components/Timer';
 import CalendarView from './components/CalendarView';
-import { generateOptimizedSchedule } from './services/gemini';
-import { Sparkles, LayoutDashboard, Calendar as CalendarIcon } from 'lucide-react';
-
-const STORAGE_KEY = 'kiddotime_history';
+import Summary from './components/Summary';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import PinPrompt from './components/PinPrompt';
+import Dashboard from './components/Dashboard';
+import TemplateManager from './components/TemplateManager';
+import AISettings from './components/AISettings';
+import CarryOverPrompt from './components/CarryOverPrompt';
+import BackupManager from './components/BackupManager';
+import TrophyRoom from './components/TrophyRoom';
+import ParentPinGate from './components/ParentPinGate';
+import BadgeUnlocked from './components/BadgeUnlocked';
+import DateFixPrompt from './components/DateFixPrompt';
+import ScheduleDiff from './components/ScheduleDiff';
+import SubjectManager from './components/SubjectManager';
+import AssignmentBacklog from './components/AssignmentBacklog';
+import AvailabilityEditor from './components/AvailabilityEditor';
+import AutopilotHandoff from './components/AutopilotHandoff';
+import { planSchedule, PlanSource } from './services/planner';
+import { applyAssignmentPlan, planAssignment, removeAssignmentChunks } from './services/assignments';
+import { getAvailableMinutes, getDayWindow, getPlanningStart } from './services/availability';
+import { buildChain, EXTEND_BREAK_MINUTES, getChainProgress, getNextInChain } from './services/autopilot';
+import { announceMoment } from './services/chimes';
+import { getFinishedStatus, isDayLocked, isParentView, reviewTask } from './services/parentMode';
+import { applyScheduleProposal, reconcileSchedule, ScheduleProposal } from './services/scheduleValidation';
+import { buildTasksFromTemplates } from './services/templates';
+import { carryTask, isUnfinished, skipTask, unskipTask } from './services/carryOver';
+import { applyDateKeyFixes, DateKeyFix, findMisfiledDays } from './services/dateMigration';
+import { buildLedger, computeRewards, DEFAULT_REWARD_RULES, DEFAULT_SHOP, findNewBadges, getBalance, getSpendablePoints } from './services/rewards';
+import { onStorageError, StorageError } from './services/storage';
+import { DEFAULT_SUBJECTS, findSubject, getHardSubjectNames, remapHistorySubject, remapSubjectName } from './services/subjects';
+import { fromDateKey, getTodayKey, shiftDateKey, toDateKey } from './services/dates';
+import { closePauses, createSession, getElapsedSeconds, isSessionRunning, loadSession, pauseSession, resumeSession, saveSession } from './services/timerSession';
+import { closeCycles } from './services/timerModes';
+import {
+  DEFAULT_SETTINGS, deleteProfileData, ensureProfiles, loadProfileAssignments, loadProfileHistory, loadProfileSettings, loadProfileSubjects,
+  loadProfileTemplates, loadProfileRewards, saveActiveProfileId, saveProfileAssignments, saveProfileRewards, saveProfileHistory, saveProfileSettings,
+  saveProfileSubjects, saveProfileTemplates, saveProfiles, verifyPin
+} from './services/profiles';
+import { Sparkles, LayoutDashboard, Calendar as CalendarIcon, BarChart3, Repeat, Bot, AlertTriangle, X, HardDrive, Star, Shapes, BookMarked, Lock, LockOpen } from 'lucide-react';
 
 const App: React.FC = () => {
   // 修改初始状态为 PLANNING，直接进入任务日志
   const [appState, setAppState] = useState<AppState>(AppState.PLANNING);
-  
+
   // State for the currently viewed date and tasks
   const [currentDate, setCurrentDate] = useState<Date>(new Date());
   const [tasks, setTasks] = useState<Task[]>([]);
-  
+
   // Master history state: Map of 'YYYY-MM-DD' -> Task[]
   const [history, setHistory] = useState<Record<string, Task[]>>({});
 
+  // Profiles: everything below is stored per child under the loaded profile
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [loadedProfileId, setLoadedProfileId] = useState<string | null>(null);
+  const [pendingUnlockId, setPendingUnlockId] = useState<string | null>(null);
+  const [subjects, setSubjects] = useState<Subject[]>(DEFAULT_SUBJECTS);
+  const [settings, setSettings] = useState<ProfileSettings>(DEFAULT_SETTINGS);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [rewards, setRewards] = useState<RewardState>({ rules: DEFAULT_REWARD_RULES, unlockedBadges: {}, shop: DEFAULT_SHOP, redemptions: [] });
+  const [newBadges, setNewBadges] = useState<BadgeRule[]>([]);
+  const [parentMode, setParentMode] = useState(false);
+  // What to do once the parent PIN has been typed
+  const [afterParentUnlock, setAfterParentUnlock] = useState<(() => void) | null>(null);
+
   const [activeTask, setActiveTask] = useState<Task | null>(null);
+  const [session, setSession] = useState<TimerSession | null>(null);
+  // Between two autopilot items: the chain being run and the item that just finished, if any
+  const [handoff, setHandoff] = useState<{ chain: string[]; finished: Task | null } | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [storageError, setStorageError] = useState<StorageError | null>(null);
+  const [dateFixOffer, setDateFixOffer] = useState<DateKeyFix[] | null>(null);
+  const [carryOverOffer, setCarryOverOffer] = useState<{ fromKey: string; tasks: Task[] } | null>(null);
+  const [schedulePreview, setSchedulePreview] = useState<(ScheduleProposal & { source: PlanSource }) | null>(null);
 
-  // Helper to get date string
-  const getDateKey = (date: Date) => date.toISOString().split('T')[0];
+  /**
+   * Tasks for a day, filled in from the recurring templates the first time
+   * an upcoming day is opened. Days already in history are left untouched.
+   */
+  const getDayTasks = (dateKey: string, dayHistory: Record<string, Task[]>, dayTemplates: TaskTemplate[]) => {
+    if (dayHistory[dateKey] || dateKey < getTodayKey()) {
+      return { dayTasks: dayHistory[dateKey] || [], filled: false };
+    }
+    const generated = buildTasksFromTemplates(dayTemplates, dateKey);
+    return { dayTasks: generated, filled: generated.length > 0 };
+  };
 
-  // Load history from local storage on mount
-  useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        const parsedHistory = JSON.parse(saved);
-        setHistory(parsedHistory);
-        
-        // Try to load today's tasks if they exist
-        const todayKey = getDateKey(new Date());
-        if (parsedHistory[todayKey]) {
-          setTasks(parsedHistory[todayKey]);
-          // 状态已经是 PLANNING，所以这里只需要同步任务
-        }
-      } catch (e) {
-        console.error("Failed to parse history", e);
-      }
+  const dayTasksFor = (dateKey: string) => getDayTasks(dateKey, history, templates).dayTasks;
+  const availableMinutesFor = (dateKey: string) => getAvailableMinutes(settings, dateKey, getPlanningStart(dateKey));
+
+  // Swap every per-profile piece of state over to the given child
+  const loadProfile = async (profileId: string) => {
+    const [profileHistory, profileTemplates, profileSubjects, profileSettings, savedSession, profileRewards, profileAssignments] = await Promise.all([
+      loadProfileHistory(profileId),
+      loadProfileTemplates(profileId),
+      loadProfileSubjects(profileId),
+      loadProfileSettings(profileId),
+      loadSession(profileId),
+      loadProfileRewards(profileId),
+      loadProfileAssignments(profileId),
+    ]);
+    setSubjects(profileSubjects);
+    setTemplates(profileTemplates);
+    setAssignments(profileAssignments);
+    setRewards(profileRewards);
+    setNewBadges([]);
+    setParentMode(false);
+    setLoadedProfileId(profileId);
+    saveActiveProfileId(profileId);
+
+    // One-time check for days the old UTC keys filed under the wrong date
+    const misfiled = profileSettings.dateKeysChecked ? [] : findMisfiledDays(profileHistory);
+    setDateFixOffer(misfiled.length > 0 ? misfiled : null);
+    setSettings(misfiled.length > 0 || profileSettings.dateKeysChecked
+      ? profileSettings
+      : { ...profileSettings, dateKeysChecked: true });
+
+    // Pick up a timer session that was still open when the app was closed
+    const sessionTask = savedSession && (profileHistory[savedSession.dateKey] || [])
+      .find(t => t.id === savedSession.taskId);
+    if (savedSession && sessionTask) {
+      // The clock is stopped when a sibling takes over, so only a running session keeps its task ACTIVE
+      const status = isSessionRunning(savedSession) ? TaskStatus.ACTIVE : TaskStatus.PENDING;
+      const dayTasks = profileHistory[savedSession.dateKey].map(t => t.id === sessionTask.id ? { ...t, status } : t);
+      setHistory({ ...profileHistory, [savedSession.dateKey]: dayTasks });
+      setSession(savedSession);
+      setCurrentDate(fromDateKey(savedSession.dateKey));
+      setTasks(dayTasks);
+      setActiveTask({ ...sessionTask, status });
+      setAppState(AppState.DOING);
+      return;
     }
+
+    // Try to load today's tasks if they exist
+    const todayKey = getTodayKey();
+    const { dayTasks, filled } = getDayTasks(todayKey, profileHistory, profileTemplates);
+    setHistory(filled ? { ...profileHistory, [todayKey]: dayTasks } : profileHistory);
+    setSession(null);
+    setActiveTask(null);
+    setCurrentDate(new Date());
+    setTasks(dayTasks);
+    setAppState(AppState.PLANNING);
+
+    // Once per day, offer yesterday's unfinished missions
+    const yesterdayKey = shiftDateKey(todayKey, -1);
+    const leftovers = (profileHistory[yesterdayKey] || []).filter(isUnfinished);
+    setCarryOverOffer(profileSettings.carryOverCheckedOn !== todayKey && leftovers.length > 0
+      ? { fromKey: yesterdayKey, tasks: leftovers }
+      : null);
+  };
+
+  // Locked profiles need their PIN before anything of theirs is shown
+  const openProfile = (profileId: string, profileList: UserProfile[] = profiles) => {
+    const profile = profileList.find(p => p.id === profileId);
+    if (profile?.pinHash) {
+      setPendingUnlockId(profileId);
+    } else {
+      loadProfile(profileId);
+    }
+  };
+
+  // Storage migrates older data on first access, then the last used profile opens
+  useEffect(() => {
+    const unsubscribe = onStorageError(setStorageError);
+    ensureProfiles().then(({ profiles: savedProfiles, activeProfileId }) => {
+      setProfiles(savedProfiles);
+      openProfile(activeProfileId, savedProfiles);
+    });
+    return unsubscribe;
   }, []);
 
+  // Nothing is written until a profile has been loaded, so its data is never clobbered
+  useEffect(() => {
+    if (loadedProfileId) saveSession(loadedProfileId, session);
+  }, [session, loadedProfileId]);
+
   // Save history whenever tasks change or active date changes
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
-  }, [history]);
+    if (loadedProfileId) saveProfileHistory(loadedProfileId, history);
+  }, [history, loadedProfileId]);
+
+  useEffect(() => {
+    if (loadedProfileId) saveProfileSubjects(loadedProfileId, subjects);
+  }, [subjects, loadedProfileId]);
+
+  useEffect(() => {
+    if (loadedProfileId) saveProfileSettings(loadedProfileId, settings);
+  }, [settings, loadedProfileId]);
+
+  useEffect(() => {
+    if (loadedProfileId) saveProfileTemplates(loadedProfileId, templates);
+  }, [templates, loadedProfileId]);
+
+  useEffect(() => {
+    if (loadedProfileId) saveProfileAssignments(loadedProfileId, assignments);
+  }, [assignments, loadedProfileId]);
+
+  useEffect(() => {
+    if (loadedProfileId) saveProfileRewards(loadedProfileId, rewards);
+  }, [rewards, loadedProfileId]);
+
+  useEffect(() => {
+    if (profiles.length > 0) saveProfiles(profiles);
+  }, [profiles]);
+
+  const ledger = useMemo(
+    () => buildLedger(history, rewards.rules, rewards.redemptions, getTodayKey()),
+    [history, rewards.rules, rewards.redemptions]
+  );
+  const rewardSummary = useMemo(
+    () => computeRewards(history, ledger, rewards.rules, getTodayKey()),
+    [history, ledger, rewards.rules]
+  );
+  const balance = getBalance(ledger, rewards.redemptions);
+
+  // Record badges the moment they are earned, and celebrate them
+  useEffect(() => {
+    if (!loadedProfileId) return;
+    const earned = findNewBadges(rewardSummary, rewards.unlockedBadges);
+    if (earned.length === 0) return;
+    const todayKey = getTodayKey();
+    setRewards(prev => ({
+      ...prev,
+      unlockedBadges: { ...prev.unlockedBadges, ...Object.fromEntries(earned.map(b => [b.id, todayKey])) },
+    }));
+    setNewBadges(prev => [...prev, ...earned]);
+  }, [rewardSummary, loadedProfileId]);
+
+  const handleSwitchProfile = (profileId: string, profileList: UserProfile[] = profiles) => {
+    if (profileId === loadedProfileId) return;
+    // A sibling taking the tablet should not keep the clock running
+    if (session && loadedProfileId) saveSession(loadedProfileId, pauseSession(session));
+    openProfile(profileId, profileList);
+  };
+
+  const handleUnlockProfile = async (pin: string) => {
+    const profile = profiles.find(p => p.id === pendingUnlockId);
+    if (!profile?.pinHash || !(await verifyPin(pin, profile.pinHash))) return false;
+    setPendingUnlockId(null);
+    loadProfile(profile.id);
+    return true;
+  };
+
+  const handleCancelUnlock = () => {
+    setPendingUnlockId(null);
+    if (loadedProfileId) return;
+    // Nothing open yet (locked at start-up): fall back to an unlocked profile if there is one
+    const unlocked = profiles.find(p => !p.pinHash);
+    if (unlocked) loadProfile(unlocked.id);
+  };
+
+  const handleSaveProfile = (profile: UserProfile) => {
+    const exists = profiles.some(p => p.id === profile.id);
+    const nextProfiles = exists ? profiles.map(p => p.id === profile.id ? profile : p) : [...profiles, profile];
+    setProfiles(nextProfiles);
+    // The new profile isn't in state yet, so its PIN is looked up in the updated list
+    if (!exists) handleSwitchProfile(profile.id, nextProfiles);
+  };
+
+  const handleDeleteProfile = (profileId: string) => {
+    const remaining = profiles.filter(p => p.id !== profileId);
+    if (remaining.length === 0) return;
+    withParentMode(() => {
+      deleteProfileData(profileId);
+      setProfiles(remaining);
+      if (profileId === loadedProfileId) {
+        setLoadedProfileId(null);
+        openProfile(remaining[0].id, remaining);
+      }
+    });
+  };
+
+  const handleSubjectCreated = (subject: Subject) => {
+    setSubjects(prev => findSubject(prev, subject.name) ? prev : [...prev, subject]);
+  };
+
+  // Tasks, routines and badge goals keep their subject by name, so they follow a rename
+  const refileSubject = (fromName: string, toName: string) => {
+    setHistory(prev => remapHistorySubject(prev, fromName, toName));
+    setTasks(prev => remapSubjectName(prev, fromName, toName));
+    setTemplates(prev => remapSubjectName(prev, fromName, toName));
+    setRewards(prev => ({
+      ...prev,
+      rules: {
+        ...prev.rules,
+        badges: prev.rules.badges.map(b => b.criterion.kind === 'subject-minutes'
+          ? { ...b, criterion: remapSubjectName([b.criterion], fromName, toName)[0] }
+          : b),
+      },
+    }));
+  };
+
+  // Renaming and mapping rewrite past days too, so both need parent mode
+  const handleRenameSubject = (subjectId: string, name: string) => {
+    const subject = subjects.find(s => s.id === subjectId);
+    if (!subject) return;
+    withParentMode(() => {
+      setSubjects(prev => prev.map(s => s.id === subjectId ? { ...s, name } : s));
+      refileSubject(subject.name, name);
+    });
+  };
+
+  // A free-text subject from history joins a registry entry, and is remembered
+  // as an alias so later imports with that name land there too
+  const handleMapSubject = (fromName: string, subjectId: string) => {
+    const subject = subjects.find(s => s.id === subjectId);
+    if (!subject) return;
+    withParentMode(() => {
+      setSubjects(prev => prev.map(s => s.id === subjectId ? { ...s, aliases: [...(s.aliases || []), fromName] } : s));
+      refileSubject(fromName, subject.name);
+    });
+  };
 
   // Wrapper to update tasks AND update history record
   const updateTasks = (newTasks: Task[] | ((prev: Task[]) => Task[])) => {
@@ -57,7 +323,7 @@ const App: React.FC = () => {
       const updatedTasks = typeof newTasks === 'function' ? newTasks(prevTasks) : newTasks;
       
       // Update history synchronously with the task update
-      const dateKey = getDateKey(currentDate);
+      const dateKey = toDateKey(currentDate);
       setHistory(prevHistory => ({
         ...prevHistory,
         [dateKey]: updatedTasks
@@ -67,61 +333,344 @@ const App: React.FC = () => {
     });
   };
 
+  // Update any day's tasks, keeping the visible list in sync when it is that day
+  const updateDayTasks = (dateKey: string, updater: (prev: Task[]) => Task[]) => {
+    setHistory(prevHistory => ({
+      ...prevHistory,
+      [dateKey]: updater(prevHistory[dateKey] || [])
+    }));
+    if (dateKey === toDateKey(currentDate)) {
+      setTasks(updater);
+    }
+  };
+
   const handleDateChange = (newDate: Date) => {
-    const dateKey = getDateKey(newDate);
-    const historyTasks = history[dateKey] || [];
+    const dateKey = toDateKey(newDate);
+    // A locked past day is only looked at, so it doesn't get routines written into it
+    const { dayTasks, filled } = isDayLocked(dateKey, getTodayKey(), parentMode)
+      ? { dayTasks: history[dateKey] || [], filled: false }
+      : getDayTasks(dateKey, history, templates);
+    if (filled) {
+      setHistory(prevHistory => ({ ...prevHistory, [dateKey]: dayTasks }));
+    }
     
     setCurrentDate(newDate);
-    setTasks(historyTasks);
+    setTasks(dayTasks);
     setAppState(AppState.PLANNING);
   };
 
   const handleCreateSchedule = async () => {
     setIsGenerating(true);
     
+    // Only open missions get re-planned; finished ones stay as they are
+    const openTasks = tasks.filter(t => t.status === TaskStatus.PENDING || t.status === TaskStatus.ACTIVE);
+
     // Map existing tasks to partials for API
-    const simpleTasks = tasks.map(({ title, subject, estimatedMinutes, emoji }) => ({ title, subject, estimatedMinutes, emoji }));
-    
-    const optimized = await generateOptimizedSchedule(simpleTasks);
+    const simpleTasks = openTasks.map(({ title, subject, estimatedMinutes, emoji, isBreak }) => ({ title, subject, estimatedMinutes, emoji, isBreak }));
     
-    const newTasks: Task[] = optimized.map((t: any, idx: number) => ({
-      id: `task-${Date.now()}-${idx}`,
-      title: t.title,
-      subject: t.subject,
-      estimatedMinutes: t.estimatedMinutes,
-      isBreak: t.isBreak || false,
-      emoji: t.emoji || '📅',
-      status: TaskStatus.PENDING,
-    }));
+    const { items, source, issues } = await planSchedule(simpleTasks, settings.schedulerMode, {
+      availableTimeMinutes: availableMinutesFor(toDateKey(currentDate)),
+      hardSubjects: getHardSubjectNames(subjects),
+    });
+    const proposal = reconcileSchedule(openTasks, items);
 
-    updateTasks(newTasks);
+    setSchedulePreview({ ...proposal, changes: [...issues, ...proposal.changes], source });
     setIsGenerating(false);
     setAppState(AppState.PLANNING);
   };
 
-  const handleStartTask = (task: Task) => {
-    setActiveTask(task);
+  const handleApplySchedule = () => {
+    if (!schedulePreview) return;
+    updateTasks(prev => applyScheduleProposal(prev, schedulePreview));
+    setSchedulePreview(null);
+  };
+
+  const handleSchedulerModeChange = (schedulerMode: SchedulerMode) => {
+    setSettings(prev => ({ ...prev, schedulerMode }));
+  };
+
+  const handleTimerModeChange = (timerMode: TimerMode) => {
+    setSettings(prev => ({ ...prev, timerMode }));
+  };
+
+  // Park an open session: bank its elapsed time, Pomodoro phases and pauses on the task and hand it back to PENDING
+  const parkSession = (openSession: TimerSession) => {
+    const elapsed = getElapsedSeconds(pauseSession(openSession));
+    updateDayTasks(openSession.dateKey, prev => prev.map(t => t.id === openSession.taskId
+      ? {
+        ...t,
+        status: TaskStatus.PENDING,
+        actualDurationSeconds: elapsed || undefined,
+        cycles: closeCycles(openSession, t.estimatedMinutes, settings.pomodoro, false),
+        pauses: closePauses(openSession),
+      }
+      : t
+    ));
+  };
+
+  // A task is ACTIVE only while its clock runs; pausing hands it back to PENDING
+  const markSessionTask = (openSession: TimerSession) => {
+    const status = isSessionRunning(openSession) ? TaskStatus.ACTIVE : TaskStatus.PENDING;
+    updateDayTasks(openSession.dateKey, prev => prev.map(t => t.id === openSession.taskId ? { ...t, status } : t));
+  };
+
+  const handleSessionChange = (nextSession: TimerSession) => {
+    if (!session || isSessionRunning(nextSession) !== isSessionRunning(session)) markSessionTask(nextSession);
+    setSession(nextSession);
+  };
+
+  // Opens the timer on a task. Autopilot passes its chain and the clock starts straight away.
+  const openTask = (task: Task, chain?: string[]) => {
+    const dateKey = toDateKey(currentDate);
+    let nextSession = session;
+
+    if (!nextSession || nextSession.taskId !== task.id) {
+      if (nextSession) parkSession(nextSession);
+      nextSession = createSession(task, dateKey, task.isBreak ? 'countdown' : settings.timerMode);
+    }
+
+    if (chain) {
+      nextSession = resumeSession({ ...nextSession, chain });
+      markSessionTask(nextSession);
+      announceMoment('start', settings.sound, `${task.title} has started`);
+    }
+
+    setSession(nextSession);
+    setActiveTask({ ...task, status: isSessionRunning(nextSession) ? TaskStatus.ACTIVE : TaskStatus.PENDING });
     setAppState(AppState.DOING);
   };
 
+  const handleStartTask = (task: Task) => openTask(task);
+
+  const handleStartAutopilot = () => {
+    setHandoff({ chain: buildChain(tasks), finished: null });
+    setAppState(AppState.AUTOPILOT);
+  };
+
   const handleCompleteTask = (task: Task, durationSeconds: number) => {
-    updateTasks(prev => prev.map(t => 
-      t.id === task.id ? { ...t, status: TaskStatus.COMPLETED, actualDurationSeconds: durationSeconds } : t
+    const dateKey = session?.dateKey || toDateKey(currentDate);
+    const cycles = session ? closeCycles(session, task.estimatedMinutes, settings.pomodoro, true) : task.cycles;
+    const pauses = session ? closePauses(session) : task.pauses;
+    const completion = { status: getFinishedStatus(task, settings.requireSignOff), actualDurationSeconds: durationSeconds, completedAt: Date.now(), cycles, pauses };
+    updateDayTasks(dateKey, prev => prev.map(t => t.id === task.id ? { ...t, ...completion } : t));
+
+    // Finishing the last open mission of the day opens the summary
+    const remaining = (history[dateKey] || []).filter(t =>
+      t.id !== task.id && (t.status === TaskStatus.PENDING || t.status === TaskStatus.ACTIVE)
+    );
+    const chain = session?.chain;
+
+    setSession(null);
+    setActiveTask(null);
+    if (chain && getNextInChain(remaining, chain) && dateKey === toDateKey(currentDate)) {
+      setHandoff({ chain, finished: { ...task, ...completion } });
+      setAppState(AppState.AUTOPILOT);
+    } else if (remaining.length === 0 && dateKey === toDateKey(currentDate)) {
+      setAppState(AppState.SUMMARY);
+    } else {
+      setAppState(AppState.PLANNING);
+    }
+  };
+
+  const handleHandoffGo = (next: Task) => {
+    if (!handoff) return;
+    setHandoff(null);
+    openTask(next, handoff.chain);
+  };
+
+  // Skipping leaves the item in the quest log and drops it from this run
+  const handleHandoffSkip = (next: Task) => {
+    if (!handoff) return;
+    const chain = handoff.chain.filter(id => id !== next.id);
+    if (getNextInChain(tasks, chain)) {
+      setHandoff({ ...handoff, chain });
+    } else {
+      setHandoff(null);
+      setAppState(AppState.PLANNING);
+    }
+  };
+
+  // Reopens the break that just ended with a few more minutes on it
+  const handleExtendBreak = () => {
+    if (!handoff?.finished) return;
+    const extended = {
+      ...handoff.finished,
+      estimatedMinutes: handoff.finished.estimatedMinutes + EXTEND_BREAK_MINUTES,
+      completedAt: undefined,
+    };
+    updateDayTasks(toDateKey(currentDate), prev => prev.map(t =>
+      t.id === extended.id ? { ...t, estimatedMinutes: extended.estimatedMinutes, completedAt: undefined } : t
     ));
+    setHandoff(null);
+    openTask(extended, handoff.chain);
+  };
 
+  const handleStopAutopilot = () => {
+    setHandoff(null);
+    setAppState(AppState.PLANNING);
+  };
+
+  // Ticks land on the task in its own day, so they survive leaving the timer
+  const handleChecklistChange = (checklist: ChecklistItem[]) => {
+    if (!activeTask) return;
+    const dateKey = session?.dateKey || toDateKey(currentDate);
+    setActiveTask({ ...activeTask, checklist });
+    updateDayTasks(dateKey, prev => prev.map(t => t.id === activeTask.id ? { ...t, checklist } : t));
+  };
+
+  const handleCancelSession = () => {
+    if (session) {
+      updateDayTasks(session.dateKey, prev => prev.map(t =>
+        t.id === session.taskId ? { ...t, status: TaskStatus.PENDING, actualDurationSeconds: undefined, cycles: undefined, pauses: undefined } : t
+      ));
+    }
+    setSession(null);
     setActiveTask(null);
     setAppState(AppState.PLANNING);
   };
 
+  // Runs an action in parent mode, asking for the PIN first if it's off
+  const withParentMode = (action: () => void) => {
+    if (parentMode) action();
+    else setAfterParentUnlock(() => action);
+  };
+
+  const handleParentModeToggle = () => {
+    if (!parentMode) {
+      withParentMode(() => {});
+      return;
+    }
+    setParentMode(false);
+    if (isParentView(appState)) setAppState(AppState.PLANNING);
+  };
+
+  const handleReviewTask = (taskId: string, approved: boolean) => {
+    withParentMode(() => updateTasks(prev => prev.map(t => t.id === taskId ? reviewTask(t, approved) : t)));
+  };
+
+  // Deleting loses the task for good, so it always takes a grown-up
   const handleDeleteTask = (taskId: string) => {
-    updateTasks(prev => prev.filter(t => t.id !== taskId));
+    withParentMode(() => {
+      if (session?.taskId === taskId) setSession(null);
+      updateTasks(prev => prev.filter(t => t.id !== taskId));
+    });
+  };
+
+  const handleSkipTask = (taskId: string, reason: string) => {
+    updateTasks(prev => prev.map(t => t.id === taskId ? skipTask(t, reason) : t));
+  };
+
+  const handleUnskipTask = (taskId: string) => {
+    updateTasks(prev => prev.map(t => t.id === taskId ? unskipTask(t) : t));
+  };
+
+  // Move tasks between days, keeping track of when they were first due
+  const moveTasks = (fromKey: string, taskIds: string[], toKey: string) => {
+    const moving = (history[fromKey] || [])
+      .filter(t => taskIds.includes(t.id))
+      .map(t => carryTask(t, fromKey));
+    if (moving.length === 0 || fromKey === toKey) return;
+
+    // A day opened for the first time still gets its routines
+    const { dayTasks } = getDayTasks(toKey, history, templates);
+    updateDayTasks(fromKey, prev => prev.filter(t => !taskIds.includes(t.id)));
+    updateDayTasks(toKey, prev => [...(history[toKey] ? prev : dayTasks), ...moving]);
+  };
+
+  // Moving onto a locked past day needs a grown-up
+  const handleMoveTask = (taskId: string, target: 'tomorrow' | string) => {
+    const fromKey = toDateKey(currentDate);
+    const toKey = target === 'tomorrow' ? shiftDateKey(fromKey, 1) : target;
+    const move = () => moveTasks(fromKey, [taskId], toKey);
+    if (isDayLocked(toKey, getTodayKey(), parentMode)) withParentMode(move);
+    else move();
+  };
+
+  const closeDateFixOffer = () => {
+    setDateFixOffer(null);
+    setSettings(prev => ({ ...prev, dateKeysChecked: true }));
+  };
+
+  const handleApplyDateFixes = (fixes: DateKeyFix[]) => {
+    const fixed = applyDateKeyFixes(history, fixes);
+    setHistory(fixed);
+
+    // An open session follows its day to the new key
+    const sessionFix = session && fixes.find(f => f.fromKey === session.dateKey);
+    if (session && sessionFix) {
+      setSession({ ...session, dateKey: sessionFix.toKey });
+      setCurrentDate(fromDateKey(sessionFix.toKey));
+      setTasks(fixed[sessionFix.toKey]);
+    } else {
+      setTasks(fixed[toDateKey(currentDate)] || []);
+    }
+    closeDateFixOffer();
+  };
+
+  // Imports can rewrite any day, past ones included
+  const handleImportHistory = (imported: Record<string, Task[]>) => withParentMode(() => {
+    setHistory(imported);
+    setTasks(imported[toDateKey(currentDate)] || []);
+    // A replaced day may no longer hold the task the timer was open on
+    if (session && !(imported[session.dateKey] || []).some(t => t.id === session.taskId)) {
+      setSession(null);
+      setActiveTask(null);
+    }
+  });
+
+  // Imported missions join their day; a day opened for the first time still gets its routines
+  const handleImportDays = (days: Record<string, Task[]>) => {
+    const merged = { ...history };
+    Object.entries(days).forEach(([dateKey, incoming]) => {
+      const base = getDayTasks(dateKey, history, templates).dayTasks;
+      const existingIds = new Set(base.map(t => t.id));
+      merged[dateKey] = [...base, ...incoming.filter(t => !existingIds.has(t.id))];
+    });
+    handleImportHistory(merged);
   };
 
-  const isToday = getDateKey(currentDate) === getDateKey(new Date());
+  // Lays an assignment's open work out again from today, around everything else already planned
+  const replanAssignment = (assignment: Assignment, includeSkipped = false) => {
+    const { chunks } = planAssignment(assignment, history, dayTasksFor, availableMinutesFor, getTodayKey(), includeSkipped);
+    const next = applyAssignmentPlan(history, assignment, chunks, dayTasksFor, includeSkipped);
+    setHistory(next);
+    setTasks(prev => next[toDateKey(currentDate)] || prev);
+  };
+
+  const handleAddAssignment = (fields: Assignment) => {
+    const assignment = { ...fields, parentAssigned: parentMode || undefined };
+    setAssignments(prev => [...prev, assignment]);
+    replanAssignment(assignment);
+  };
+
+  const handleReplanAssignment = (assignmentId: string, includeSkipped: boolean) => {
+    const assignment = assignments.find(a => a.id === assignmentId);
+    if (assignment) replanAssignment(assignment, includeSkipped);
+  };
+
+  const handleDeleteAssignment = (assignmentId: string) => withParentMode(() => {
+    const next = removeAssignmentChunks(history, assignmentId);
+    setAssignments(prev => prev.filter(a => a.id !== assignmentId));
+    setHistory(next);
+    setTasks(prev => next[toDateKey(currentDate)] || prev);
+  });
+
+  const closeCarryOverOffer = () => {
+    setCarryOverOffer(null);
+    setSettings(prev => ({ ...prev, carryOverCheckedOn: getTodayKey() }));
+  };
+
+  const handleAcceptCarryOver = (taskIds: string[]) => {
+    if (carryOverOffer) moveTasks(carryOverOffer.fromKey, taskIds, getTodayKey());
+    closeCarryOverOffer();
+  };
+
+  const isToday = toDateKey(currentDate) === getTodayKey();
+  const handoffNext = handoff && getNextInChain(tasks, handoff.chain);
 
   return (
     <div className="min-h-screen pb-16">
-      <header className="bg-white border-b border-slate-100 sticky top-0 z-50">
+      <header className="bg-white border-b border-slate-100 sticky top-0 z-50 print:hidden">
         <div className="max-w-5xl mx-auto px-6 h-20 flex items-center justify-between">
            <div className="flex items-center gap-3">
              <div className="bg-indigo-600 text-white p-2.5 rounded-xl shadow-indigo-100 shadow-lg">
@@ -131,7 +680,21 @@ const App: React.FC = () => {
            </div>
            
            <div className="flex items-center gap-2">
-             {!isToday && appState !== AppState.CALENDAR && (
+             {loadedProfileId && (
+               <ProfileSwitcher
+                 profiles={profiles}
+                 activeProfileId={loadedProfileId}
+                 settings={settings}
+                 onSwitch={handleSwitchProfile}
+                 onSaveProfile={handleSaveProfile}
+                 onSaveSettings={setSettings}
+                 onDeleteProfile={handleDeleteProfile}
+                 parentMode={parentMode}
+                 withParentMode={withParentMode}
+               />
+             )}
+
+             {!isToday && appState !== AppState.CALENDAR && appState !== AppState.DASHBOARD && (
                 <button
                   onClick={() => handleDateChange(new Date())}
                   className="hidden md:flex items-center gap-2 px-5 py-2.5 bg-indigo-50 text-indigo-600 rounded-xl font-bold text-sm hover:bg-indigo-100 transition-colors"
@@ -140,6 +703,70 @@ const App: React.FC = () => {
                 </button>
              )}
 
+             <button
+                onClick={handleParentModeToggle}
+                className={`p-2.5 rounded-xl transition-colors ${parentMode ? 'bg-rose-100 text-rose-600' : 'hover:bg-slate-50 text-slate-400 hover:text-rose-600'}`}
+                title={parentMode ? 'Leave parent mode' : 'Parent mode'}
+             >
+               {parentMode ? <LockOpen className="w-6 h-6" /> : <Lock className="w-6 h-6" />}
+             </button>
+
+             <button 
+                onClick={() => withParentMode(() => setAppState(AppState.SETTINGS))}
+                className={`p-2.5 rounded-xl transition-colors ${appState === AppState.SETTINGS ? 'bg-indigo-100 text-indigo-600' : 'hover:bg-slate-50 text-slate-400 hover:text-indigo-600'}`}
+                title="AI Settings"
+             >
+               <Bot className="w-6 h-6" />
+             </button>
+
+             <button 
+                onClick={() => setAppState(AppState.TROPHIES)}
+                className={`flex items-center gap-1.5 px-3 py-2.5 rounded-xl font-black text-sm transition-colors ${appState === AppState.TROPHIES ? 'bg-amber-100 text-amber-600' : 'hover:bg-amber-50 text-amber-500'}`}
+                title="Trophy Room"
+             >
+               <Star className="w-5 h-5 fill-current" /> {balance.available}
+             </button>
+
+             <button 
+                onClick={() => withParentMode(() => setAppState(AppState.BACKUP))}
+                className={`p-2.5 rounded-xl transition-colors ${appState === AppState.BACKUP ? 'bg-indigo-100 text-indigo-600' : 'hover:bg-slate-50 text-slate-400 hover:text-indigo-600'}`}
+                title="Backup"
+             >
+               <HardDrive className="w-6 h-6" />
+             </button>
+
+             <button 
+                onClick={() => withParentMode(() => setAppState(AppState.SUBJECTS))}
+                className={`p-2.5 rounded-xl transition-colors ${appState === AppState.SUBJECTS ? 'bg-indigo-100 text-indigo-600' : 'hover:bg-slate-50 text-slate-400 hover:text-indigo-600'}`}
+                title="Subjects"
+             >
+               <Shapes className="w-6 h-6" />
+             </button>
+
+             <button
+                onClick={() => setAppState(AppState.BACKLOG)}
+                className={`p-2.5 rounded-xl transition-colors ${appState === AppState.BACKLOG ? 'bg-indigo-100 text-indigo-600' : 'hover:bg-slate-50 text-slate-400 hover:text-indigo-600'}`}
+                title="Coming Up"
+             >
+               <BookMarked className="w-6 h-6" />
+             </button>
+
+             <button 
+                onClick={() => withParentMode(() => setAppState(AppState.TEMPLATES))}
+                className={`p-2.5 rounded-xl transition-colors ${appState === AppState.TEMPLATES ? 'bg-indigo-100 text-indigo-600' : 'hover:bg-slate-50 text-slate-400 hover:text-indigo-600'}`}
+                title="Routines"
+             >
+               <Repeat className="w-6 h-6" />
+             </button>
+
+             <button 
+                onClick={() => setAppState(AppState.DASHBOARD)}
+                className={`p-2.5 rounded-xl transition-colors ${appState === AppState.DASHBOARD ? 'bg-indigo-100 text-indigo-600' : 'hover:bg-slate-50 text-slate-400 hover:text-indigo-600'}`}
+                title="Parent Dashboard"
+             >
+               <BarChart3 className="w-6 h-6" />
+             </button>
+
              <button 
                 onClick={() => setAppState(AppState.CALENDAR)}
                 className={`p-2.5 rounded-xl transition-colors ${appState === AppState.CALENDAR ? 'bg-indigo-100 text-indigo-600' : 'hover:bg-slate-50 text-slate-400 hover:text-indigo-600'}`}
@@ -159,17 +786,81 @@ const App: React.FC = () => {
         </div>
       </header>
 
-      <main className="pt-8 px-4">
+      <main className="pt-8 px-4 print:pt-0">
+        {storageError && (
+          <div className="max-w-4xl mx-auto mb-6 print:hidden">
+            <div className={`flex items-center gap-3 border p-4 rounded-2xl shadow-sm ${storageError.level === 'error' ? 'bg-rose-50 border-rose-100 text-rose-700' : 'bg-indigo-50 border-indigo-100 text-indigo-700'}`}>
+              <AlertTriangle className="w-5 h-5 shrink-0" />
+              <span className="flex-1 font-bold text-sm">
+                {storageError.level === 'error' ? `Couldn't ${storageError.action}. ${storageError.message}` : storageError.message}
+              </span>
+              <button onClick={() => setStorageError(null)} className={`p-1 rounded-lg transition-colors ${storageError.level === 'error' ? 'hover:bg-rose-100' : 'hover:bg-indigo-100'}`}>
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
         {!isToday && appState === AppState.PLANNING && (
           <div className="max-w-4xl mx-auto mb-6">
              <div className="flex items-center gap-3 bg-amber-50 border border-amber-100 p-4 rounded-2xl text-amber-800 shadow-sm">
                 <CalendarIcon className="w-5 h-5" />
                 <span className="font-bold text-base italic">{currentDate.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}</span>
-                <button onClick={() => handleDateChange(new Date())} className="ml-auto text-sm font-bold underline hover:no-underline">Back to Today</button>
+                {tasks.length > 0 && (
+                  <button onClick={() => setAppState(AppState.SUMMARY)} className="ml-auto text-sm font-bold underline hover:no-underline">Summary</button>
+                )}
+                <button onClick={() => handleDateChange(new Date())} className={`${tasks.length > 0 ? '' : 'ml-auto '}text-sm font-bold underline hover:no-underline`}>Back to Today</button>
              </div>
           </div>
         )}
 
+        {pendingUnlockId && (
+          <PinPrompt
+            title={`Hi ${profiles.find(p => p.id === pendingUnlockId)?.name || ''}!`}
+            subtitle="Enter your PIN to open your quest log"
+            onSubmit={handleUnlockProfile}
+            onCancel={loadedProfileId || profiles.some(p => !p.pinHash) ? handleCancelUnlock : undefined}
+          />
+        )}
+
+        {dateFixOffer && !pendingUnlockId && (
+          <DateFixPrompt
+            fixes={dateFixOffer}
+            onApply={handleApplyDateFixes}
+            onDismiss={closeDateFixOffer}
+          />
+        )}
+
+        {carryOverOffer && !dateFixOffer && !pendingUnlockId && (
+          <CarryOverPrompt
+            tasks={carryOverOffer.tasks}
+            onAccept={handleAcceptCarryOver}
+            onDismiss={closeCarryOverOffer}
+          />
+        )}
+
+        {afterParentUnlock && (
+          <ParentPinGate
+            onUnlock={() => {
+              setParentMode(true);
+              afterParentUnlock();
+              setAfterParentUnlock(null);
+            }}
+            onCancel={() => setAfterParentUnlock(null)}
+          />
+        )}
+
+        {newBadges.length > 0 && (
+          <BadgeUnlocked badge={newBadges[0]} onClose={() => setNewBadges(prev => prev.slice(1))} />
+        )}
+
+        {schedulePreview && (
+          <ScheduleDiff
+            {...schedulePreview}
+            onApply={handleApplySchedule}
+            onCancel={() => setSchedulePreview(null)}
+          />
+        )}
+
         {isGenerating && (
           <div className="fixed inset-0 bg-white/80 backdrop-blur-md z-50 flex flex-col items-center justify-center animate-fade-in">
              <div className="w-20 h-20 border-[6px] border-indigo-100 border-t-indigo-600 rounded-full animate-spin mb-6"></div>
@@ -177,44 +868,189 @@ const App: React.FC = () => {
           </div>
         )}
 
-        <div className="max-w-4xl mx-auto">
-          {appState === AppState.CALENDAR && (
-            <CalendarView 
-              history={history}
-              selectedDate={currentDate}
-              onSelectDate={handleDateChange}
-              onClose={() => setAppState(AppState.PLANNING)}
-            />
-          )}
-
-          {appState === AppState.ONBOARDING && (
-            <TaskInput 
-              tasks={tasks} 
-              onTasksChange={updateTasks} 
-              onNext={handleCreateSchedule} 
-            />
-          )}
-
-          {appState === AppState.PLANNING && (
-            <Schedule 
-              tasks={tasks} 
-              onStartTask={handleStartTask} 
-              onDeleteTask={handleDeleteTask}
-              onTasksChange={updateTasks}
-            />
-          )}
-
-          {appState === AppState.DOING && activeTask && (
-            <Timer 
-              task={activeTask}
-              onComplete={handleCompleteTask}
-              onBack={() => setAppState(AppState.PLANNING)}
-            />
-          )}
-        </div>
+        {loadedProfileId && (
+          <div className="max-w-4xl mx-auto">
+            {appState === AppState.CALENDAR && (
+              <CalendarView 
+                history={history}
+                selectedDate={currentDate}
+                subjects={subjects}
+                availableMinutesFor={availableMinutesFor}
+                pastLocked={!parentMode}
+                onSelectDate={handleDateChange}
+                onClose={() => setAppState(AppState.PLANNING)}
+              />
+            )}
+
+            {appState === AppState.DASHBOARD && (
+              <Dashboard
+                history={history}
+                subjects={subjects}
+                todayKey={getTodayKey()}
+                onClose={() => setAppState(AppState.PLANNING)}
+              />
+            )}
+
+            {appState === AppState.TROPHIES && (
+              <TrophyRoom
+                summary={rewardSummary}
+                rewards={rewards}
+                ledger={ledger}
+                balance={balance}
+                spendableWith={(rules) => getSpendablePoints(history, rules, rewards.redemptions, getTodayKey())}
+                childName={profiles.find(p => p.id === loadedProfileId)?.name || ''}
+                parentMode={parentMode}
+                withParentMode={withParentMode}
+                onRewardsChange={setRewards}
+                onClose={() => handleDateChange(currentDate)}
+              />
+            )}
+
+            {appState === AppState.BACKUP && (
+              <BackupManager
+                history={history}
+                profileName={profiles.find(p => p.id === loadedProfileId)?.name || ''}
+                onImport={handleImportHistory}
+                currentDateKey={toDateKey(currentDate)}
+                subjects={subjects}
+                defaultMinutes={settings.defaultTaskMinutes}
+                onImportDays={handleImportDays}
+                onClose={() => handleDateChange(currentDate)}
+              />
+            )}
+
+            {appState === AppState.SETTINGS && (
+              <AISettings onClose={() => setAppState(AppState.PLANNING)} />
+            )}
+
+            {appState === AppState.SUBJECTS && (
+              <SubjectManager
+                subjects={subjects}
+                history={history}
+                defaultMinutes={settings.defaultTaskMinutes}
+                onSubjectsChange={setSubjects}
+                onRenameSubject={handleRenameSubject}
+                onMapSubject={handleMapSubject}
+                onClose={() => handleDateChange(currentDate)}
+              />
+            )}
+
+            {appState === AppState.BACKLOG && (
+              <AssignmentBacklog
+                assignments={assignments}
+                history={history}
+                subjects={subjects}
+                todayKey={getTodayKey()}
+                availableMinutesFor={availableMinutesFor}
+                onAdd={handleAddAssignment}
+                onReplan={handleReplanAssignment}
+                onDelete={handleDeleteAssignment}
+                onClose={() => handleDateChange(currentDate)}
+              />
+            )}
+
+            {appState === AppState.AVAILABILITY && (
+              <AvailabilityEditor
+                settings={settings}
+                onSettingsChange={setSettings}
+                onClose={() => handleDateChange(currentDate)}
+              />
+            )}
+
+            {appState === AppState.TEMPLATES && (
+              <TemplateManager
+                templates={templates}
+                onTemplatesChange={setTemplates}
+                subjects={subjects}
+                todayKey={getTodayKey()}
+                onClose={() => handleDateChange(currentDate)}
+              />
+            )}
+
+            {appState === AppState.ONBOARDING && (
+              <TaskInput 
+                tasks={tasks} 
+                onTasksChange={updateTasks} 
+                onNext={handleCreateSchedule} 
+                subjects={subjects}
+                onSubjectCreated={handleSubjectCreated}
+                defaultMinutes={settings.defaultTaskMinutes}
+                parentMode={parentMode}
+              />
+            )}
+
+            {appState === AppState.PLANNING && (
+              <Schedule 
+                tasks={tasks} 
+                onStartTask={handleStartTask} 
+                onDeleteTask={handleDeleteTask}
+                onTasksChange={updateTasks}
+                onViewSummary={() => setAppState(AppState.SUMMARY)}
+                onOptimize={handleCreateSchedule}
+                schedulerMode={settings.schedulerMode}
+                onSchedulerModeChange={handleSchedulerModeChange}
+                onSkipTask={handleSkipTask}
+                onUnskipTask={handleUnskipTask}
+                onMoveTask={handleMoveTask}
+                dayWindow={getDayWindow(settings, toDateKey(currentDate))}
+                planningStart={getPlanningStart(toDateKey(currentDate))}
+                availableMinutes={availableMinutesFor(toDateKey(currentDate))}
+                onEditHours={() => setAppState(AppState.AVAILABILITY)}
+                onStartAutopilot={handleStartAutopilot}
+                openTaskId={session?.taskId}
+                parentMode={parentMode}
+                readOnly={isDayLocked(toDateKey(currentDate), getTodayKey(), parentMode)}
+                onReviewTask={handleReviewTask}
+                onUnlock={handleParentModeToggle}
+                subjects={subjects}
+                onSubjectCreated={handleSubjectCreated}
+                defaultMinutes={settings.defaultTaskMinutes}
+              />
+            )}
+
+            {appState === AppState.SUMMARY && (
+              <Summary
+                tasks={tasks}
+                date={currentDate}
+                onClose={() => setAppState(AppState.PLANNING)}
+              />
+            )}
+
+            {appState === AppState.DOING && activeTask && session && (
+              <Timer 
+                task={activeTask}
+                session={session}
+                onSessionChange={handleSessionChange}
+                onComplete={handleCompleteTask}
+                onBack={() => setAppState(AppState.PLANNING)}
+                onCancel={handleCancelSession}
+                childName={profiles.find(p => p.id === loadedProfileId)?.name || ''}
+                nudges={settings.motivationNudges}
+                subjects={subjects}
+                onChecklistChange={handleChecklistChange}
+                pomodoro={settings.pomodoro}
+                onModeChange={handleTimerModeChange}
+                sound={settings.sound}
+                dayTasks={tasks}
+              />
+            )}
+
+            {appState === AppState.AUTOPILOT && handoff && handoffNext && (
+              <AutopilotHandoff
+                key={handoffNext.id}
+                next={handoffNext}
+                progress={getChainProgress(tasks, handoff.chain, null)}
+                onGo={() => handleHandoffGo(handoffNext)}
+                onSkip={() => handleHandoffSkip(handoffNext)}
+                onExtendBreak={handoff.finished?.isBreak ? handleExtendBreak : undefined}
+                onStop={handleStopAutopilot}
+              />
+            )}
+          </div>
+        )}
       </main>
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
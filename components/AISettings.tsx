@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { Bot, Check, Loader2, X } from 'lucide-react';
+import { AIConfig, AIProviderKind } from '../types';
+import { DEFAULT_AI_CONFIG, DEFAULT_MODELS, getAIProvider, loadAIConfig, saveAIConfig } from '../services/ai';
+
+interface AISettingsProps {
+  onClose: () => void;
+}
+
+const PROVIDERS: { kind: AIProviderKind; label: string; hint: string }[] = [
+  { kind: 'gemini', label: 'Gemini', hint: 'Google AI, needs an API key' },
+  { kind: 'openai', label: 'Local server', hint: 'Ollama, llama.cpp or any OpenAI-compatible API' },
+  { kind: 'mock', label: 'Demo', hint: 'Canned answers, works offline' },
+];
+
+const AISettings: React.FC<AISettingsProps> = ({ onClose }) => {
+  const [config, setConfig] = useState<AIConfig>(DEFAULT_AI_CONFIG);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [testResult, setTestResult] = useState<string | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  useEffect(() => {
+    loadAIConfig().then(savedConfig => {
+      setConfig(savedConfig);
+      setIsLoaded(true);
+    });
+  }, []);
+
+  const update = (patch: Partial<AIConfig>) => {
+    setConfig(prev => ({ ...prev, ...patch }));
+    setSaved(false);
+  };
+
+  const selectProvider = (provider: AIProviderKind) => {
+    // Swap the model too unless the user has typed their own
+    const isDefaultModel = Object.values(DEFAULT_MODELS).includes(config.model);
+    update({ provider, ...(isDefaultModel ? { model: DEFAULT_MODELS[provider] } : {}) });
+  };
+
+  const handleSave = async () => {
+    setSaved(await saveAIConfig(config));
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      const message = await getAIProvider(config).getMotivationalMessage('Math', false);
+      setTestResult(`✅ ${message}`);
+    } catch (error) {
+      setTestResult(`❌ ${error instanceof Error ? error.message : 'Request failed'}`);
+    }
+    setIsTesting(false);
+  };
+
+  const inputClass = "w-full bg-slate-50 border-2 border-slate-100 text-slate-700 rounded-xl px-4 py-2.5 focus:outline-none focus:border-indigo-400 transition-all font-bold";
+
+  return (
+    <div className="w-full max-w-2xl mx-auto p-4 animate-fade-in pb-10">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800">AI Settings 🤖</h2>
+          <p className="text-slate-400 text-sm font-medium">Choose who plans the missions and cheers you on</p>
+        </div>
+        <button onClick={onClose} className="p-3 bg-white hover:bg-slate-50 rounded-xl text-slate-300 transition-all border border-slate-100 shadow-sm">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="bg-white rounded-[1.5rem] p-6 shadow-xl border border-sky-50 shadow-sky-100/50 space-y-6">
+        <div className="space-y-2">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Provider</label>
+          <div className="grid sm:grid-cols-3 gap-3">
+            {PROVIDERS.map(p => (
+              <button
+                key={p.kind}
+                onClick={() => selectProvider(p.kind)}
+                className={`text-left p-4 rounded-xl border-2 transition-all ${config.provider === p.kind ? 'border-indigo-400 bg-indigo-50' : 'border-slate-100 bg-slate-50 hover:bg-slate-100'}`}
+              >
+                <p className="font-black text-slate-700 flex items-center gap-2"><Bot className="w-4 h-4" /> {p.label}</p>
+                <p className="text-xs font-medium text-slate-400 mt-1">{p.hint}</p>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {config.provider !== 'mock' && (
+          <>
+            <div className="space-y-2">
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Model</label>
+              <input type="text" value={config.model} onChange={(e) => update({ model: e.target.value })} className={inputClass} />
+            </div>
+
+            {config.provider === 'openai' && (
+              <div className="space-y-2">
+                <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Endpoint</label>
+                <input type="url" value={config.endpoint} onChange={(e) => update({ endpoint: e.target.value })} placeholder="http://localhost:11434/v1" className={inputClass} />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest">
+                API key {config.provider === 'openai' ? '(optional)' : '(leave empty to use the built-in key)'}
+              </label>
+              <input type="password" value={config.apiKey} onChange={(e) => update({ apiKey: e.target.value })} className={inputClass} />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Timeout</label>
+              <div className="flex items-center gap-4 bg-slate-50 p-3 rounded-xl border border-slate-100">
+                <input
+                  type="range"
+                  min="5"
+                  max="120"
+                  step="5"
+                  value={Math.round(config.timeoutMs / 1000)}
+                  onChange={(e) => update({ timeoutMs: Number(e.target.value) * 1000 })}
+                  className="flex-1 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                />
+                <span className="font-bold text-indigo-600 w-12 text-right">{Math.round(config.timeoutMs / 1000)}s</span>
+              </div>
+            </div>
+          </>
+        )}
+
+        {testResult && (
+          <p className="text-sm font-bold text-slate-600 bg-slate-50 rounded-xl p-3 break-words">{testResult}</p>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={handleTest}
+            disabled={isTesting}
+            className="flex items-center gap-2 px-6 py-3 rounded-xl font-bold text-indigo-600 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50 transition-all"
+          >
+            {isTesting && <Loader2 className="w-4 h-4 animate-spin" />} Test
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isLoaded}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-black px-6 py-3 rounded-xl transition-all active:scale-95 shadow-lg shadow-indigo-100 disabled:opacity-50"
+          >
+            {saved && <Check className="w-5 h-5 stroke-[3]" />} {saved ? 'Saved' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AISettings;
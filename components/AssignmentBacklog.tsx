@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CalendarCheck, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import { Assignment, Subject, Task } from '../types';
+import { createAssignment, getAssignmentProgress } from '../services/assignments';
+import { getOvercommitMinutes } from '../services/availability';
+import { daysBetweenKeys, fromDateKey, shiftDateKey } from '../services/dates';
+import { getSubjectColor } from '../services/subjects';
+
+interface AssignmentBacklogProps {
+  assignments: Assignment[];
+  history: Record<string, Task[]>;
+  subjects: Subject[];
+  todayKey: string;
+  availableMinutesFor: (dateKey: string) => number;
+  onAdd: (assignment: Assignment) => void;
+  onReplan: (assignmentId: string, includeSkipped: boolean) => void;
+  onDelete: (assignmentId: string) => void;
+  onClose: () => void;
+}
+
+const formatDay = (dateKey: string) =>
+  fromDateKey(dateKey).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const describeDue = (dueDate: string, todayKey: string) => {
+  const days = daysBetweenKeys(todayKey, dueDate);
+  if (days < 0) return `Overdue by ${-days} ${days === -1 ? 'day' : 'days'}`;
+  if (days === 0) return 'Due today';
+  if (days === 1) return 'Due tomorrow';
+  return `Due in ${days} days`;
+};
+
+const AssignmentBacklog: React.FC<AssignmentBacklogProps> = ({
+  assignments, history, subjects, todayKey, availableMinutesFor, onAdd, onReplan, onDelete, onClose
+}) => {
+  const subjectOptions = subjects.filter(s => !s.archived && !s.isBreak);
+  const [title, setTitle] = useState('');
+  const [subject, setSubject] = useState(subjectOptions[0]?.name || '');
+  const [dueDate, setDueDate] = useState(shiftDateKey(todayKey, 3));
+  const [totalMinutes, setTotalMinutes] = useState(90);
+
+  const rows = assignments
+    .map(assignment => ({ assignment, progress: getAssignmentProgress(assignment, history) }))
+    .sort((a, b) => a.assignment.dueDate.localeCompare(b.assignment.dueDate));
+  const open = rows.filter(r => r.progress.remainingMinutes > 0 || r.progress.planned.length > 0);
+  const finished = rows.filter(r => !open.includes(r));
+
+  const canAdd = title.trim() && subject && dueDate && totalMinutes > 0;
+
+  // Skipped chunks were a choice, so bringing their minutes back is asked first
+  const handleReplan = (assignment: Assignment, skippedMinutes: number) => {
+    const includeSkipped = skippedMinutes > 0 &&
+      window.confirm(`${skippedMinutes} min of ${assignment.title} were skipped. Plan them again too?`);
+    onReplan(assignment.id, includeSkipped);
+  };
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    const entry = subjectOptions.find(s => s.name === subject);
+    onAdd(createAssignment({ title: title.trim(), subject, emoji: entry?.emoji || '📝', dueDate, totalMinutes }));
+    setTitle('');
+  };
+
+  const inputClass = "w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 font-bold text-slate-700";
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 animate-fade-in pb-10">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800">Coming Up 📌</h2>
+          <p className="text-slate-400 text-sm font-medium">Bigger homework, split into bites on the days before it's due</p>
+        </div>
+        <button onClick={onClose} className="p-3 bg-white hover:bg-slate-50 rounded-xl text-slate-300 transition-all border border-slate-100 shadow-sm">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="bg-white rounded-[1.5rem] p-6 shadow-xl border border-sky-50 shadow-sky-100/50 mb-6 space-y-4">
+        <h3 className="text-lg font-black text-slate-700 flex items-center gap-2"><Plus className="w-5 h-5 text-indigo-500" /> New Assignment</h3>
+        <input
+          type="text"
+          placeholder="E.g. Science poster, Book report..."
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className={inputClass}
+        />
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Subject</label>
+            <select value={subject} onChange={(e) => setSubject(e.target.value)} className={inputClass}>
+              {subjectOptions.map(s => <option key={s.id} value={s.name}>{s.emoji} {s.name}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Due</label>
+            <input type="date" value={dueDate} min={todayKey} onChange={(e) => setDueDate(e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Total minutes</label>
+            <input
+              type="number"
+              min="5"
+              step="15"
+              value={totalMinutes || ''}
+              onChange={(e) => setTotalMinutes(Math.max(0, Number(e.target.value) || 0))}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <button
+          onClick={handleAdd}
+          disabled={!canAdd}
+          className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-black py-3 rounded-xl transition-all active:scale-95 shadow-lg shadow-indigo-100"
+        >
+          Plan It
+        </button>
+      </div>
+
+      <div className="bg-white rounded-[1.5rem] p-6 shadow-xl border border-sky-50 shadow-sky-100/50 mb-6">
+        <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-4">Upcoming</h3>
+        {open.length === 0 && (
+          <p className="text-sm font-medium text-slate-400 text-center py-6">Nothing due. Enjoy it! 🎈</p>
+        )}
+        <ul className="space-y-3">
+          {open.map(({ assignment, progress }) => {
+            const busyDays = progress.planned.filter(c => getOvercommitMinutes(history[c.dateKey] || [], availableMinutesFor(c.dateKey)) > 0);
+            const isOverdue = assignment.dueDate < todayKey;
+            return (
+              <li key={assignment.id} className="p-4 rounded-2xl border-2 border-slate-50 bg-slate-50 space-y-3">
+                <div className="flex items-start gap-3">
+                  <span className="text-3xl">{assignment.emoji}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-black text-slate-800 truncate">{assignment.title}</p>
+                    <div className="flex flex-wrap items-center gap-2 text-xs font-bold mt-0.5">
+                      <span className={`px-2 py-0.5 rounded-md ${getSubjectColor(subjects, assignment.subject).chip}`}>{assignment.subject}</span>
+                      <span className={isOverdue ? 'text-rose-500' : 'text-slate-500'}>{describeDue(assignment.dueDate, todayKey)} · {formatDay(assignment.dueDate)}</span>
+                    </div>
+                  </div>
+                  <button onClick={() => handleReplan(assignment, progress.skippedMinutes)} className="p-2 rounded-xl text-slate-400 hover:text-indigo-600 hover:bg-white transition-all" title="Plan again">
+                    <RefreshCw className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onDelete(assignment.id)} className="p-2 rounded-xl text-slate-300 hover:text-red-500 hover:bg-white transition-all" title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <div>
+                  <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-emerald-400 rounded-full" style={{ width: `${Math.min(100, (progress.doneMinutes / assignment.totalMinutes) * 100)}%` }}></div>
+                  </div>
+                  <p className="text-[10px] font-bold text-slate-400 mt-1">
+                    {progress.doneMinutes} of {assignment.totalMinutes} min done{progress.skippedMinutes > 0 && ` · ${progress.skippedMinutes} min skipped`}
+                  </p>
+                </div>
+
+                {progress.planned.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {progress.planned.map(chunk => (
+                      <span
+                        key={chunk.dateKey}
+                        className={`px-2 py-1 rounded-lg text-xs font-bold ${busyDays.includes(chunk) ? 'bg-amber-100 text-amber-700' : 'bg-white text-slate-500'}`}
+                      >
+                        {formatDay(chunk.dateKey)} · {chunk.minutes}m
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {progress.planned.length === 0 && progress.remainingMinutes > 0 && (
+                  <p className="text-xs font-bold text-slate-500">{progress.remainingMinutes} min not planned yet. Tap ↻ to plan it.</p>
+                )}
+
+                {busyDays.length > 0 && (
+                  <p className="flex items-center gap-2 text-xs font-bold text-amber-700 bg-amber-50 rounded-xl p-2">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    {busyDays.length === 1 ? `${formatDay(busyDays[0].dateKey)} has` : `${busyDays.length} days have`} more homework than time
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      {finished.length > 0 && (
+        <div className="bg-white rounded-[1.5rem] p-6 shadow-xl border border-sky-50 shadow-sky-100/50">
+          <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3">Done</h3>
+          <ul className="space-y-2">
+            {finished.map(({ assignment, progress }) => (
+              <li key={assignment.id} className="flex items-center gap-3 text-sm">
+                <CalendarCheck className="w-4 h-4 text-emerald-500" />
+                <span className="flex-1 font-bold text-slate-500 truncate">{assignment.title}</span>
+                {progress.skippedMinutes > 0 && (
+                  <button onClick={() => handleReplan(assignment, progress.skippedMinutes)} className="text-xs font-bold text-amber-600 hover:text-indigo-600 transition-colors" title="Plan skipped work again">
+                    {progress.skippedMinutes} min skipped
+                  </button>
+                )}
+                <span className="text-xs font-bold text-slate-300">{formatDay(assignment.dueDate)}</span>
+                <button onClick={() => onDelete(assignment.id)} className="p-1 text-slate-300 hover:text-red-500 transition-colors" title="Remove">
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssignmentBacklog;
@@ -0,0 +1,78 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Task } from '../types';
+import { ChainProgress, EXTEND_BREAK_MINUTES, HANDOFF_SECONDS } from '../services/autopilot';
+import AutopilotProgress from './AutopilotProgress';
+
+interface AutopilotHandoffProps {
+  next: Task;
+  progress: ChainProgress;
+  onGo: () => void;
+  onSkip: () => void;
+  onExtendBreak?: () => void; // Only offered right after a break
+  onStop: () => void;
+}
+
+const AutopilotHandoff: React.FC<AutopilotHandoffProps> = ({ next, progress, onGo, onSkip, onExtendBreak, onStop }) => {
+  const [secondsLeft, setSecondsLeft] = useState(HANDOFF_SECONDS);
+  const started = useRef(false);
+
+  const go = () => {
+    if (started.current) return;
+    started.current = true;
+    onGo();
+  };
+
+  useEffect(() => {
+    const interval = setInterval(() => setSecondsLeft(prev => Math.max(0, prev - 1)), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (secondsLeft === 0) go();
+  }, [secondsLeft]);
+
+  return (
+    <div className="w-full max-w-xl mx-auto p-4 animate-fade-in pb-10 space-y-8">
+      <AutopilotProgress progress={progress} />
+
+      <div className={`rounded-[2rem] p-8 text-white text-center shadow-xl space-y-4 ${next.isBreak ? 'bg-gradient-to-br from-emerald-400 to-teal-500' : 'bg-gradient-to-br from-indigo-500 to-purple-600'}`}>
+        <p className="text-white/80 font-black text-xs uppercase tracking-widest">{next.isBreak ? 'Break time in' : 'Next mission in'}</p>
+        <p className="text-7xl font-black tabular-nums">{secondsLeft}</p>
+        <div className="text-6xl inline-block animate-bounce-slight">{next.emoji}</div>
+        <h2 className="text-3xl font-black leading-tight">{next.title}</h2>
+        <p className="text-white/80 font-bold">{next.estimatedMinutes} min</p>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-3">
+        <button
+          onClick={go}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white font-black py-3 px-8 rounded-xl transition-all active:scale-95 shadow-lg shadow-indigo-100"
+        >
+          Go now 🚀
+        </button>
+        <button
+          onClick={onSkip}
+          className="bg-slate-100 hover:bg-slate-200 text-slate-600 font-black py-3 px-6 rounded-xl transition-all active:scale-95"
+        >
+          Skip it
+        </button>
+        {onExtendBreak && (
+          <button
+            onClick={onExtendBreak}
+            className="bg-emerald-50 hover:bg-emerald-100 text-emerald-600 font-black py-3 px-6 rounded-xl transition-all active:scale-95"
+          >
+            +{EXTEND_BREAK_MINUTES} min break
+          </button>
+        )}
+      </div>
+
+      <div className="text-center">
+        <button onClick={onStop} className="text-slate-400 hover:text-slate-600 text-[10px] font-black uppercase tracking-widest transition-colors">
+          Stop Autopilot
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AutopilotHandoff;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { ChainProgress } from '../services/autopilot';
+
+interface AutopilotProgressProps {
+  progress: ChainProgress;
+}
+
+const AutopilotProgress: React.FC<AutopilotProgressProps> = ({ progress }) => (
+  <div className="w-full">
+    <div className="flex justify-between text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">
+      <span>🚀 Autopilot · Step {progress.step} of {progress.steps}</span>
+      <span>{progress.minutesLeft} min to go</span>
+    </div>
+    <div className="h-3 bg-slate-100 rounded-full overflow-hidden">
+      <div
+        className="h-full bg-gradient-to-r from-indigo-500 to-emerald-400 rounded-full transition-all duration-500"
+        style={{ width: `${Math.round(progress.fraction * 100)}%` }}
+      ></div>
+    </div>
+  </div>
+);
+
+export default AutopilotProgress;
@@ -0,0 +1,135 @@
+import React from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { AvailabilityWindow, BlockedTime, ProfileSettings } from '../types';
+import { createWindow, getWindowMinutes, parseClock, WEEKDAY_NAMES } from '../services/availability';
+
+interface AvailabilityEditorProps {
+  settings: ProfileSettings;
+  onSettingsChange: (settings: ProfileSettings) => void;
+  onClose: () => void;
+}
+
+// Monday first, the way a school week reads
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const formatMins = (m: number) => {
+  const hours = Math.floor(m / 60);
+  const mins = m % 60;
+  if (hours > 0) return `${hours}h ${mins}m`;
+  return `${mins}m`;
+};
+
+const AvailabilityEditor: React.FC<AvailabilityEditorProps> = ({ settings, onSettingsChange, onClose }) => {
+  const setWindow = (weekday: number, window: AvailabilityWindow | null) =>
+    onSettingsChange({ ...settings, weekdayWindows: settings.weekdayWindows.map((w, i) => i === weekday ? window : w) });
+
+  const updateBlock = (weekday: number, window: AvailabilityWindow, index: number, changes: Partial<BlockedTime>) =>
+    setWindow(weekday, { ...window, blocked: window.blocked.map((b, i) => i === index ? { ...b, ...changes } : b) });
+
+  // Copies one day's hours to every other school day
+  const copyToWeekdays = (window: AvailabilityWindow) =>
+    onSettingsChange({ ...settings, weekdayWindows: settings.weekdayWindows.map((w, i) => i >= 1 && i <= 5 ? { ...window, blocked: [...window.blocked] } : w) });
+
+  const timeClass = "bg-white border-2 border-slate-100 rounded-lg px-2 py-1 font-bold text-slate-700 text-sm";
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 animate-fade-in pb-10">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800">Homework Hours 🕓</h2>
+          <p className="text-slate-400 text-sm font-medium">When homework happens each day, so plans fit the time there is</p>
+        </div>
+        <button onClick={onClose} className="p-3 bg-white hover:bg-slate-50 rounded-xl text-slate-300 transition-all border border-slate-100 shadow-sm">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="bg-white rounded-[1.5rem] p-6 shadow-xl border border-sky-50 shadow-sky-100/50 mb-6 space-y-2">
+        <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Days without set hours</label>
+        <div className="flex items-center gap-4 bg-slate-50 p-3 rounded-xl border border-slate-100">
+          <input
+            type="range"
+            min="15"
+            max="240"
+            step="15"
+            value={settings.dailyMinutes}
+            onChange={(e) => onSettingsChange({ ...settings, dailyMinutes: Number(e.target.value) })}
+            className="flex-1 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+          />
+          <span className="font-bold text-indigo-600 w-16 text-right">{formatMins(settings.dailyMinutes)}</span>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-[1.5rem] p-6 shadow-xl border border-sky-50 shadow-sky-100/50 space-y-3">
+        <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Set Hours</h3>
+        {WEEK_ORDER.map(weekday => {
+          const window = settings.weekdayWindows[weekday];
+          const backwards = window && parseClock(window.end) <= parseClock(window.start);
+          return (
+            <div key={weekday} className={`p-4 rounded-2xl border-2 border-slate-50 space-y-3 ${window ? 'bg-slate-50' : 'bg-white'}`}>
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2 w-32 font-black text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={!!window}
+                    onChange={(e) => setWindow(weekday, e.target.checked ? createWindow() : null)}
+                    className="accent-indigo-500"
+                  />
+                  {WEEKDAY_NAMES[weekday]}
+                </label>
+                {window ? (
+                  <>
+                    <input type="time" value={window.start} onChange={(e) => setWindow(weekday, { ...window, start: e.target.value })} className={timeClass} />
+                    <span className="text-slate-300 font-bold">–</span>
+                    <input type="time" value={window.end} onChange={(e) => setWindow(weekday, { ...window, end: e.target.value })} className={timeClass} />
+                    <span className={`text-xs font-bold ${backwards ? 'text-rose-500' : 'text-indigo-600'}`}>
+                      {backwards ? 'Ends before it starts' : `${formatMins(getWindowMinutes(window))} free`}
+                    </span>
+                    <div className="ml-auto flex items-center gap-2">
+                      {weekday >= 1 && weekday <= 5 && (
+                        <button onClick={() => copyToWeekdays(window)} className="text-xs font-bold text-slate-400 hover:text-indigo-600 transition-colors">
+                          Use for all school days
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setWindow(weekday, { ...window, blocked: [...window.blocked, { label: 'Dinner', start: '17:30', end: '18:00' }] })}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-indigo-600 bg-indigo-50 hover:bg-indigo-100 transition-all"
+                      >
+                        <Plus className="w-3 h-3" /> Block out
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <span className="text-xs font-bold text-slate-400">Uses {formatMins(settings.dailyMinutes)}</span>
+                )}
+              </div>
+
+              {window && window.blocked.map((block, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 pl-8">
+                  <input
+                    value={block.label}
+                    onChange={(e) => updateBlock(weekday, window, index, { label: e.target.value })}
+                    placeholder="What's on"
+                    className={`w-32 ${timeClass}`}
+                  />
+                  <input type="time" value={block.start} onChange={(e) => updateBlock(weekday, window, index, { start: e.target.value })} className={timeClass} />
+                  <span className="text-slate-300 font-bold">–</span>
+                  <input type="time" value={block.end} onChange={(e) => updateBlock(weekday, window, index, { end: e.target.value })} className={timeClass} />
+                  <button
+                    onClick={() => setWindow(weekday, { ...window, blocked: window.blocked.filter((_, i) => i !== index) })}
+                    className="p-1.5 text-slate-300 hover:text-red-500 transition-colors"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AvailabilityEditor;
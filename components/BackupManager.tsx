@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Download, FileJson, FileSpreadsheet, Upload, X } from 'lucide-react';
+import { Subject, Task } from '../types';
+import {
+  applyImport, buildCsv, buildJsonBackup, DayImportKind, downloadFile, filterHistory, HistoryBackup, ImportMode,
+  parseBackup, previewImport
+} from '../services/backup';
+import CalendarSync from './CalendarSync';
+
+interface BackupManagerProps {
+  history: Record<string, Task[]>;
+  profileName: string;
+  onImport: (history: Record<string, Task[]>) => void;
+  currentDateKey: string;
+  subjects: Subject[];
+  defaultMinutes: number;
+  onImportDays: (days: Record<string, Task[]>) => void;
+  onClose: () => void;
+}
+
+const KIND_STYLES: Record<DayImportKind, { label: string; className: string }> = {
+  new: { label: 'New day', className: 'bg-emerald-50 text-emerald-600' },
+  identical: { label: 'Same', className: 'bg-slate-100 text-slate-400' },
+  conflict: { label: 'Different', className: 'bg-amber-50 text-amber-600' },
+};
+
+const BackupManager: React.FC<BackupManagerProps> = ({
+  history, profileName, onImport, currentDateKey, subjects, defaultMinutes, onImportDays, onClose
+}) => {
+  const [fromKey, setFromKey] = useState('');
+  const [toKey, setToKey] = useState('');
+  const [incoming, setIncoming] = useState<HistoryBackup | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [imported, setImported] = useState(false);
+
+  const exportDays = Object.keys(filterHistory(history, fromKey, toKey)).length;
+  const fileStem = `kiddotime-${profileName.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'history'}${fromKey || toKey ? `-${fromKey || 'start'}-to-${toKey || 'today'}` : ''}`;
+
+  const handleFile = async (file: File | undefined) => {
+    setIncoming(null);
+    setWarnings([]);
+    setImportError(null);
+    setImported(false);
+    if (!file) return;
+
+    const result = parseBackup(await file.text());
+    if (result.ok === false) {
+      setImportError(result.error);
+      return;
+    }
+    setIncoming(result.backup);
+    setWarnings(result.warnings);
+  };
+
+  const handleImport = () => {
+    if (!incoming) return;
+    if (mode === 'replace' && !window.confirm('Replace the days in this backup with the backup\'s version? Missions on those days that are not in the backup will be lost.')) return;
+    onImport(applyImport(history, incoming.history, mode));
+    setIncoming(null);
+    setImported(true);
+  };
+
+  const preview = incoming ? previewImport(history, incoming.history) : [];
+  const conflicts = preview.filter(day => day.kind === 'conflict').length;
+
+  const dateInputClass = "bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 font-bold text-slate-600";
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 animate-fade-in pb-10">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800">Backup 💾</h2>
+          <p className="text-slate-400 text-sm font-medium">Save {profileName}'s history to a file, or bring it back on another device</p>
+        </div>
+        <button onClick={onClose} className="p-3 bg-white hover:bg-slate-50 rounded-xl text-slate-300 transition-all border border-slate-100 shadow-sm">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="bg-white rounded-[1.5rem] p-6 shadow-xl border border-sky-50 shadow-sky-100/50 space-y-5">
+          <h3 className="text-lg font-black text-slate-700 flex items-center gap-2"><Download className="w-5 h-5 text-indigo-500" /> Export</h3>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest">From</label>
+              <input type="date" value={fromKey} max={toKey || undefined} onChange={(e) => setFromKey(e.target.value)} className={`w-full ${dateInputClass}`} />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest">To</label>
+              <input type="date" value={toKey} min={fromKey || undefined} onChange={(e) => setToKey(e.target.value)} className={`w-full ${dateInputClass}`} />
+            </div>
+          </div>
+          <p className="text-xs font-bold text-slate-400">
+            {exportDays} {exportDays === 1 ? 'day' : 'days'} of missions{!fromKey && !toKey ? ' (everything)' : ''}
+          </p>
+
+          <div className="flex flex-col gap-3">
+            <button
+              onClick={() => downloadFile(`${fileStem}.json`, buildJsonBackup(history, profileName, fromKey || undefined, toKey || undefined), 'application/json')}
+              disabled={exportDays === 0}
+              className="flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-black py-3 rounded-xl transition-all active:scale-95 shadow-lg shadow-indigo-100"
+            >
+              <FileJson className="w-5 h-5" /> JSON Backup
+            </button>
+            <button
+              onClick={() => downloadFile(`${fileStem}.csv`, buildCsv(history, fromKey || undefined, toKey || undefined), 'text/csv;charset=utf-8')}
+              disabled={exportDays === 0}
+              className="flex items-center justify-center gap-2 py-3 rounded-xl font-bold text-indigo-600 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50 transition-all"
+            >
+              <FileSpreadsheet className="w-5 h-5" /> Spreadsheet (CSV)
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-[1.5rem] p-6 shadow-xl border border-sky-50 shadow-sky-100/50 space-y-5">
+          <h3 className="text-lg font-black text-slate-700 flex items-center gap-2"><Upload className="w-5 h-5 text-indigo-500" /> Import</h3>
+
+          <label className="flex flex-col items-center justify-center gap-2 p-6 rounded-xl border-2 border-dashed border-slate-200 bg-slate-50 hover:bg-slate-100 cursor-pointer transition-all">
+            <FileJson className="w-8 h-8 text-slate-300" />
+            <span className="text-sm font-bold text-slate-500">Choose a JSON backup</span>
+            <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }} />
+          </label>
+
+          {importError && (
+            <p className="flex items-center gap-2 text-sm font-bold text-rose-600 bg-rose-50 rounded-xl p-3">
+              <AlertTriangle className="w-4 h-4 shrink-0" /> {importError}
+            </p>
+          )}
+
+          {imported && (
+            <p className="text-sm font-bold text-emerald-600 bg-emerald-50 rounded-xl p-3">✅ History imported.</p>
+          )}
+
+          {incoming && (
+            <div className="space-y-4">
+              <p className="text-xs font-bold text-slate-400">
+                {incoming.profileName ? `${incoming.profileName}'s backup` : 'Backup'}
+                {incoming.exportedAt ? ` from ${new Date(incoming.exportedAt).toLocaleDateString()}` : ''} · {preview.length} days
+                {conflicts > 0 ? ` · ${conflicts} different from this device` : ''}
+              </p>
+
+              {warnings.length > 0 && (
+                <ul className="text-xs font-bold text-amber-600 bg-amber-50 rounded-xl p-3 space-y-1">
+                  {warnings.map((warning, idx) => <li key={idx}>{warning}</li>)}
+                </ul>
+              )}
+
+              <ul className="max-h-64 overflow-y-auto space-y-1.5 pr-1">
+                {preview.map(day => (
+                  <li key={day.dateKey} className="flex items-center gap-2 text-sm">
+                    <span className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest ${KIND_STYLES[day.kind].className}`}>
+                      {KIND_STYLES[day.kind].label}
+                    </span>
+                    <span className="font-bold text-slate-700">{day.dateKey}</span>
+                    <span className="text-slate-400 text-xs">
+                      {day.kind === 'conflict'
+                        ? `${day.existingCount} here, ${day.incomingCount} in backup (${day.addedCount} new, ${day.changedCount} changed)`
+                        : `${day.incomingCount} missions`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="grid grid-cols-2 gap-3">
+                {([
+                  { value: 'merge', label: 'Merge', hint: 'Keep what is here, add what is missing' },
+                  { value: 'replace', label: 'Replace', hint: 'Use the backup for these days' },
+                ] as { value: ImportMode; label: string; hint: string }[]).map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setMode(option.value)}
+                    className={`text-left p-3 rounded-xl border-2 transition-all ${mode === option.value ? 'border-indigo-400 bg-indigo-50' : 'border-slate-100 bg-slate-50 hover:bg-slate-100'}`}
+                  >
+                    <p className="font-black text-slate-700 text-sm">{option.label}</p>
+                    <p className="text-[11px] font-medium text-slate-400">{option.hint}</p>
+                  </button>
+                ))}
+              </div>
+
+              <button
+                onClick={handleImport}
+                disabled={preview.length === 0}
+                className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-black py-3 rounded-xl transition-all active:scale-95 shadow-lg shadow-indigo-100"
+              >
+                Import {preview.length} {preview.length === 1 ? 'Day' : 'Days'}
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="md:col-span-2">
+          <CalendarSync
+            history={history}
+            currentDateKey={currentDateKey}
+            subjects={subjects}
+            defaultMinutes={defaultMinutes}
+            onImportDays={onImportDays}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupManager;
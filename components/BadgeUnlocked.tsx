@@ -0,0 +1,29 @@
+import React from 'react';
+import { BadgeRule } from '../types';
+import { describeCriterion } from '../services/rewards';
+
+interface BadgeUnlockedProps {
+  badge: BadgeRule;
+  onClose: () => void;
+}
+
+const BadgeUnlocked: React.FC<BadgeUnlockedProps> = ({ badge, onClose }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-fade-in">
+    <div className="bg-white w-full max-w-sm rounded-[2rem] shadow-2xl border-2 border-amber-100 p-8 text-center space-y-4">
+      <p className="text-xs font-black text-amber-500 uppercase tracking-widest">New badge!</p>
+      <span className="text-7xl block animate-bounce">{badge.emoji}</span>
+      <div>
+        <h3 className="text-2xl font-black text-slate-800">{badge.name}</h3>
+        <p className="text-slate-400 font-medium">{describeCriterion(badge.criterion)}</p>
+      </div>
+      <button
+        onClick={onClose}
+        className="w-full bg-amber-400 hover:bg-amber-500 text-white font-black py-3 rounded-xl transition-all active:scale-95 shadow-lg shadow-amber-100"
+      >
+        Awesome!
+      </button>
+    </div>
+  </div>
+);
+
+export default BadgeUnlocked;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CalendarDays, Download, Upload } from 'lucide-react';
+import { Subject, Task } from '../types';
+import { buildIcs, eventsToTasks, parseIcs } from '../services/ical';
+import { downloadFile } from '../services/backup';
+import { getWeekdayOfKey, shiftDateKey } from '../services/dates';
+
+interface CalendarSyncProps {
+  history: Record<string, Task[]>;
+  currentDateKey: string;
+  subjects: Subject[];
+  defaultMinutes: number;
+  onImportDays: (days: Record<string, Task[]>) => void;
+}
+
+type ExportRange = 'day' | 'week';
+
+const CalendarSync: React.FC<CalendarSyncProps> = ({ history, currentDateKey, subjects, defaultMinutes, onImportDays }) => {
+  const [range, setRange] = useState<ExportRange>('day');
+  const [startTime, setStartTime] = useState('16:00');
+  const [incoming, setIncoming] = useState<Record<string, Task[]> | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [repeatingCount, setRepeatingCount] = useState(0);
+  const [imported, setImported] = useState(false);
+
+  // Monday-based week around the day being viewed
+  const weekStart = shiftDateKey(currentDateKey, -((getWeekdayOfKey(currentDateKey) + 6) % 7));
+  const rangeKeys = range === 'day' ? [currentDateKey] : Array.from({ length: 7 }, (_, i) => shiftDateKey(weekStart, i));
+  const exportDays: Record<string, Task[]> = Object.fromEntries(
+    rangeKeys.filter(key => (history[key] || []).length > 0).map(key => [key, history[key]])
+  );
+  const exportCount = Object.values(exportDays).reduce((sum, tasks) => sum + tasks.length, 0);
+
+  const handleExport = () => {
+    const name = range === 'day' ? currentDateKey : `week-of-${weekStart}`;
+    downloadFile(`kiddotime-${name}.ics`, buildIcs(exportDays, startTime), 'text/calendar;charset=utf-8');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setIncoming(null);
+    setImportError(null);
+    setRepeatingCount(0);
+    setImported(false);
+    if (!file) return;
+
+    const events = parseIcs(await file.text());
+    if (events.length === 0) {
+      setImportError('No events found in this calendar file.');
+      return;
+    }
+    setRepeatingCount(events.filter(e => e.repeats).length);
+    setIncoming(eventsToTasks(events, subjects.filter(s => !s.archived && !s.isBreak), defaultMinutes));
+  };
+
+  const handleImport = () => {
+    if (!incoming) return;
+    onImportDays(incoming);
+    setIncoming(null);
+    setImported(true);
+  };
+
+  const incomingDays = incoming ? Object.keys(incoming).sort() : [];
+  const incomingCount = incomingDays.reduce((sum, key) => sum + incoming![key].length, 0);
+
+  return (
+    <div className="bg-white rounded-[1.5rem] p-6 shadow-xl border border-sky-50 shadow-sky-100/50 space-y-5">
+      <h3 className="text-lg font-black text-slate-700 flex items-center gap-2"><CalendarDays className="w-5 h-5 text-indigo-500" /> Calendar App (.ics)</h3>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            {(['day', 'week'] as ExportRange[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setRange(option)}
+                className={`flex-1 py-2 rounded-xl text-sm font-bold transition-all ${range === option ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
+              >
+                {option === 'day' ? 'This Day' : 'This Week'}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Start at</label>
+            <input
+              type="time"
+              value={startTime}
+              onChange={(e) => e.target.value && setStartTime(e.target.value)}
+              className="bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 font-bold text-slate-600"
+            />
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={exportCount === 0}
+            className="w-full flex items-center justify-center gap-2 py-3 rounded-xl font-bold text-indigo-600 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50 transition-all"
+          >
+            <Download className="w-5 h-5" /> Export {exportCount} {exportCount === 1 ? 'Mission' : 'Missions'}
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <label className="flex items-center justify-center gap-2 p-4 rounded-xl border-2 border-dashed border-slate-200 bg-slate-50 hover:bg-slate-100 cursor-pointer transition-all">
+            <Upload className="w-5 h-5 text-slate-300" />
+            <span className="text-sm font-bold text-slate-500">Import a school calendar</span>
+            <input type="file" accept="text/calendar,.ics" className="hidden" onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }} />
+          </label>
+
+          {importError && (
+            <p className="flex items-center gap-2 text-sm font-bold text-rose-600 bg-rose-50 rounded-xl p-3">
+              <AlertTriangle className="w-4 h-4 shrink-0" /> {importError}
+            </p>
+          )}
+
+          {imported && (
+            <p className="text-sm font-bold text-emerald-600 bg-emerald-50 rounded-xl p-3">✅ Missions added to the calendar.</p>
+          )}
+
+          {incoming && (
+            <>
+              {repeatingCount > 0 && (
+                <p className="flex items-center gap-2 text-sm font-bold text-amber-700 bg-amber-50 rounded-xl p-3">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  {repeatingCount} repeating {repeatingCount === 1 ? 'event is' : 'events are'} only added on {repeatingCount === 1 ? 'its' : 'their'} first date.
+                </p>
+              )}
+              <ul className="max-h-48 overflow-y-auto space-y-1.5 pr-1">
+                {incomingDays.map(dateKey => (
+                  <li key={dateKey} className="text-sm">
+                    <span className="font-bold text-slate-700">{dateKey}</span>
+                    <span className="text-slate-400"> · {incoming[dateKey].map(t => t.title).join(', ')}</span>
+                  </li>
+                ))}
+              </ul>
+              <button
+                onClick={handleImport}
+                className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-black py-3 rounded-xl transition-all active:scale-95 shadow-lg shadow-indigo-100"
+              >
+                Add {incomingCount} {incomingCount === 1 ? 'Mission' : 'Missions'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarSync;
@@ -1,15 +1,21 @@
 import React, { useState } from 'react';
 import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, X } from 'lucide-react';
-import { Task } from '../types';
+import { Subject, Task } from '../types';
+import { getTodayKey, toDateKey } from '../services/dates';
+import { getSubjectColor } from '../services/subjects';
+import { getCommittedMinutes } from '../services/availability';
 
 interface CalendarViewProps {
   history: Record<string, Task[]>;
   onSelectDate: (date: Date) => void;
   selectedDate: Date;
+  subjects: Subject[];
+  availableMinutesFor: (dateKey: string) => number;
   onClose: () => void;
+  pastLocked?: boolean; // Past days open view-only outside parent mode
 }
 
-const CalendarView: React.FC<CalendarViewProps> = ({ history, onSelectDate, selectedDate, onClose }) => {
+const CalendarView: React.FC<CalendarViewProps> = ({ history, onSelectDate, selectedDate, subjects, availableMinutesFor, onClose, pastLocked }) => {
   const [currentMonth, setCurrentMonth] = useState(new Date(selectedDate));
 
   const getDaysInMonth = (date: Date) => {
@@ -24,10 +30,6 @@ const CalendarView: React.FC<CalendarViewProps> = ({ history, onSelectDate, sele
     return new Date(year, month, 1).getDay();
   };
 
-  const formatDateKey = (date: Date) => {
-    return date.toISOString().split('T')[0];
-  };
-
   const handlePrevMonth = () => {
     setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() - 1, 1));
   };
@@ -50,21 +52,35 @@ const CalendarView: React.FC<CalendarViewProps> = ({ history, onSelectDate, sele
       days.push(<div key={`empty-${i}`} className="h-14"></div>);
     }
 
-    const todayStr = formatDateKey(new Date());
-    const selectedStr = formatDateKey(selectedDate);
+    const todayStr = getTodayKey();
+    const selectedStr = toDateKey(selectedDate);
 
     for (let i = 1; i <= daysInMonth; i++) {
       const dateToCheck = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), i);
-      const dateKey = formatDateKey(dateToCheck);
+      const dateKey = toDateKey(dateToCheck);
       const hasData = history[dateKey] && history[dateKey].length > 0;
       const isSelected = dateKey === selectedStr;
       const isToday = dateKey === todayStr;
 
       let dotColor = "bg-slate-300";
+      let carriedIn = 0;
+      let daySubjects: string[] = [];
+      let overBy = 0;
+      let committed = 0;
+      let awaiting = 0;
       if (hasData) {
         const tasks = history[dateKey];
         const completed = tasks.filter(t => t.status === 'COMPLETED').length;
-        if (completed === tasks.length) dotColor = "bg-emerald-400";
+        const skipped = tasks.filter(t => t.status === 'SKIPPED').length;
+        carriedIn = tasks.filter(t => t.originalDate).length;
+        awaiting = tasks.filter(t => t.status === 'REVIEW').length;
+        daySubjects = Array.from(new Set<string>(tasks.filter(t => !t.isBreak).map(t => t.subject))).slice(0, 4);
+        // Only days still ahead can be rearranged, so past days get no warning
+        if (dateKey >= todayStr) {
+          committed = getCommittedMinutes(tasks);
+          overBy = committed - availableMinutesFor(dateKey);
+        }
+        if (completed > 0 && completed + skipped === tasks.length) dotColor = "bg-emerald-400";
         else if (completed > 0) dotColor = "bg-amber-400";
         else dotColor = "bg-indigo-400";
       }
@@ -85,6 +101,37 @@ const CalendarView: React.FC<CalendarViewProps> = ({ history, onSelectDate, sele
           {hasData && (
              <span className={`absolute bottom-2.5 w-2 h-2 rounded-full ${dotColor} ${isSelected ? 'ring-2 ring-white' : ''}`}></span>
           )}
+          {daySubjects.length > 0 && (
+             <span className="absolute top-1.5 left-1.5 flex gap-0.5" title={daySubjects.join(', ')}>
+               {daySubjects.map(subject => (
+                 <span key={subject} className={`w-1.5 h-1.5 rounded-full ${getSubjectColor(subjects, subject).dot} ${isSelected ? 'ring-1 ring-white' : ''}`}></span>
+               ))}
+             </span>
+          )}
+          {carriedIn > 0 && (
+             <span
+               className={`absolute top-1 right-1.5 text-[9px] font-black ${isSelected ? 'text-indigo-200' : 'text-amber-500'}`}
+               title={`${carriedIn} carried over from an earlier day`}
+             >
+               ↪{carriedIn}
+             </span>
+          )}
+          {awaiting > 0 && (
+             <span
+               className="absolute bottom-1 left-1.5 text-[10px] font-black"
+               title={`${awaiting} waiting for a parent to sign off`}
+             >
+               ⏳
+             </span>
+          )}
+          {overBy > 0 && (
+             <span
+               className={`absolute bottom-1 right-1.5 text-[10px] font-black ${isSelected ? 'text-amber-200' : 'text-amber-500'}`}
+               title={`${committed} min planned, ${committed - overBy} available`}
+             >
+               ⚠
+             </span>
+          )}
         </button>
       );
     }
@@ -130,10 +177,13 @@ const CalendarView: React.FC<CalendarViewProps> = ({ history, onSelectDate, sele
           </div>
         </div>
 
-        <div className="bg-slate-50 p-6 flex justify-center gap-6 text-[10px] font-black text-slate-400 uppercase tracking-widest border-t border-slate-100">
+        <div className="bg-slate-50 p-6 flex flex-wrap justify-center gap-x-6 gap-y-2 text-[10px] font-black text-slate-400 uppercase tracking-widest border-t border-slate-100">
           <div className="flex items-center gap-2"><span className="w-2.5 h-2.5 rounded-full bg-indigo-400"></span> Planned</div>
           <div className="flex items-center gap-2"><span className="w-2.5 h-2.5 rounded-full bg-amber-400"></span> Working</div>
           <div className="flex items-center gap-2"><span className="w-2.5 h-2.5 rounded-full bg-emerald-400"></span> Finished</div>
+          <div className="flex items-center gap-2"><span className="text-amber-500 text-xs">⚠</span> Too full</div>
+          <div className="flex items-center gap-2"><span className="text-xs">⏳</span> Needs sign-off</div>
+          {pastLocked && <div className="flex items-center gap-2"><span className="text-xs">🔒</span> Past days view only</div>}
         </div>
       </div>
     </div>
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { Task } from '../types';
+
+interface CarryOverPromptProps {
+  tasks: Task[];
+  onAccept: (taskIds: string[]) => void;
+  onDismiss: () => void;
+}
+
+const CarryOverPrompt: React.FC<CarryOverPromptProps> = ({ tasks, onAccept, onDismiss }) => {
+  const [selected, setSelected] = useState<string[]>(tasks.map(t => t.id));
+
+  const toggle = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-fade-in">
+      <div className="bg-white w-full max-w-md rounded-[2rem] shadow-2xl border-2 border-indigo-50 p-6 space-y-5">
+        <div className="text-center space-y-1">
+          <span className="text-5xl block">🌅</span>
+          <h3 className="text-xl font-black text-slate-700">Good morning!</h3>
+          <p className="text-slate-400 text-sm font-medium">These missions were left over from yesterday. Bring them to today?</p>
+        </div>
+
+        <div className="space-y-2">
+          {tasks.map(task => (
+            <label
+              key={task.id}
+              className={`flex items-center gap-3 p-3 rounded-xl border-2 cursor-pointer transition-all ${selected.includes(task.id) ? 'border-indigo-200 bg-indigo-50' : 'border-slate-50 bg-slate-50'}`}
+            >
+              <input type="checkbox" checked={selected.includes(task.id)} onChange={() => toggle(task.id)} className="accent-indigo-500" />
+              <span className="text-2xl">{task.emoji}</span>
+              <span className="flex-1 min-w-0 font-bold text-slate-700 truncate">{task.title}</span>
+              <span className="text-xs font-bold text-slate-400">{task.estimatedMinutes}m</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-3">
+          <button onClick={onDismiss} className="flex-1 py-3 rounded-xl font-bold text-slate-500 hover:bg-slate-50 transition-all">
+            Leave Them
+          </button>
+          <button
+            onClick={() => onAccept(selected)}
+            disabled={selected.length === 0}
+            className="flex-1 flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-black py-3 rounded-xl transition-all active:scale-95 shadow-lg shadow-indigo-100"
+          >
+            Bring {selected.length} <ArrowRight className="w-4 h-4 stroke-[3]" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CarryOverPrompt;
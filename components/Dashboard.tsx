@@ -0,0 +1,290 @@
+import React, { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { Subject, Task } from '../types';
+import { aggregateHistory, HistoryStats, PeriodBucket } from '../services/stats';
+import { fromDateKey, shiftDateKey } from '../services/dates';
+import { findSubject, SUBJECT_COLORS } from '../services/subjects';
+
+interface DashboardProps {
+  history: Record<string, Task[]>;
+  subjects: Subject[];
+  todayKey: string;
+  onClose: () => void;
+}
+
+type Granularity = 'week' | 'month';
+
+const RANGE_PRESETS = [
+  { label: '4 Weeks', days: 27 },
+  { label: '3 Months', days: 90 },
+  { label: '6 Months', days: 182 },
+  { label: '1 Year', days: 364 },
+];
+
+// For subjects in history that are no longer in the registry
+const FALLBACK_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#0ea5e9', '#ec4899', '#84cc16'];
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatWeekLabel = (dateKey: string) => {
+  const [, m, d] = dateKey.split('-').map(Number);
+  return `${m}/${d}`;
+};
+
+const formatMonthLabel = (dateKey: string) =>
+  fromDateKey(dateKey).toLocaleDateString(undefined, { month: 'short', year: '2-digit' });
+
+interface PeriodChartProps {
+  stats: HistoryStats;
+  granularity: Granularity;
+  colorFor: (subject: string) => string;
+}
+
+// Stacked bars of minutes per subject for each week or month
+const PeriodChart: React.FC<PeriodChartProps> = ({ stats, granularity, colorFor }) => {
+  const periods: PeriodBucket[] = granularity === 'week' ? stats.weeks : stats.months;
+  const formatLabel = granularity === 'week' ? formatWeekLabel : formatMonthLabel;
+  const width = 640;
+  const height = 220;
+  const padding = { top: 10, right: 10, bottom: 28, left: 36 };
+  const chartW = width - padding.left - padding.right;
+  const chartH = height - padding.top - padding.bottom;
+  const maxMinutes = Math.max(30, ...periods.map(p => p.totalMinutes));
+  const barSlot = chartW / Math.max(1, periods.length);
+  const barWidth = Math.max(2, Math.min(36, barSlot * 0.7));
+  // Keep the axis readable when a whole year is on screen
+  const labelEvery = Math.ceil(periods.length / 12);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      {[0, 0.5, 1].map(f => (
+        <g key={f}>
+          <line x1={padding.left} x2={width - padding.right} y1={padding.top + chartH * (1 - f)} y2={padding.top + chartH * (1 - f)} stroke="#f1f5f9" />
+          <text x={padding.left - 6} y={padding.top + chartH * (1 - f) + 4} textAnchor="end" fontSize="10" fill="#94a3b8">{Math.round(maxMinutes * f)}</text>
+        </g>
+      ))}
+      {periods.map((period, i) => {
+        const x = padding.left + i * barSlot + (barSlot - barWidth) / 2;
+        let y = padding.top + chartH;
+        return (
+          <g key={period.start}>
+            {stats.subjects.map(subject => {
+              const minutes = period.minutesBySubject[subject] || 0;
+              if (minutes === 0) return null;
+              const h = (minutes / maxMinutes) * chartH;
+              y -= h;
+              return (
+                <rect key={subject} x={x} y={y} width={barWidth} height={h} rx={2} fill={colorFor(subject)}>
+                  <title>{`${subject}: ${Math.round(minutes)} min (${granularity} of ${period.start})`}</title>
+                </rect>
+              );
+            })}
+            {i % labelEvery === 0 && (
+              <text x={x + barWidth / 2} y={height - 10} textAnchor="middle" fontSize="10" fill="#94a3b8">{formatLabel(period.start)}</text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+// Horizontal estimated vs. actual bars per subject
+const AccuracyChart: React.FC<{ stats: HistoryStats; colorFor: (subject: string) => string }> = ({ stats, colorFor }) => {
+  const rowH = 34;
+  const width = 320;
+  const labelW = 80;
+  const height = Math.max(rowH, stats.subjectAccuracy.length * rowH);
+  const maxMinutes = Math.max(1, ...stats.subjectAccuracy.map(s => Math.max(s.estimatedMinutes, s.actualMinutes)));
+  const scale = (width - labelW - 10) / maxMinutes;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      {stats.subjectAccuracy.map((s, i) => {
+        const y = i * rowH;
+        return (
+          <g key={s.subject}>
+            <text x={0} y={y + 18} fontSize="11" fontWeight="700" fill="#475569">{s.subject}</text>
+            <rect x={labelW} y={y + 6} width={s.estimatedMinutes * scale} height={8} rx={4} fill="#e2e8f0">
+              <title>{`Planned ${Math.round(s.estimatedMinutes)} min`}</title>
+            </rect>
+            <rect x={labelW} y={y + 17} width={s.actualMinutes * scale} height={8} rx={4} fill={colorFor(s.subject)}>
+              <title>{`Actual ${Math.round(s.actualMinutes)} min`}</title>
+            </rect>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+// Completion rate bars with the average overtime written above each weekday
+const WeekdayChart: React.FC<{ stats: HistoryStats }> = ({ stats }) => {
+  const width = 320;
+  const height = 160;
+  const chartH = 110;
+  const slot = width / 7;
+  const hardest = stats.weekdays.reduce((worst, d) => d.averageOvertimeMinutes > worst.averageOvertimeMinutes ? d : worst, stats.weekdays[0]);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      {stats.weekdays.map((d, i) => {
+        const h = d.completionRate * chartH;
+        const x = i * slot + slot * 0.2;
+        const isHardest = d === hardest && d.averageOvertimeMinutes > 0;
+        return (
+          <g key={d.weekday}>
+            <rect x={x} y={20} width={slot * 0.6} height={chartH} rx={6} fill="#f1f5f9" />
+            <rect x={x} y={20 + chartH - h} width={slot * 0.6} height={h} rx={6} fill={isHardest ? '#f43f5e' : '#6366f1'}>
+              <title>{`${d.weekday}: ${formatPercent(d.completionRate)} done, +${d.averageOvertimeMinutes.toFixed(1)} min avg overtime`}</title>
+            </rect>
+            <text x={x + slot * 0.3} y={12} textAnchor="middle" fontSize="9" fill={isHardest ? '#f43f5e' : '#94a3b8'}>
+              {d.taskCount > 0 ? `+${Math.round(d.averageOvertimeMinutes)}m` : '–'}
+            </text>
+            <text x={x + slot * 0.3} y={height - 12} textAnchor="middle" fontSize="11" fontWeight="700" fill="#64748b">{d.weekday}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const Dashboard: React.FC<DashboardProps> = ({ history, subjects, todayKey, onClose }) => {
+  const [fromKey, setFromKey] = useState(shiftDateKey(todayKey, -RANGE_PRESETS[0].days));
+  const [toKey, setToKey] = useState(todayKey);
+  const [granularity, setGranularity] = useState<Granularity>('week');
+
+  const stats = useMemo(() => aggregateHistory(history, fromKey, toKey), [history, fromKey, toKey]);
+
+  // Subjects keep the colour they have everywhere else in the app
+  const colorFor = (subject: string) => {
+    const registered = findSubject(subjects, subject);
+    if (registered) return SUBJECT_COLORS[registered.color].hex;
+    return FALLBACK_COLORS[Math.max(0, stats.subjects.indexOf(subject)) % FALLBACK_COLORS.length];
+  };
+
+  const applyPreset = (days: number) => {
+    setFromKey(shiftDateKey(todayKey, -days));
+    setToKey(todayKey);
+  };
+
+  const hardestDay = [...stats.weekdays].sort((a, b) => b.averageOvertimeMinutes - a.averageOvertimeMinutes)[0];
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 animate-fade-in pb-10">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800">Parent Dashboard 📊</h2>
+          <p className="text-slate-400 text-sm font-medium">How homework time is really spent</p>
+        </div>
+        <button onClick={onClose} className="p-3 bg-white hover:bg-slate-50 rounded-xl text-slate-300 transition-all border border-slate-100 shadow-sm">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="bg-white rounded-2xl border-2 border-slate-50 p-4 mb-6 flex flex-wrap items-center gap-3">
+        {RANGE_PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => applyPreset(preset.days)}
+            className={`px-4 py-2 rounded-xl text-sm font-bold transition-all ${
+              fromKey === shiftDateKey(todayKey, -preset.days) && toKey === todayKey
+                ? 'bg-indigo-600 text-white'
+                : 'bg-slate-50 text-slate-500 hover:bg-slate-100'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+        <div className="flex items-center gap-2 ml-auto text-sm font-bold text-slate-500">
+          <input type="date" value={fromKey} max={toKey} onChange={(e) => e.target.value && setFromKey(e.target.value)} className="bg-slate-50 rounded-lg px-2 py-1.5 border border-slate-100" />
+          <span>→</span>
+          <input type="date" value={toKey} min={fromKey} onChange={(e) => e.target.value && setToKey(e.target.value)} className="bg-slate-50 rounded-lg px-2 py-1.5 border border-slate-100" />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
+        {[
+          { label: 'Completion', value: formatPercent(stats.completionRate), hint: stats.awaitingSignOffCount > 0 ? `${stats.completedCount}/${stats.taskCount} missions, ${stats.awaitingSignOffCount} awaiting sign-off` : `${stats.completedCount}/${stats.taskCount} missions` },
+          { label: 'On Target', value: formatPercent(stats.onTargetRate), hint: 'within 20% of plan' },
+          { label: 'Avg Overtime', value: `${stats.averageOvertimeMinutes.toFixed(1)}m`, hint: `actual ÷ plan ${stats.averageRatio.toFixed(2)}×` },
+          { label: 'Pushed Back', value: `${stats.carriedOverCount}`, hint: `${stats.skippedCount} skipped` },
+          { label: 'Hardest Day', value: hardestDay && hardestDay.averageOvertimeMinutes > 0 ? hardestDay.weekday : '–', hint: `${stats.activeDays} active days` },
+          { label: 'Paused', value: `${Math.round(stats.pauses.seconds / 60)}m`, hint: `${stats.pauses.count} stops in ${stats.interruptedCount} missions` },
+        ].map(card => (
+          <div key={card.label} className="bg-white rounded-2xl p-5 border-2 border-slate-50 shadow-sm">
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">{card.label}</p>
+            <p className="text-2xl font-black text-slate-800">{card.value}</p>
+            <p className="text-xs font-bold text-slate-400">{card.hint}</p>
+          </div>
+        ))}
+      </div>
+
+      {stats.activeDays === 0 ? (
+        <div className="p-12 text-center text-slate-400 text-base font-medium italic bg-slate-50 rounded-2xl border-2 border-dashed border-slate-100">
+          No homework recorded in this range yet.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="bg-white rounded-[2rem] border-2 border-slate-50 shadow-sm p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-black text-slate-700">Minutes per Subject per {granularity === 'week' ? 'Week' : 'Month'}</h3>
+              <div className="flex bg-slate-100 p-1 rounded-xl">
+                {(['week', 'month'] as Granularity[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setGranularity(option)}
+                    className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${granularity === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                  >
+                    {option === 'week' ? 'Weekly' : 'Monthly'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <PeriodChart stats={stats} granularity={granularity} colorFor={colorFor} />
+            <div className="flex flex-wrap gap-4 mt-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              {stats.subjects.map(subject => (
+                <div key={subject} className="flex items-center gap-2">
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: colorFor(subject) }}></span> {subject}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-6">
+            <div className="bg-white rounded-[2rem] border-2 border-slate-50 shadow-sm p-6">
+              <h3 className="text-lg font-black text-slate-700 mb-1">Planned vs. Actual</h3>
+              <p className="text-xs font-bold text-slate-400 mb-4">Grey is the estimate, colour is the real time</p>
+              <AccuracyChart stats={stats} colorFor={colorFor} />
+            </div>
+            <div className="bg-white rounded-[2rem] border-2 border-slate-50 shadow-sm p-6">
+              <h3 className="text-lg font-black text-slate-700 mb-1">Weekdays</h3>
+              <p className="text-xs font-bold text-slate-400 mb-4">Bars show completion, numbers show average overtime</p>
+              <WeekdayChart stats={stats} />
+            </div>
+          </div>
+
+          {stats.pauses.count > 0 && (
+            <div className="bg-white rounded-[2rem] border-2 border-slate-50 shadow-sm p-6">
+              <h3 className="text-lg font-black text-slate-700 mb-1">Why the Timer Stopped</h3>
+              <p className="text-xs font-bold text-slate-400 mb-4">Paused time isn't counted in the actual minutes above</p>
+              <ul className="space-y-2">
+                {stats.pauses.reasons.map(entry => (
+                  <li key={entry.reason} className="flex items-center gap-3 text-sm">
+                    <span className="w-36 shrink-0 font-bold text-slate-600 truncate">{entry.reason}</span>
+                    <div className="flex-1 h-3 bg-slate-50 rounded-full overflow-hidden">
+                      <div className="h-full bg-amber-400 rounded-full" style={{ width: `${stats.pauses.seconds > 0 ? (entry.seconds / stats.pauses.seconds) * 100 : 0}%` }}></div>
+                    </div>
+                    <span className="w-28 shrink-0 text-right text-xs font-bold text-slate-400">{entry.count}× · {Math.round(entry.seconds / 60)}m</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Dashboard;
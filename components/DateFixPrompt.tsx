@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { DateKeyFix } from '../services/dateMigration';
+import { fromDateKey } from '../services/dates';
+
+interface DateFixPromptProps {
+  fixes: DateKeyFix[];
+  onApply: (fixes: DateKeyFix[]) => void;
+  onDismiss: () => void;
+}
+
+const formatDay = (dateKey: string) =>
+  fromDateKey(dateKey).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const DateFixPrompt: React.FC<DateFixPromptProps> = ({ fixes, onApply, onDismiss }) => {
+  const [selected, setSelected] = useState<string[]>(fixes.map(f => f.fromKey));
+
+  const toggle = (key: string) => {
+    setSelected(prev => prev.includes(key) ? prev.filter(x => x !== key) : [...prev, key]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-fade-in">
+      <div className="bg-white w-full max-w-md max-h-[90vh] overflow-y-auto rounded-[2rem] shadow-2xl border-2 border-indigo-50 p-6 space-y-5">
+        <div className="text-center space-y-1">
+          <span className="text-5xl block">🗓️</span>
+          <h3 className="text-xl font-black text-slate-700">Some days look mixed up</h3>
+          <p className="text-slate-400 text-sm font-medium">These missions were saved on the wrong day. Move them to the day they were really done?</p>
+        </div>
+
+        <div className="space-y-2">
+          {fixes.map(fix => (
+            <label
+              key={fix.fromKey}
+              className={`flex items-center gap-3 p-3 rounded-xl border-2 cursor-pointer transition-all ${selected.includes(fix.fromKey) ? 'border-indigo-200 bg-indigo-50' : 'border-slate-50 bg-slate-50'}`}
+            >
+              <input type="checkbox" checked={selected.includes(fix.fromKey)} onChange={() => toggle(fix.fromKey)} className="accent-indigo-500" />
+              <span className="flex-1 flex items-center gap-2 font-bold text-slate-700">
+                {formatDay(fix.fromKey)} <ArrowRight className="w-4 h-4 text-slate-300" /> {formatDay(fix.toKey)}
+              </span>
+              <span className="text-xs font-bold text-slate-400">{fix.tasks.length} missions</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-3">
+          <button onClick={onDismiss} className="flex-1 py-3 rounded-xl font-bold text-slate-500 hover:bg-slate-50 transition-all">
+            Leave As Is
+          </button>
+          <button
+            onClick={() => onApply(fixes.filter(f => selected.includes(f.fromKey)))}
+            disabled={selected.length === 0}
+            className="flex-1 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-black py-3 rounded-xl transition-all active:scale-95 shadow-lg shadow-indigo-100"
+          >
+            Fix {selected.length} {selected.length === 1 ? 'Day' : 'Days'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DateFixPrompt;
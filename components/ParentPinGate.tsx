@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { Lock } from 'lucide-react';
+import PinPrompt from './PinPrompt';
+import { loadParentPinHash, verifyPin } from '../services/profiles';
+
+interface ParentPinGateProps {
+  onUnlock: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks for the parent PIN. Nothing unlocks while none is set; picking the
+ * first one happens only from the profile menu, where ParentPinSetup warns
+ * that whoever chooses it owns parent mode.
+ */
+const ParentPinGate: React.FC<ParentPinGateProps> = ({ onUnlock, onCancel }) => {
+  const [pinHash, setPinHash] = useState<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    loadParentPinHash().then(setPinHash);
+  }, []);
+
+  if (pinHash === undefined) return null;
+
+  if (!pinHash) {
+    return (
+      <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-fade-in">
+        <div className="bg-white w-full max-w-sm rounded-[2rem] shadow-2xl border-2 border-indigo-50 p-8 text-center space-y-4">
+          <div className="w-14 h-14 mx-auto rounded-2xl bg-indigo-50 text-indigo-600 flex items-center justify-center">
+            <Lock className="w-6 h-6" />
+          </div>
+          <h3 className="text-xl font-black text-slate-700">No Parent PIN Yet</h3>
+          <p className="text-slate-400 text-sm font-medium">A grown-up should set one from the profile menu under "Parent PIN". The first PIN picked there becomes the parent PIN.</p>
+          <button
+            onClick={onCancel}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-black py-3 rounded-xl transition-all active:scale-95 shadow-lg shadow-indigo-100"
+          >
+            OK
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <PinPrompt
+      title="Parent PIN"
+      subtitle="A grown-up needs to check this"
+      onSubmit={async (pin) => {
+        const ok = await verifyPin(pin, pinHash);
+        if (ok) onUnlock();
+        return ok;
+      }}
+      onCancel={onCancel}
+    />
+  );
+};
+
+export default ParentPinGate;
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import PinPrompt from './PinPrompt';
+import { hashPin, loadParentPinHash, saveParentPinHash, verifyPin } from '../services/profiles';
+
+interface ParentPinSetupProps {
+  onDone: () => void;
+  onCancel: () => void;
+}
+
+type SetupStep = 'intro' | 'current' | 'choose' | 'confirm';
+
+/**
+ * Sets or changes the parent PIN. Changing it needs the current one, so a
+ * child who finds this can't take over parent mode. The very first PIN is
+ * trusted on first use, so that step says plainly it is meant for a grown-up.
+ */
+const ParentPinSetup: React.FC<ParentPinSetupProps> = ({ onDone, onCancel }) => {
+  const [pinHash, setPinHash] = useState<string | null | undefined>(undefined);
+  const [step, setStep] = useState<SetupStep>('choose');
+  const [firstPin, setFirstPin] = useState('');
+
+  useEffect(() => {
+    loadParentPinHash().then(saved => {
+      setPinHash(saved);
+      setStep(saved ? 'current' : 'intro');
+    });
+  }, []);
+
+  if (pinHash === undefined) return null;
+
+  if (step === 'intro') {
+    return (
+      <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-fade-in">
+        <div className="bg-white w-full max-w-sm rounded-[2rem] shadow-2xl border-2 border-amber-50 p-8 text-center space-y-4">
+          <div className="w-14 h-14 mx-auto rounded-2xl bg-amber-50 text-amber-600 flex items-center justify-center">
+            <ShieldAlert className="w-6 h-6" />
+          </div>
+          <h3 className="text-xl font-black text-slate-700">Grown-ups Only</h3>
+          <p className="text-slate-400 text-sm font-medium">
+            The first PIN picked on this device becomes the parent PIN. It unlocks parent mode, rewards and the rules,
+            and only someone who knows it can change it later, so pick it yourself.
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={onCancel}
+              className="flex-1 py-3 rounded-xl font-bold text-slate-500 bg-slate-50 hover:bg-slate-100 transition-colors"
+            >
+              Not Now
+            </button>
+            <button
+              onClick={() => setStep('choose')}
+              className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white font-black py-3 rounded-xl transition-all active:scale-95 shadow-lg shadow-indigo-100"
+            >
+              I'm the Parent
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === 'current') {
+    return (
+      <PinPrompt
+        key="current"
+        title="Current Parent PIN"
+        subtitle="Type the old PIN before picking a new one"
+        onSubmit={async (pin) => {
+          const ok = !!pinHash && await verifyPin(pin, pinHash);
+          if (ok) setStep('choose');
+          return ok;
+        }}
+        onCancel={onCancel}
+      />
+    );
+  }
+
+  if (step === 'choose') {
+    return (
+      <PinPrompt
+        key="choose"
+        title={pinHash ? 'New Parent PIN' : 'Choose a Parent PIN'}
+        subtitle="Used for parent mode, rewards and the rules"
+        onSubmit={async (pin) => {
+          setFirstPin(pin);
+          setStep('confirm');
+          return true;
+        }}
+        onCancel={onCancel}
+      />
+    );
+  }
+
+  return (
+    <PinPrompt
+      key="confirm"
+      title="Type it Again"
+      subtitle="Just to be sure"
+      onSubmit={async (pin) => {
+        if (pin !== firstPin) return false;
+        if (!(await saveParentPinHash(await hashPin(pin)))) return false;
+        onDone();
+        return true;
+      }}
+      onCancel={() => setStep('choose')}
+    />
+  );
+};
+
+export default ParentPinSetup;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Lock, Delete, X } from 'lucide-react';
+
+interface PinPromptProps {
+  title: string;
+  subtitle?: string;
+  onSubmit: (pin: string) => Promise<boolean>; // Resolves false when the PIN is wrong
+  onCancel?: () => void;
+}
+
+const PIN_LENGTH = 4;
+
+const PinPrompt: React.FC<PinPromptProps> = ({ title, subtitle, onSubmit, onCancel }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleDigit = async (digit: string) => {
+    if (isChecking || pin.length >= PIN_LENGTH) return;
+    const nextPin = pin + digit;
+    setPin(nextPin);
+    setError(null);
+
+    if (nextPin.length === PIN_LENGTH) {
+      setIsChecking(true);
+      try {
+        if (!(await onSubmit(nextPin))) {
+          setError('Wrong PIN, try again');
+          setPin('');
+        }
+      } catch {
+        setError("Couldn't check the PIN, try again");
+        setPin('');
+      } finally {
+        setIsChecking(false);
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-fade-in">
+      <div className="bg-white w-full max-w-sm rounded-[2rem] shadow-2xl border-2 border-indigo-50 p-8 relative">
+        {onCancel && (
+          <button onClick={onCancel} className="absolute top-5 right-5 p-2 hover:bg-slate-100 rounded-full text-slate-400">
+            <X className="w-5 h-5" />
+          </button>
+        )}
+        <div className="text-center space-y-2 mb-6">
+          <div className="w-14 h-14 mx-auto rounded-2xl bg-indigo-50 text-indigo-600 flex items-center justify-center">
+            <Lock className="w-6 h-6" />
+          </div>
+          <h3 className="text-xl font-black text-slate-700">{title}</h3>
+          {subtitle && <p className="text-slate-400 text-sm font-medium">{subtitle}</p>}
+        </div>
+
+        <div className={`flex justify-center gap-3 mb-6 ${error ? 'animate-bounce' : ''}`}>
+          {Array.from({ length: PIN_LENGTH }).map((_, i) => (
+            <span
+              key={i}
+              className={`w-4 h-4 rounded-full transition-all ${error ? 'bg-red-400' : i < pin.length ? 'bg-indigo-600' : 'bg-slate-200'}`}
+            ></span>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          {['1', '2', '3', '4', '5', '6', '7', '8', '9'].map(d => (
+            <button
+              key={d}
+              onClick={() => handleDigit(d)}
+              className="h-14 rounded-xl bg-slate-50 hover:bg-indigo-50 text-xl font-black text-slate-700 transition-all active:scale-95"
+            >
+              {d}
+            </button>
+          ))}
+          <div></div>
+          <button
+            onClick={() => handleDigit('0')}
+            className="h-14 rounded-xl bg-slate-50 hover:bg-indigo-50 text-xl font-black text-slate-700 transition-all active:scale-95"
+          >
+            0
+          </button>
+          <button
+            onClick={() => { setPin(pin.slice(0, -1)); setError(null); }}
+            className="h-14 rounded-xl flex items-center justify-center text-slate-400 hover:bg-slate-50 transition-all"
+          >
+            <Delete className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && <p className="text-center text-red-500 text-xs font-black uppercase tracking-widest mt-4">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default PinPrompt;
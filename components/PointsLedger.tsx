@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { LedgerEntry, LedgerKind, PointsBalance } from '../services/rewards';
+import { fromDateKey } from '../services/dates';
+
+interface PointsLedgerProps {
+  ledger: LedgerEntry[];
+  balance: PointsBalance;
+}
+
+const KIND_LABELS: Record<LedgerKind, string> = {
+  'mission': 'Mission',
+  'on-time': 'On time',
+  'break': 'Break',
+  'streak': 'Streak',
+  'redeemed': 'Spent',
+};
+
+const PAGE_SIZE = 50;
+
+const PointsLedger: React.FC<PointsLedgerProps> = ({ ledger, balance }) => {
+  const [showAll, setShowAll] = useState(false);
+
+  const entries = [...ledger].reverse();
+  const visible = showAll ? entries : entries.slice(0, PAGE_SIZE);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Earned', value: balance.earned },
+          { label: 'Spent', value: balance.spent },
+          { label: 'Waiting', value: balance.held },
+          { label: 'Left', value: balance.available },
+        ].map(card => (
+          <div key={card.label} className="bg-white rounded-2xl p-5 border-2 border-slate-50 shadow-sm">
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">{card.label}</p>
+            <p className="text-3xl font-black text-slate-800 mt-1">{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-[1.5rem] p-6 shadow-xl border border-sky-50 shadow-sky-100/50">
+        <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Points Ledger</h3>
+        <p className="text-xs font-medium text-slate-400 mb-4">Each line names the mission it came from, so it can be checked against the calendar.</p>
+
+        {entries.length === 0 ? (
+          <p className="text-sm font-medium text-slate-400 text-center py-6">No points yet. Finish a mission to get started!</p>
+        ) : (
+          <ul className="divide-y divide-slate-50">
+            {visible.map(entry => (
+              <li key={entry.id} className="flex items-center gap-3 py-2 text-sm">
+                <span className="w-16 shrink-0 font-bold text-slate-400">
+                  {fromDateKey(entry.dateKey).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                </span>
+                <span className="w-16 shrink-0 text-[9px] font-black uppercase tracking-widest text-slate-400">{KIND_LABELS[entry.kind]}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-bold text-slate-700 truncate">{entry.title}</p>
+                  {entry.taskId && <p className="text-[10px] font-mono text-slate-300 truncate">{entry.taskId}</p>}
+                </div>
+                <span className={`font-black ${entry.points < 0 ? 'text-rose-500' : 'text-amber-500'}`}>
+                  {entry.points > 0 ? '+' : ''}{entry.points}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {!showAll && entries.length > PAGE_SIZE && (
+          <button onClick={() => setShowAll(true)} className="w-full mt-4 py-2 rounded-xl text-sm font-bold text-slate-500 hover:bg-slate-50 transition-all">
+            Show all {entries.length} lines
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PointsLedger;
@@ -0,0 +1,355 @@
+import React, { useState } from 'react';
+import { ChevronDown, KeyRound, Lock, Plus, Settings, Trash2, X } from 'lucide-react';
+import { ChimeMoment, PomodoroSettings, ProfileSettings, UserProfile } from '../types';
+import { PROFILE_AVATARS, createProfile, hashPin } from '../services/profiles';
+import { canNotify, CHIME_LABELS, playChime, requestNotifications } from '../services/chimes';
+import ParentPinSetup from './ParentPinSetup';
+
+interface ProfileSwitcherProps {
+  profiles: UserProfile[];
+  activeProfileId: string;
+  settings: ProfileSettings;
+  onSwitch: (profileId: string) => void;
+  onSaveProfile: (profile: UserProfile) => void;
+  onSaveSettings: (settings: ProfileSettings) => void;
+  onDeleteProfile: (profileId: string) => void;
+  parentMode: boolean; // Rules for the child can only be changed in parent mode
+  withParentMode: (action: () => void) => void;
+}
+
+type EditorMode = { kind: 'create' } | { kind: 'edit'; profile: UserProfile };
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({
+  profiles, activeProfileId, settings, onSwitch, onSaveProfile, onSaveSettings, onDeleteProfile, parentMode, withParentMode
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editor, setEditor] = useState<EditorMode | null>(null);
+  const [isSettingParentPin, setIsSettingParentPin] = useState(false);
+
+  // Editor form state
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState(PROFILE_AVATARS[0]);
+  const [pin, setPin] = useState('');
+  const [removePin, setRemovePin] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [defaultMinutes, setDefaultMinutes] = useState(settings.defaultTaskMinutes);
+  const [motivationNudges, setMotivationNudges] = useState(settings.motivationNudges);
+  const [pomodoro, setPomodoro] = useState(settings.pomodoro);
+  const [sound, setSound] = useState(settings.sound);
+  const [requireSignOff, setRequireSignOff] = useState(settings.requireSignOff);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+
+  const openEditor = (mode: EditorMode) => {
+    const profile = mode.kind === 'edit' ? mode.profile : null;
+    setName(profile?.name || '');
+    setAvatar(profile?.avatar || PROFILE_AVATARS[profiles.length % PROFILE_AVATARS.length]);
+    setPin('');
+    setRemovePin(false);
+    setSaveError(null);
+    setDefaultMinutes(settings.defaultTaskMinutes);
+    setMotivationNudges(settings.motivationNudges);
+    setPomodoro(settings.pomodoro);
+    setSound(settings.sound);
+    setRequireSignOff(settings.requireSignOff);
+    setEditor(mode);
+    setIsOpen(false);
+  };
+
+  const handleSave = async () => {
+    if (!editor || !name.trim()) return;
+    if (pin && !/^\d{4}$/.test(pin)) return;
+
+    let pinHash: string | undefined;
+    try {
+      pinHash = pin ? await hashPin(pin) : undefined;
+    } catch {
+      setSaveError("Couldn't set the PIN, try again");
+      return;
+    }
+
+    if (editor.kind === 'create') {
+      onSaveProfile(createProfile(name.trim(), avatar, pinHash));
+    } else {
+      onSaveProfile({
+        ...editor.profile,
+        name: name.trim(),
+        avatar,
+        pinHash: removePin ? undefined : (pinHash || editor.profile.pinHash),
+      });
+      onSaveSettings({ ...settings, defaultTaskMinutes: defaultMinutes, motivationNudges, pomodoro, sound, requireSignOff });
+    }
+    setEditor(null);
+  };
+
+  const handleDelete = () => {
+    if (editor?.kind !== 'edit') return;
+    if (!window.confirm(`Delete ${editor.profile.name} and all of their history?`)) return;
+    onDeleteProfile(editor.profile.id);
+    setEditor(null);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 pl-2 pr-3 py-1.5 rounded-xl hover:bg-slate-50 transition-colors border border-slate-100"
+      >
+        <span className="w-9 h-9 rounded-lg bg-indigo-50 flex items-center justify-center text-xl">{activeProfile?.avatar}</span>
+        <span className="hidden sm:block font-bold text-sm text-slate-700 max-w-[7rem] truncate">{activeProfile?.name}</span>
+        <ChevronDown className="w-4 h-4 text-slate-400" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)}></div>
+          <div className="absolute right-0 mt-2 w-64 bg-white rounded-2xl shadow-xl border border-slate-100 p-2 z-50 animate-fade-in">
+            {profiles.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => { setIsOpen(false); onSwitch(profile.id); }}
+                className={`w-full flex items-center gap-3 p-2.5 rounded-xl transition-colors ${profile.id === activeProfileId ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+              >
+                <span className="w-9 h-9 rounded-lg bg-white flex items-center justify-center text-xl shadow-sm">{profile.avatar}</span>
+                <span className="flex-1 text-left font-bold text-slate-700 truncate">{profile.name}</span>
+                {profile.pinHash && <Lock className="w-4 h-4 text-slate-300" />}
+              </button>
+            ))}
+            <div className="border-t border-slate-100 mt-2 pt-2 flex gap-2">
+              <button
+                onClick={() => { setIsOpen(false); withParentMode(() => openEditor({ kind: 'create' })); }}
+                className="flex-1 flex items-center justify-center gap-2 p-2.5 rounded-xl text-indigo-600 font-bold text-sm hover:bg-indigo-50 transition-colors"
+              >
+                <Plus className="w-4 h-4 stroke-[3]" /> Add Kid
+              </button>
+              <button
+                onClick={() => { setIsOpen(false); setIsSettingParentPin(true); }}
+                className="p-2.5 rounded-xl text-slate-400 hover:text-indigo-600 hover:bg-slate-50 transition-colors"
+                title="Parent PIN"
+              >
+                <KeyRound className="w-4 h-4" />
+              </button>
+              {activeProfile && (
+                <button
+                  onClick={() => openEditor({ kind: 'edit', profile: activeProfile })}
+                  className="p-2.5 rounded-xl text-slate-400 hover:text-indigo-600 hover:bg-slate-50 transition-colors"
+                  title="Edit profile"
+                >
+                  <Settings className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+
+      {isSettingParentPin && (
+        <ParentPinSetup onDone={() => setIsSettingParentPin(false)} onCancel={() => setIsSettingParentPin(false)} />
+      )}
+
+      {editor && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-fade-in">
+          <div className="bg-white w-full max-w-md rounded-[2rem] shadow-2xl border-2 border-indigo-50 p-6 space-y-5 max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center">
+              <h3 className="text-xl font-bold text-slate-700">{editor.kind === 'create' ? 'New Kid' : 'Edit Profile'}</h3>
+              <button onClick={() => setEditor(null)} className="p-2 hover:bg-slate-100 rounded-full text-slate-400">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Who is this?"
+                className="w-full bg-slate-50 border-2 border-slate-100 text-slate-700 text-lg rounded-xl px-4 py-2.5 focus:outline-none focus:border-indigo-400 transition-all font-bold"
+                autoFocus
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Avatar</label>
+              <div className="flex flex-wrap gap-2">
+                {PROFILE_AVATARS.map(a => (
+                  <button
+                    key={a}
+                    onClick={() => setAvatar(a)}
+                    className={`w-11 h-11 rounded-xl text-2xl transition-all ${avatar === a ? 'bg-indigo-100 ring-2 ring-indigo-400' : 'bg-slate-50 hover:bg-slate-100'}`}
+                  >
+                    {a}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest">
+                {editor.kind === 'edit' && editor.profile.pinHash ? 'Change PIN (optional)' : 'Lock with PIN (optional)'}
+              </label>
+              <input
+                type="password"
+                inputMode="numeric"
+                maxLength={4}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                placeholder="4 digits"
+                disabled={removePin}
+                className="w-full bg-slate-50 border-2 border-slate-100 text-slate-700 text-lg rounded-xl px-4 py-2.5 focus:outline-none focus:border-indigo-400 transition-all font-bold tracking-[0.5em] disabled:opacity-50"
+              />
+              {editor.kind === 'edit' && editor.profile.pinHash && (
+                <label className="flex items-center gap-2 text-sm font-bold text-slate-500">
+                  <input type="checkbox" checked={removePin} onChange={(e) => setRemovePin(e.target.checked)} className="accent-indigo-500" />
+                  Remove PIN
+                </label>
+              )}
+            </div>
+
+            {editor.kind === 'edit' && (
+              <div className="space-y-2">
+                <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Default mission length</label>
+                <div className="flex items-center gap-4 bg-slate-50 p-3 rounded-xl border border-slate-100">
+                  <input
+                    type="range"
+                    min="5"
+                    max="120"
+                    step="5"
+                    value={defaultMinutes}
+                    onChange={(e) => setDefaultMinutes(Number(e.target.value))}
+                    className="flex-1 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                  />
+                  <span className="font-bold text-indigo-600 w-12 text-right">{defaultMinutes}m</span>
+                </div>
+                <label className="flex items-center gap-2 text-sm font-bold text-slate-500 pt-1">
+                  <input type="checkbox" checked={motivationNudges} onChange={(e) => setMotivationNudges(e.target.checked)} className="accent-indigo-500" />
+                  Cheer me on halfway and when I run over
+                </label>
+                <label className={`flex items-center gap-2 text-sm font-bold ${parentMode ? 'text-slate-500' : 'text-slate-300'}`}>
+                  <input
+                    type="checkbox"
+                    checked={requireSignOff}
+                    disabled={!parentMode}
+                    onChange={(e) => setRequireSignOff(e.target.checked)}
+                    className="accent-indigo-500"
+                  />
+                  A grown-up signs off finished missions
+                  {!parentMode && <span className="text-[10px] font-black uppercase tracking-widest">🔒 Parent mode</span>}
+                </label>
+                <fieldset disabled={!parentMode} className={`space-y-2 ${parentMode ? '' : 'opacity-50'}`}>
+                  {!parentMode && (
+                    <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 pt-2">🔒 Timer and sound settings need parent mode</p>
+                  )}
+                  <label className="block text-xs font-black text-slate-400 uppercase tracking-widest pt-2">Pomodoro minutes</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {([['workMinutes', 'Focus'], ['shortBreakMinutes', 'Break'], ['longBreakMinutes', 'Long break']] as [keyof PomodoroSettings, string][]).map(([field, label]) => (
+                      <label key={field} className="bg-slate-50 p-2 rounded-xl border border-slate-100 text-center">
+                        <input
+                          type="number"
+                          min="1"
+                          max="90"
+                          value={pomodoro[field]}
+                          onChange={(e) => setPomodoro({ ...pomodoro, [field]: Math.min(90, Math.max(1, Number(e.target.value) || 1)) })}
+                          className="w-full bg-transparent text-center font-black text-indigo-600 focus:outline-none"
+                        />
+                        <span className="text-[10px] font-bold text-slate-400">{label}</span>
+                      </label>
+                    ))}
+                  </div>
+
+                  <label className="block text-xs font-black text-slate-400 uppercase tracking-widest pt-2">Sounds</label>
+                  <div className="flex items-center gap-4 bg-slate-50 p-3 rounded-xl border border-slate-100">
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.1"
+                      value={sound.volume}
+                      onChange={(e) => setSound({ ...sound, volume: Number(e.target.value) })}
+                      className="flex-1 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                    />
+                    <button onClick={() => playChime('time-up', sound.volume)} className="text-xs font-bold text-indigo-600 hover:underline">
+                      Test
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {(Object.keys(CHIME_LABELS) as ChimeMoment[]).map(moment => (
+                      <button
+                        key={moment}
+                        onClick={() => setSound({ ...sound, chimes: { ...sound.chimes, [moment]: !sound.chimes[moment] } })}
+                        className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${sound.chimes[moment] ? 'bg-indigo-100 text-indigo-600' : 'bg-slate-50 text-slate-400 line-through'}`}
+                      >
+                        {CHIME_LABELS[moment]}
+                      </button>
+                    ))}
+                  </div>
+                  {canNotify() && (
+                    <label className="flex items-center gap-2 text-sm font-bold text-slate-500 pt-1">
+                      <input
+                        type="checkbox"
+                        checked={sound.notifications}
+                        onChange={async (e) => {
+                          const wanted = e.target.checked;
+                          setSound({ ...sound, notifications: wanted && await requestNotifications() });
+                        }}
+                        className="accent-indigo-500"
+                      />
+                      Notify me when the app is in the background
+                    </label>
+                  )}
+                  <div className="flex flex-wrap items-center gap-2 text-sm font-bold text-slate-500">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={!!sound.quietHours}
+                        onChange={(e) => setSound({ ...sound, quietHours: e.target.checked ? { start: '21:00', end: '07:00' } : null })}
+                        className="accent-indigo-500"
+                      />
+                      Quiet hours
+                    </label>
+                    {sound.quietHours && (
+                      <>
+                        <input
+                          type="time"
+                          value={sound.quietHours.start}
+                          onChange={(e) => setSound({ ...sound, quietHours: { ...sound.quietHours!, start: e.target.value } })}
+                          className="bg-slate-50 border border-slate-100 rounded-lg px-2 py-1"
+                        />
+                        <span className="text-slate-300">–</span>
+                        <input
+                          type="time"
+                          value={sound.quietHours.end}
+                          onChange={(e) => setSound({ ...sound, quietHours: { ...sound.quietHours!, end: e.target.value } })}
+                          className="bg-slate-50 border border-slate-100 rounded-lg px-2 py-1"
+                        />
+                      </>
+                    )}
+                  </div>
+                </fieldset>
+              </div>
+            )}
+
+            {saveError && <p className="text-center text-red-500 text-xs font-black uppercase tracking-widest">{saveError}</p>}
+
+            <div className="flex gap-3 pt-2">
+              {editor.kind === 'edit' && profiles.length > 1 && (
+                <button onClick={handleDelete} className="p-3 rounded-xl text-slate-300 hover:text-red-500 hover:bg-red-50 transition-all" title="Delete profile">
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                disabled={!name.trim() || (pin.length > 0 && pin.length !== 4)}
+                className="flex-1 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-black py-3 rounded-xl transition-all active:scale-95 shadow-lg shadow-indigo-100"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Check, Clock, Pencil, Plus, ShoppingBag, Trash2, X } from 'lucide-react';
+import { Redemption, ShopItem } from '../types';
+import { canApprove, decideRedemption, PointsBalance, requestRedemption } from '../services/rewards';
+
+interface RewardShopProps {
+  shop: ShopItem[];
+  redemptions: Redemption[];
+  balance: PointsBalance;
+  onShopChange: (shop: ShopItem[]) => void;
+  onRedemptionsChange: (redemptions: Redemption[]) => void;
+  parentMode: boolean;
+  requireParent: (action: () => void) => void; // Runs the action once the parent PIN is in
+}
+
+const STATUS_STYLES: Record<Redemption['status'], { label: string; className: string }> = {
+  pending: { label: 'Waiting', className: 'bg-amber-50 text-amber-600' },
+  approved: { label: 'Approved', className: 'bg-emerald-50 text-emerald-600' },
+  declined: { label: 'Declined', className: 'bg-slate-100 text-slate-400' },
+};
+
+const RewardShop: React.FC<RewardShopProps> = ({ shop, redemptions, balance, onShopChange, onRedemptionsChange, parentMode, requireParent }) => {
+  const [showEditor, setShowEditor] = useState(false);
+  // Editing stops when parent mode ends
+  const isEditing = showEditor && parentMode;
+
+  const pending = redemptions.filter(r => r.status === 'pending');
+  const decided = redemptions.filter(r => r.status !== 'pending').sort((a, b) => (b.decidedAt || 0) - (a.decidedAt || 0)).slice(0, 5);
+
+  const decide = (redemptionId: string, status: 'approved' | 'declined') =>
+    requireParent(() => onRedemptionsChange(decideRedemption(redemptions, redemptionId, status, balance)));
+
+  const updateItem = (itemId: string, changes: Partial<ShopItem>) =>
+    onShopChange(shop.map(item => item.id === itemId ? { ...item, ...changes } : item));
+
+  const inputClass = "bg-white border-2 border-slate-100 rounded-lg px-2 py-1 font-bold text-slate-700";
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-[1.5rem] p-6 shadow-xl border border-sky-50 shadow-sky-100/50">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest flex items-center gap-2"><ShoppingBag className="w-4 h-4" /> Reward Shop</h3>
+          <p className="text-sm font-black text-amber-500">
+            {balance.available} ⭐ to spend{balance.held > 0 ? <span className="text-slate-400 font-bold"> · {balance.held} waiting</span> : null}
+          </p>
+        </div>
+
+        {shop.length === 0 && !isEditing && (
+          <p className="text-sm font-medium text-slate-400 text-center py-6">The shop is empty. A grown-up can add rewards.</p>
+        )}
+
+        {isEditing ? (
+          <div className="space-y-2">
+            {shop.map(item => (
+              <div key={item.id} className="flex items-center gap-2 bg-slate-50 p-3 rounded-xl">
+                <input value={item.emoji} onChange={(e) => updateItem(item.id, { emoji: e.target.value })} className={`w-14 text-center ${inputClass}`} />
+                <input value={item.name} onChange={(e) => updateItem(item.id, { name: e.target.value })} className={`flex-1 min-w-0 ${inputClass}`} />
+                <input
+                  type="number"
+                  min="1"
+                  value={item.cost}
+                  onChange={(e) => updateItem(item.id, { cost: Math.max(1, Number(e.target.value) || 1) })}
+                  className={`w-20 text-right ${inputClass}`}
+                />
+                <span className="text-xs font-bold text-slate-400">pts</span>
+                <button onClick={() => onShopChange(shop.filter(i => i.id !== item.id))} className="p-2 text-slate-300 hover:text-red-500 transition-colors">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-2 pt-2">
+              <button
+                onClick={() => onShopChange([...shop, { id: `item-${Date.now()}`, name: 'New reward', emoji: '🎁', cost: 50 }])}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold text-indigo-600 bg-indigo-50 hover:bg-indigo-100 transition-all"
+              >
+                <Plus className="w-4 h-4" /> Add Reward
+              </button>
+              <button
+                onClick={() => setShowEditor(false)}
+                className="ml-auto px-4 py-2 rounded-xl text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 transition-all"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {shop.map(item => {
+                const affordable = item.cost <= balance.available;
+                return (
+                  <div key={item.id} className="p-4 rounded-2xl border-2 border-slate-50 bg-slate-50 flex flex-col">
+                    <span className="text-4xl">{item.emoji}</span>
+                    <p className="font-black text-slate-700 mt-2 flex-1">{item.name}</p>
+                    <p className="text-sm font-black text-amber-500 mb-3">{item.cost} ⭐</p>
+                    <button
+                      onClick={() => onRedemptionsChange([...redemptions, requestRedemption(item)])}
+                      disabled={!affordable}
+                      className="py-2 rounded-xl text-sm font-black text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-200 disabled:text-slate-400 transition-all active:scale-95"
+                    >
+                      {affordable ? 'Ask for it' : `${item.cost - balance.available} more`}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            <button
+              onClick={() => requireParent(() => setShowEditor(true))}
+              className="flex items-center gap-2 mt-4 px-4 py-2 rounded-xl text-sm font-bold text-slate-500 hover:bg-slate-50 transition-all"
+            >
+              <Pencil className="w-4 h-4" /> Edit shop (for parents)
+            </button>
+          </>
+        )}
+      </div>
+
+      {(pending.length > 0 || decided.length > 0) && (
+        <div className="bg-white rounded-[1.5rem] p-6 shadow-xl border border-sky-50 shadow-sky-100/50">
+          <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3">Requests</h3>
+          <ul className="space-y-2">
+            {pending.map(r => (
+              <li key={r.id} className="flex items-center gap-3 bg-amber-50/50 p-3 rounded-xl">
+                <span className="text-2xl">{r.emoji}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-bold text-slate-700 truncate">{r.itemName}</p>
+                  <p className="text-xs font-bold text-slate-400 flex items-center gap-1">
+                    <Clock className="w-3 h-3" /> {new Date(r.requestedAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })} · {r.cost} ⭐
+                  </p>
+                </div>
+                <button onClick={() => decide(r.id, 'declined')} className="p-2 rounded-xl text-slate-400 hover:bg-white hover:text-red-500 transition-all" title="Decline">
+                  <X className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => decide(r.id, 'approved')}
+                  disabled={!canApprove(r, balance)}
+                  className="flex items-center gap-1 px-3 py-2 rounded-xl text-sm font-black text-white bg-emerald-500 hover:bg-emerald-600 disabled:bg-slate-200 disabled:text-slate-400 transition-all"
+                  title={canApprove(r, balance) ? 'Approve' : 'Not enough points left for this one'}
+                >
+                  <Check className="w-4 h-4" /> Approve
+                </button>
+              </li>
+            ))}
+            {decided.map(r => (
+              <li key={r.id} className="flex items-center gap-3 p-3">
+                <span className="text-2xl">{r.emoji}</span>
+                <p className="flex-1 font-bold text-slate-500 truncate">{r.itemName}</p>
+                <span className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest ${STATUS_STYLES[r.status].className}`}>
+                  {STATUS_STYLES[r.status].label}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RewardShop;
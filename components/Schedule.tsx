@@ -1,21 +1,86 @@
 import React, { useState } from 'react';
-import { Task, TaskStatus } from '../types';
-import { Play, Check, Clock, Coffee, Trash2, Plus, ChevronUp, ChevronDown, GripVertical } from 'lucide-react';
+import { AvailabilityWindow, Subject, Task, TaskStatus, SchedulerMode } from '../types';
+import { Play, Check, Clock, Coffee, Trash2, Plus, ChevronUp, ChevronDown, GripVertical, Wand2, SkipForward, CalendarClock, Undo2, X, AlertTriangle, Rocket, Lock, Hourglass } from 'lucide-react';
 import TaskInput from './TaskInput';
+import { SKIP_REASONS } from '../services/carryOver';
+import { getSubjectColor } from '../services/subjects';
+import { getChecklistProgress } from '../services/checklist';
+import { fromDateKey, getTodayKey } from '../services/dates';
+import { formatClock, getCommittedMinutes, planClockTimes } from '../services/availability';
+import { splitWorkAndRest } from '../services/timerModes';
+import { summarizePauses } from '../services/pauses';
+import { canChangeTask } from '../services/parentMode';
 
 interface ScheduleProps {
   tasks: Task[];
   onStartTask: (task: Task) => void;
   onDeleteTask: (taskId: string) => void;
   onTasksChange: (tasks: Task[]) => void;
+  onViewSummary?: () => void;
+  subjects?: Subject[];
+  onSubjectCreated?: (subject: Subject) => void;
+  defaultMinutes?: number;
+  onOptimize?: () => void;
+  schedulerMode?: SchedulerMode;
+  onSchedulerModeChange?: (mode: SchedulerMode) => void;
+  onSkipTask?: (taskId: string, reason: string) => void;
+  onUnskipTask?: (taskId: string) => void;
+  onMoveTask?: (taskId: string, target: 'tomorrow' | string) => void;
+  dayWindow?: AvailabilityWindow | null; // The day's set homework hours
+  planningStart?: number; // Minutes since midnight the plan can start from
+  availableMinutes?: number;
+  onEditHours?: () => void;
+  onStartAutopilot?: () => void; // Run the open missions and breaks back to back
+  openTaskId?: string; // The task with a timer session open, running or paused
+  parentMode?: boolean;
+  readOnly?: boolean; // A past day viewed outside parent mode
+  onReviewTask?: (taskId: string, approved: boolean) => void;
+  onUnlock?: () => void; // Ask for the parent PIN
 }
 
-const Schedule: React.FC<ScheduleProps> = ({ tasks, onStartTask, onDeleteTask, onTasksChange }) => {
+const SCHEDULER_MODE_LABELS: Record<SchedulerMode, string> = {
+  'local': 'Offline planner',
+  'ai': 'AI planner',
+  'ai-fallback': 'AI, offline backup',
+};
+
+const Schedule: React.FC<ScheduleProps> = ({
+  tasks, onStartTask, onDeleteTask, onTasksChange, onViewSummary, subjects = [], onSubjectCreated, defaultMinutes,
+  onOptimize, schedulerMode = 'ai-fallback', onSchedulerModeChange, onSkipTask, onUnskipTask, onMoveTask,
+  dayWindow, planningStart = 0, availableMinutes, onEditHours, onStartAutopilot, openTaskId, parentMode = false, readOnly = false,
+  onReviewTask, onUnlock
+}) => {
   const [showAddModal, setShowAddModal] = useState(false);
   const [draggedItemIndex, setDraggedItemIndex] = useState<number | null>(null);
+  const [actionTask, setActionTask] = useState<{ task: Task; mode: 'skip' | 'move' } | null>(null);
+  const [skipReason, setSkipReason] = useState('');
+  const [moveDate, setMoveDate] = useState('');
   
   const pendingTasks = tasks.filter(t => t.status === TaskStatus.PENDING || t.status === TaskStatus.ACTIVE);
+  const reviewTasks = tasks.filter(t => t.status === TaskStatus.REVIEW);
   const completedTasks = tasks.filter(t => t.status === TaskStatus.COMPLETED);
+  const skippedTasks = tasks.filter(t => t.status === TaskStatus.SKIPPED);
+
+  // Deleting, skipping and moving; parent tasks and past days need parent mode, and deleting asks for the PIN
+  const isEditable = (task: Task) => !readOnly && canChangeTask(task, parentMode);
+
+  const openAction = (task: Task, mode: 'skip' | 'move') => {
+    setSkipReason('');
+    setMoveDate('');
+    setActionTask({ task, mode });
+  };
+
+  const confirmSkip = (reason: string) => {
+    if (!actionTask || !reason.trim()) return;
+    onSkipTask?.(actionTask.task.id, reason.trim());
+    setActionTask(null);
+  };
+
+  const confirmMove = (target: 'tomorrow' | string) => {
+    if (!actionTask || !target) return;
+    onMoveTask?.(actionTask.task.id, target);
+    setActionTask(null);
+  };
 
   const formatMins = (m: number) => {
     const hours = Math.floor(m / 60);
@@ -48,11 +113,12 @@ const Schedule: React.FC<ScheduleProps> = ({ tasks, onStartTask, onDeleteTask, o
     newPending[index] = newPending[targetIndex];
     newPending[targetIndex] = temp;
 
-    const newFullTasks = [...newPending, ...completedTasks];
+    const newFullTasks = [...newPending, ...reviewTasks, ...completedTasks, ...skippedTasks];
     onTasksChange(newFullTasks);
   };
 
   const handleDragStart = (index: number) => {
+    if (readOnly) return;
     setDraggedItemIndex(index);
   };
 
@@ -66,7 +132,7 @@ const Schedule: React.FC<ScheduleProps> = ({ tasks, onStartTask, onDeleteTask, o
     newPending.splice(index, 0, draggedItem);
     
     setDraggedItemIndex(index);
-    const newFullTasks = [...newPending, ...completedTasks];
+    const newFullTasks = [...newPending, ...reviewTasks, ...completedTasks, ...skippedTasks];
     onTasksChange(newFullTasks);
   };
 
@@ -74,13 +140,95 @@ const Schedule: React.FC<ScheduleProps> = ({ tasks, onStartTask, onDeleteTask, o
     setDraggedItemIndex(null);
   };
 
-  const totalMinutes = tasks.reduce((acc, t) => acc + calculateTaskMinutes(t), 0);
+  // Skipped missions no longer count towards the day's progress
+  const totalMinutes = tasks.filter(t => t.status !== TaskStatus.SKIPPED).reduce((acc, t) => acc + calculateTaskMinutes(t), 0);
   const completedMinutes = completedTasks.reduce((acc, t) => acc + (t.actualDurationSeconds || (t.estimatedMinutes * 60)) / 60, 0);
-  const progressPercent = tasks.length > 0 ? (completedMinutes / totalMinutes) * 100 : 0;
+  const progressPercent = totalMinutes > 0 ? (completedMinutes / totalMinutes) * 100 : 0;
+
+  // With set hours each mission gets a clock time; otherwise only the day's total is checked
+  const clockPlan = dayWindow ? planClockTimes(pendingTasks, dayWindow, planningStart) : null;
+  const openMinutes = getCommittedMinutes(pendingTasks);
+  const overBy = clockPlan
+    ? clockPlan.overrunMinutes
+    : availableMinutes !== undefined ? Math.max(0, openMinutes - availableMinutes) : 0;
 
   return (
     <div className="w-full max-w-4xl mx-auto p-4 animate-fade-in relative pb-10">
       
+      {actionTask && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-fade-in">
+          <div className="bg-white w-full max-w-md rounded-[2rem] shadow-2xl border-2 border-indigo-50 p-6 space-y-5">
+            <div className="flex justify-between items-center">
+              <h3 className="text-xl font-bold text-slate-700">
+                {actionTask.mode === 'skip' ? 'Skip' : 'Move'} "{actionTask.task.title}"
+              </h3>
+              <button onClick={() => setActionTask(null)} className="p-2 hover:bg-slate-100 rounded-full text-slate-400">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {actionTask.mode === 'skip' ? (
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  {SKIP_REASONS.map(reason => (
+                    <button
+                      key={reason}
+                      onClick={() => confirmSkip(reason)}
+                      className="px-4 py-2 rounded-xl bg-slate-50 hover:bg-amber-50 hover:text-amber-700 text-slate-600 font-bold text-sm transition-all"
+                    >
+                      {reason}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    placeholder="Another reason..."
+                    value={skipReason}
+                    onChange={(e) => setSkipReason(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && confirmSkip(skipReason)}
+                    className="flex-1 bg-slate-50 border-2 border-slate-100 text-slate-700 rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-400 transition-all font-bold"
+                  />
+                  <button
+                    onClick={() => confirmSkip(skipReason)}
+                    disabled={!skipReason.trim()}
+                    className="bg-amber-500 hover:bg-amber-600 disabled:opacity-50 text-white px-4 rounded-xl font-black transition-all"
+                  >
+                    Skip
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <button
+                  onClick={() => confirmMove('tomorrow')}
+                  className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-black py-3 rounded-xl transition-all active:scale-95 shadow-lg shadow-indigo-100"
+                >
+                  Tomorrow
+                </button>
+                <div className="flex gap-2">
+                  <input
+                    type="date"
+                    min={parentMode ? undefined : getTodayKey()}
+                    value={moveDate}
+                    onChange={(e) => setMoveDate(e.target.value)}
+                    className="flex-1 bg-slate-50 border-2 border-slate-100 text-slate-700 rounded-xl px-4 py-2 font-bold"
+                  />
+                  <button
+                    onClick={() => confirmMove(moveDate)}
+                    disabled={!moveDate}
+                    className="bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50 text-indigo-600 px-4 rounded-xl font-black transition-all"
+                  >
+                    Move
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+          <div className="absolute inset-0 -z-10" onClick={() => setActionTask(null)}></div>
+        </div>
+      )}
+
       {showAddModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-fade-in">
           <div className="bg-white w-full max-w-xl rounded-[2rem] shadow-2xl overflow-hidden border-2 border-indigo-50">
@@ -90,6 +238,10 @@ const Schedule: React.FC<ScheduleProps> = ({ tasks, onStartTask, onDeleteTask, o
                  onTasksChange={onTasksChange} 
                  isInline={true}
                  onClose={() => setShowAddModal(false)}
+                 subjects={subjects}
+                 onSubjectCreated={onSubjectCreated}
+                 defaultMinutes={defaultMinutes}
+                 parentMode={parentMode}
                />
             </div>
           </div>
@@ -123,24 +275,83 @@ const Schedule: React.FC<ScheduleProps> = ({ tasks, onStartTask, onDeleteTask, o
             <h3 className="text-xl font-black text-slate-700 tracking-tight">Up Next</h3>
             <div className="flex items-center gap-3">
               <span className="bg-indigo-50 text-indigo-600 px-4 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest">{pendingTasks.length} Missions</span>
-              <button 
-                onClick={() => setShowAddModal(true)}
-                className="bg-indigo-600 hover:bg-indigo-700 text-white p-2 rounded-xl shadow-md transition-all transform hover:scale-105"
-              >
-                <Plus className="w-5 h-5 stroke-[3]" />
-              </button>
+              {onOptimize && !readOnly && pendingTasks.length > 1 && (
+                <div className="flex items-center bg-violet-50 rounded-xl">
+                  {onSchedulerModeChange && (
+                    <select
+                      value={schedulerMode}
+                      onChange={(e) => onSchedulerModeChange(e.target.value as SchedulerMode)}
+                      className="bg-transparent text-violet-600 text-[10px] font-black uppercase tracking-widest pl-3 pr-1 py-2 focus:outline-none cursor-pointer"
+                      title="Planner"
+                    >
+                      {(Object.keys(SCHEDULER_MODE_LABELS) as SchedulerMode[]).map(mode => (
+                        <option key={mode} value={mode}>{SCHEDULER_MODE_LABELS[mode]}</option>
+                      ))}
+                    </select>
+                  )}
+                  <button
+                    onClick={onOptimize}
+                    className="bg-violet-600 hover:bg-violet-700 text-white p-2 rounded-xl shadow-md transition-all transform hover:scale-105"
+                    title="Plan my missions"
+                  >
+                    <Wand2 className="w-5 h-5 stroke-[2.5]" />
+                  </button>
+                </div>
+              )}
+              {!readOnly && (
+                <button 
+                  onClick={() => setShowAddModal(true)}
+                  className="bg-indigo-600 hover:bg-indigo-700 text-white p-2 rounded-xl shadow-md transition-all transform hover:scale-105"
+                >
+                  <Plus className="w-5 h-5 stroke-[3]" />
+                </button>
+              )}
             </div>
           </div>
           
+          {(dayWindow || availableMinutes !== undefined) && pendingTasks.length > 0 && (
+            <div className={`flex items-center gap-3 px-4 py-3 rounded-2xl text-sm font-bold ${overBy > 0 ? 'bg-amber-50 text-amber-700' : 'bg-slate-50 text-slate-500'}`}>
+              {overBy > 0 ? <AlertTriangle className="w-4 h-4 shrink-0" /> : <Clock className="w-4 h-4 shrink-0" />}
+              <span className="flex-1">
+                {clockPlan && dayWindow
+                  ? `Done by ${formatClock(clockPlan.finish)} · hours ${dayWindow.start}–${dayWindow.end}`
+                  : `${formatMins(openMinutes)} planned · ${formatMins(availableMinutes || 0)} free`}
+                {overBy > 0 && <span className="block text-xs">{formatMins(overBy)} more than there's time for. Move or skip something?</span>}
+              </span>
+              {onEditHours && (
+                <button onClick={onEditHours} className="text-xs font-black uppercase tracking-widest hover:underline">Hours</button>
+              )}
+            </div>
+          )}
+
+          {readOnly && (
+            <div className="flex items-center gap-3 px-4 py-3 rounded-2xl text-sm font-bold bg-slate-50 text-slate-500">
+              <Lock className="w-4 h-4 shrink-0" />
+              <span className="flex-1">This day is over, so it's view only.</span>
+              {onUnlock && (
+                <button onClick={onUnlock} className="text-xs font-black uppercase tracking-widest hover:underline">Parent mode</button>
+              )}
+            </div>
+          )}
+
+          {onStartAutopilot && !readOnly && pendingTasks.length > 1 && (
+            <button
+              onClick={onStartAutopilot}
+              className="w-full flex items-center justify-center gap-2 py-3 rounded-2xl bg-indigo-50 hover:bg-indigo-100 text-indigo-600 font-black transition-all active:scale-95"
+            >
+              <Rocket className="w-5 h-5" /> Autopilot: run them all in order
+            </button>
+          )}
+
           <div className="space-y-4">
             {pendingTasks.map((task, index) => (
               <div 
                 key={task.id}
-                draggable
+                draggable={!readOnly}
                 onDragStart={() => handleDragStart(index)}
                 onDragOver={(e) => handleDragOver(e, index)}
                 onDragEnd={handleDragEnd}
-                className={`group relative overflow-hidden rounded-2xl border-2 transition-all cursor-grab active:cursor-grabbing ${
+                className={`group relative overflow-hidden rounded-2xl border-2 transition-all ${readOnly ? '' : 'cursor-grab active:cursor-grabbing'} ${
                   draggedItemIndex === index ? 'opacity-40 border-indigo-400 scale-95' : ''
                 } ${
                   task.isBreak 
@@ -159,47 +370,152 @@ const Schedule: React.FC<ScheduleProps> = ({ tasks, onStartTask, onDeleteTask, o
                    
                    <div className="flex-1 min-w-0">
                      <h4 className={`font-black text-lg truncate ${task.isBreak ? 'text-emerald-800' : 'text-slate-800'}`}>{task.title}</h4>
-                     <div className="flex items-center gap-3 text-xs font-bold opacity-80 mt-0.5">
+                     <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs font-bold opacity-80 mt-0.5">
                         {task.isBreak ? (
                           <span className="text-emerald-600 uppercase tracking-widest">Break</span>
                         ) : (
-                          <span className="flex items-center gap-1 text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded-md"><Clock className="w-3 h-3" /> {formatMins(task.estimatedMinutes)}</span>
+                          <>
+                            <span className="flex items-center gap-1 text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded-md"><Clock className="w-3 h-3" /> {formatMins(task.estimatedMinutes)}</span>
+                            <span className={`px-2 py-0.5 rounded-md ${getSubjectColor(subjects, task.subject).chip}`}>{task.subject}</span>
+                          </>
+                        )}
+                        {clockPlan && (
+                          <span
+                            className="bg-slate-100 text-slate-500 px-2 py-0.5 rounded-md"
+                            title={clockPlan.slots[task.id].pausedFor.length > 0 ? `Stops for ${clockPlan.slots[task.id].pausedFor.join(', ')}` : undefined}
+                          >
+                            🕓 {formatClock(clockPlan.slots[task.id].start)}–{formatClock(clockPlan.slots[task.id].end)}
+                          </span>
                         )}
-                        {index === 0 && <span className="bg-amber-100 text-amber-700 px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest">🎯 Target</span>}
+                        {task.status === TaskStatus.ACTIVE && <span className="bg-rose-100 text-rose-600 px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest">⏱ In Progress</span>}
+                        {task.status !== TaskStatus.ACTIVE && task.id === openTaskId && <span className="bg-amber-100 text-amber-700 px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest">⏸ Paused</span>}
+                        {index === 0 && task.id !== openTaskId && <span className="bg-amber-100 text-amber-700 px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest">🎯 Target</span>}
+                        {task.originalDate && <span className="bg-slate-100 text-slate-500 px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest" title={`Originally due ${task.originalDate}`}>↪ Carried ×{task.carryOverCount || 1}</span>}
+                        {task.dueDate && <span className="bg-sky-50 text-sky-600 px-2 py-0.5 rounded-md" title="Part of a bigger assignment">📌 Due {fromDateKey(task.dueDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>}
+                        {task.checklist && <span className="bg-emerald-50 text-emerald-600 px-2 py-0.5 rounded-md">✓ {getChecklistProgress(task).done}/{task.checklist.length}</span>}
+                        {task.parentAssigned && <span className="bg-slate-100 text-slate-500 px-2 py-0.5 rounded-md" title="Set by a grown-up">🔒 Grown-up</span>}
                      </div>
+                     {task.checklist && (
+                       <p className="text-xs font-medium text-slate-400 mt-1 truncate">
+                         {task.checklist.map((item, idx) => (
+                           <span key={item.id} className={item.doneAt ? 'line-through text-slate-300' : ''}>{idx > 0 ? ' · ' : ''}{item.text}</span>
+                         ))}
+                       </p>
+                     )}
                    </div>
                    
                    <div className="flex items-center gap-2">
-                     <button
-                        onClick={(e) => { e.stopPropagation(); onDeleteTask(task.id); }}
-                        className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl opacity-0 group-hover:opacity-100 transition-all"
-                      >
-                        <Trash2 className="w-5 h-5" />
-                      </button>
-
-                     <button 
-                       onClick={(e) => { e.stopPropagation(); onStartTask(task); }}
-                       className={`w-11 h-11 rounded-xl flex items-center justify-center shadow-lg transition-all transform hover:scale-105 ${
-                          task.isBreak ? 'bg-emerald-500 text-white shadow-emerald-100' : 'bg-indigo-600 text-white shadow-indigo-100'
-                       }`}
-                     >
-                       <Play className="w-5 h-5 ml-0.5 fill-current stroke-[3]" />
-                     </button>
+                     {!task.isBreak && task.id !== openTaskId && onSkipTask && isEditable(task) && (
+                       <button
+                         onClick={(e) => { e.stopPropagation(); openAction(task, 'skip'); }}
+                         className="p-2 text-slate-300 hover:text-amber-500 hover:bg-amber-50 rounded-xl opacity-0 group-hover:opacity-100 transition-all"
+                         title="Skip"
+                       >
+                         <SkipForward className="w-5 h-5" />
+                       </button>
+                     )}
+                     {!task.isBreak && task.id !== openTaskId && onMoveTask && isEditable(task) && (
+                       <button
+                         onClick={(e) => { e.stopPropagation(); openAction(task, 'move'); }}
+                         className="p-2 text-slate-300 hover:text-indigo-500 hover:bg-indigo-50 rounded-xl opacity-0 group-hover:opacity-100 transition-all"
+                         title="Move to another day"
+                       >
+                         <CalendarClock className="w-5 h-5" />
+                       </button>
+                     )}
+                     {isEditable(task) && (
+                       <button
+                          onClick={(e) => { e.stopPropagation(); onDeleteTask(task.id); }}
+                          className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl opacity-0 group-hover:opacity-100 transition-all"
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                     )}
+
+                     {!readOnly && (
+                       <button 
+                         onClick={(e) => { e.stopPropagation(); onStartTask(task); }}
+                         className={`w-11 h-11 rounded-xl flex items-center justify-center shadow-lg transition-all transform hover:scale-105 ${
+                            task.isBreak ? 'bg-emerald-500 text-white shadow-emerald-100' : 'bg-indigo-600 text-white shadow-indigo-100'
+                         }`}
+                       >
+                         <Play className="w-5 h-5 ml-0.5 fill-current stroke-[3]" />
+                       </button>
+                     )}
                    </div>
                 </div>
+                {task.checklist && (
+                  <div className="absolute bottom-0 left-0 right-0 h-1 bg-slate-50">
+                    <div className="h-full bg-emerald-400 transition-all" style={{ width: `${getChecklistProgress(task).fraction * 100}%` }}></div>
+                  </div>
+                )}
               </div>
             ))}
-            {pendingTasks.length === 0 && completedTasks.length > 0 && (
+            {pendingTasks.length === 0 && completedTasks.length + reviewTasks.length > 0 && (
               <div className="text-center p-12 bg-white rounded-[2rem] border-2 border-dashed border-slate-100">
                 <span className="text-6xl block mb-4 animate-bounce">🎉</span>
                 <h3 className="text-2xl font-black text-slate-700">Victory!</h3>
                 <p className="text-slate-500 text-base font-medium">All tasks completed!</p>
+                {onViewSummary && (
+                  <button
+                    onClick={onViewSummary}
+                    className="mt-6 bg-gradient-to-r from-amber-400 to-orange-500 text-white font-black py-3 px-8 rounded-full shadow-lg shadow-orange-100 transform transition hover:-translate-y-0.5 active:scale-95"
+                  >
+                    See Mission Report 📋
+                  </button>
+                )}
               </div>
             )}
           </div>
         </div>
 
         <div className="space-y-6 lg:mt-0 mt-4">
+          {reviewTasks.length > 0 && (
+            <>
+              <div className="flex items-center justify-between px-2">
+                <h3 className="text-xl font-black text-slate-700 tracking-tight">Sign-off</h3>
+                <span className="bg-sky-50 text-sky-600 px-4 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest">{reviewTasks.length} Waiting</span>
+              </div>
+              <div className="space-y-4">
+                {reviewTasks.map((task) => (
+                  <div key={task.id} className="relative overflow-hidden rounded-2xl border-2 bg-sky-50/40 border-sky-100 transition-all">
+                    <div className="p-4 flex items-center gap-4">
+                      <div className="w-5 h-5" />
+                      <div className="w-14 h-14 rounded-xl flex-shrink-0 flex items-center justify-center text-3xl shadow-sm bg-white">
+                        {task.emoji}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-black text-lg truncate text-slate-600">{task.title}</h4>
+                        <p className="flex items-center gap-1 text-[10px] font-bold text-sky-600 mt-0.5 uppercase tracking-widest">
+                          <Hourglass className="w-3 h-3" />
+                          Done in {task.actualDurationSeconds ? formatExactDuration(task.actualDurationSeconds) : `${task.estimatedMinutes}m`} · waiting for a grown-up
+                        </p>
+                      </div>
+                      {onReviewTask && (
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => onReviewTask(task.id, false)}
+                            className="p-2 text-slate-300 hover:text-amber-600 hover:bg-amber-50 rounded-xl transition-all"
+                            title="Send back"
+                          >
+                            <Undo2 className="w-5 h-5" />
+                          </button>
+                          <button
+                            onClick={() => onReviewTask(task.id, true)}
+                            className="w-11 h-11 rounded-xl flex items-center justify-center bg-emerald-500 text-white shadow-lg shadow-emerald-100 transition-all transform hover:scale-105"
+                            title="Sign off"
+                          >
+                            <Check className="w-5 h-5 stroke-[4]" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
            <div className="flex items-center justify-between px-2">
             <h3 className="text-xl font-black text-slate-700 tracking-tight">Completed</h3>
             <span className="bg-emerald-50 text-emerald-600 px-4 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest">{completedTasks.length} Done</span>
@@ -225,17 +541,28 @@ const Schedule: React.FC<ScheduleProps> = ({ tasks, onStartTask, onDeleteTask, o
                       <h4 className="font-black text-lg truncate text-slate-600 line-through decoration-slate-300 decoration-[3px]">{task.title}</h4>
                       <p className="text-[10px] font-bold text-slate-400 mt-0.5 uppercase tracking-widest">
                         Done in {task.actualDurationSeconds ? formatExactDuration(task.actualDurationSeconds) : `${task.estimatedMinutes}m`}
+                        {splitWorkAndRest(task).restSeconds > 0 && ` · ${formatExactDuration(splitWorkAndRest(task).restSeconds)} of it resting`}
                       </p>
+                      {task.pauses && task.pauses.length > 0 && (
+                        <p
+                          className="text-[10px] font-bold text-amber-600 mt-0.5"
+                          title={summarizePauses([task]).reasons.map(r => `${r.reason}: ${r.count}× ${formatExactDuration(r.seconds)}`).join('\n')}
+                        >
+                          ⏸ Stopped {task.pauses.length}× for {formatExactDuration(summarizePauses([task]).seconds)}
+                        </p>
+                      )}
                     </div>
 
                     <div className="flex items-center gap-2">
-                      <button
-                        onClick={(e) => { e.stopPropagation(); onDeleteTask(task.id); }}
-                        className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl opacity-0 group-hover:opacity-100 transition-all"
-                        title="Remove mission"
-                      >
-                        <Trash2 className="w-5 h-5" />
-                      </button>
+                      {isEditable(task) && (
+                        <button
+                          onClick={(e) => { e.stopPropagation(); onDeleteTask(task.id); }}
+                          className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl opacity-0 group-hover:opacity-100 transition-all"
+                          title="Remove mission"
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                      )}
 
                       <div className="w-11 h-11 rounded-xl flex items-center justify-center bg-emerald-100 text-emerald-500">
                         <Check className="w-5 h-5 stroke-[4]" />
@@ -246,6 +573,40 @@ const Schedule: React.FC<ScheduleProps> = ({ tasks, onStartTask, onDeleteTask, o
               ))
             )}
           </div>
+
+          {skippedTasks.length > 0 && (
+            <>
+              <div className="flex items-center justify-between px-2 pt-2">
+                <h3 className="text-xl font-black text-slate-700 tracking-tight">Skipped</h3>
+                <span className="bg-amber-50 text-amber-600 px-4 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest">{skippedTasks.length} Skipped</span>
+              </div>
+              <div className="space-y-4 opacity-80">
+                {skippedTasks.map((task) => (
+                  <div key={task.id} className="group relative overflow-hidden rounded-2xl border-2 border-dashed bg-amber-50/40 border-amber-100 transition-all">
+                    <div className="p-4 flex items-center gap-4">
+                      <div className="w-5 h-5" />
+                      <div className="w-14 h-14 rounded-xl flex-shrink-0 flex items-center justify-center text-3xl shadow-sm bg-white opacity-60">
+                        {task.emoji}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-black text-lg truncate text-slate-500">{task.title}</h4>
+                        <p className="text-[10px] font-bold text-amber-600 mt-0.5 uppercase tracking-widest truncate">{task.skipReason || 'Skipped'}</p>
+                      </div>
+                      {onUnskipTask && isEditable(task) && (
+                        <button
+                          onClick={() => onUnskipTask(task.id)}
+                          className="p-2 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
+                          title="Bring back"
+                        >
+                          <Undo2 className="w-5 h-5" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
         </div>
       </div>
     </div>
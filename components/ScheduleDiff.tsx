@@ -0,0 +1,113 @@
+import React from 'react';
+import { ArrowRight, Check, X } from 'lucide-react';
+import { Task } from '../types';
+import { ScheduleChange, ScheduleChangeKind } from '../services/scheduleValidation';
+import { PlanSource } from '../services/planner';
+
+interface ScheduleDiffProps {
+  before: Task[];
+  after: Task[];
+  changes: ScheduleChange[];
+  source: PlanSource;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const CHANGE_STYLES: Record<ScheduleChangeKind, { label: string; className: string }> = {
+  'added-break': { label: 'New break', className: 'bg-emerald-50 text-emerald-600' },
+  'moved': { label: 'Moved', className: 'bg-indigo-50 text-indigo-600' },
+  'renamed': { label: 'Name kept', className: 'bg-amber-50 text-amber-600' },
+  'duration-kept': { label: 'Time kept', className: 'bg-amber-50 text-amber-600' },
+  'dropped-unknown': { label: 'Ignored', className: 'bg-rose-50 text-rose-600' },
+  'dropped-duplicate': { label: 'Duplicate', className: 'bg-rose-50 text-rose-600' },
+  'restored-missing': { label: 'Put back', className: 'bg-rose-50 text-rose-600' },
+  'invalid-entry': { label: 'Invalid', className: 'bg-rose-50 text-rose-600' },
+};
+
+const SOURCE_LABELS: Record<PlanSource, string> = {
+  local: 'Offline planner',
+  ai: 'AI planner',
+  unchanged: 'AI unavailable, nothing changed',
+};
+
+const TaskList: React.FC<{ tasks: Task[]; highlightNew?: Set<string> }> = ({ tasks, highlightNew }) => (
+  <ol className="space-y-2">
+    {tasks.map((task, idx) => (
+      <li
+        key={task.id}
+        className={`flex items-center gap-3 p-2.5 rounded-xl border-2 ${
+          highlightNew?.has(task.id) ? 'border-emerald-200 bg-emerald-50' : task.isBreak ? 'border-emerald-50 bg-emerald-50/50' : 'border-slate-50 bg-white'
+        }`}
+      >
+        <span className="text-[10px] font-black text-slate-300 w-4">{idx + 1}</span>
+        <span className="text-xl">{task.emoji}</span>
+        <span className="flex-1 min-w-0 font-bold text-sm text-slate-700 truncate">{task.title}</span>
+        <span className="text-xs font-bold text-slate-400">{task.estimatedMinutes}m</span>
+      </li>
+    ))}
+  </ol>
+);
+
+const ScheduleDiff: React.FC<ScheduleDiffProps> = ({ before, after, changes, source, onApply, onCancel }) => {
+  const beforeIds = new Set(before.map(t => t.id));
+  const addedIds = new Set(after.filter(t => !beforeIds.has(t.id)).map(t => t.id));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-fade-in">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-[2rem] shadow-2xl border-2 border-indigo-50 p-6 space-y-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-slate-700">New Mission Order</h3>
+            <p className="text-xs font-black text-slate-400 uppercase tracking-widest mt-1">{SOURCE_LABELS[source]}</p>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 rounded-full text-slate-400">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid sm:grid-cols-[1fr_auto_1fr] gap-4 items-start">
+          <div>
+            <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Now</p>
+            <TaskList tasks={before} />
+          </div>
+          <ArrowRight className="hidden sm:block w-5 h-5 text-slate-300 mt-10" />
+          <div>
+            <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Proposed</p>
+            <TaskList tasks={after} highlightNew={addedIds} />
+          </div>
+        </div>
+
+        {changes.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-black text-slate-400 uppercase tracking-widest">What changed</p>
+            <ul className="space-y-1.5">
+              {changes.map((change, idx) => (
+                <li key={idx} className="flex items-center gap-2 text-sm">
+                  <span className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest ${CHANGE_STYLES[change.kind].className}`}>
+                    {CHANGE_STYLES[change.kind].label}
+                  </span>
+                  <span className="font-bold text-slate-700">{change.title}</span>
+                  {change.detail && <span className="text-slate-400">{change.detail}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <button onClick={onCancel} className="px-6 py-3 rounded-xl font-bold text-slate-500 hover:bg-slate-50 transition-all">
+            Keep Current
+          </button>
+          <button
+            onClick={onApply}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-black px-6 py-3 rounded-xl transition-all active:scale-95 shadow-lg shadow-indigo-100"
+          >
+            <Check className="w-5 h-5 stroke-[3]" /> Use This Plan
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleDiff;
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Archive, ArchiveRestore, ArrowRight, Plus, X } from 'lucide-react';
+import { Subject, SubjectColor, SubjectDifficulty, Task } from '../types';
+import { createSubject, DIFFICULTY_LABELS, findSubject, findUnmappedSubjects, SUBJECT_COLORS } from '../services/subjects';
+
+interface SubjectManagerProps {
+  subjects: Subject[];
+  history: Record<string, Task[]>;
+  defaultMinutes: number;
+  onSubjectsChange: (subjects: Subject[]) => void;
+  onRenameSubject: (subjectId: string, name: string) => void;
+  onMapSubject: (fromName: string, subjectId: string) => void;
+  onClose: () => void;
+}
+
+const SubjectManager: React.FC<SubjectManagerProps> = ({
+  subjects, history, defaultMinutes, onSubjectsChange, onRenameSubject, onMapSubject, onClose
+}) => {
+  const [showArchived, setShowArchived] = useState(false);
+  const [mapTargets, setMapTargets] = useState<Record<string, string>>({});
+
+  const unmapped = findUnmappedSubjects(history, subjects);
+  const visible = subjects.filter(s => showArchived || !s.archived);
+  const archivedCount = subjects.filter(s => s.archived).length;
+  const mappable = subjects.filter(s => !s.isBreak);
+
+  const updateSubject = (subjectId: string, changes: Partial<Subject>) =>
+    onSubjectsChange(subjects.map(s => s.id === subjectId ? { ...s, ...changes } : s));
+
+  // Names stay unique, so a clash or an empty name puts the old one back
+  const commitName = (subject: Subject, input: HTMLInputElement) => {
+    const name = input.value.trim();
+    if (name === subject.name) return;
+    const owner = name ? findSubject(subjects, name) : undefined;
+    if (!name || (owner && owner.id !== subject.id)) {
+      input.value = subject.name;
+      return;
+    }
+    onRenameSubject(subject.id, name);
+  };
+
+  const inputClass = "bg-white border-2 border-slate-100 rounded-lg px-2 py-1 font-bold text-slate-700";
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 animate-fade-in pb-10">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800">Subjects 🎨</h2>
+          <p className="text-slate-400 text-sm font-medium">Colours, usual lengths and which subjects are hard work</p>
+        </div>
+        <button onClick={onClose} className="p-3 bg-white hover:bg-slate-50 rounded-xl text-slate-300 transition-all border border-slate-100 shadow-sm">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      {unmapped.length > 0 && (
+        <div className="bg-amber-50 rounded-[1.5rem] p-6 border-2 border-amber-100 mb-6">
+          <h3 className="text-xs font-black text-amber-600 uppercase tracking-widest mb-1">Found in History</h3>
+          <p className="text-sm font-medium text-amber-700 mb-4">These subjects were typed in or imported but aren't in the list yet.</p>
+          <ul className="space-y-2">
+            {unmapped.map(({ name, count }) => (
+              <li key={name} className="flex flex-wrap items-center gap-2 bg-white p-3 rounded-xl">
+                <span className="font-black text-slate-700">{name}</span>
+                <span className="text-xs font-bold text-slate-400">{count} {count === 1 ? 'mission' : 'missions'}</span>
+                <div className="ml-auto flex items-center gap-2">
+                  <select
+                    value={mapTargets[name] || ''}
+                    onChange={(e) => setMapTargets({ ...mapTargets, [name]: e.target.value })}
+                    className="bg-slate-50 border-2 border-slate-100 rounded-lg px-2 py-1 text-sm font-bold text-slate-600"
+                  >
+                    <option value="">Same as…</option>
+                    {mappable.map(s => <option key={s.id} value={s.id}>{s.emoji} {s.name}</option>)}
+                  </select>
+                  <button
+                    onClick={() => mapTargets[name] && onMapSubject(name, mapTargets[name])}
+                    disabled={!mapTargets[name]}
+                    className="p-2 rounded-lg text-indigo-600 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-40 transition-all"
+                    title="File these missions under that subject"
+                  >
+                    <ArrowRight className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onSubjectsChange([...subjects, createSubject(name, subjects, defaultMinutes)])}
+                    className="px-3 py-1.5 rounded-lg text-sm font-bold text-slate-500 bg-slate-50 hover:bg-slate-100 transition-all"
+                  >
+                    Add as new
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-[1.5rem] p-6 shadow-xl border border-sky-50 shadow-sky-100/50 space-y-3">
+        {visible.map(subject => (
+          <div key={subject.id} className={`p-4 rounded-2xl border-2 space-y-3 ${subject.archived ? 'border-slate-50 bg-slate-50 opacity-60' : 'border-slate-50 bg-slate-50'}`}>
+            <div className="flex items-center gap-2">
+              <input
+                value={subject.emoji}
+                onChange={(e) => updateSubject(subject.id, { emoji: e.target.value })}
+                className={`w-14 text-center text-xl ${inputClass}`}
+              />
+              <input
+                key={subject.name}
+                defaultValue={subject.name}
+                onBlur={(e) => commitName(subject, e.target)}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className={`flex-1 min-w-0 text-lg ${inputClass}`}
+              />
+              <button
+                onClick={() => updateSubject(subject.id, { archived: !subject.archived })}
+                className="p-2 rounded-lg text-slate-400 hover:bg-white transition-all"
+                title={subject.archived ? 'Bring back' : 'Archive'}
+              >
+                {subject.archived ? <ArchiveRestore className="w-5 h-5" /> : <Archive className="w-5 h-5" />}
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex gap-1.5">
+                {(Object.keys(SUBJECT_COLORS) as SubjectColor[]).map(color => (
+                  <button
+                    key={color}
+                    onClick={() => updateSubject(subject.id, { color })}
+                    className={`w-6 h-6 rounded-full ${SUBJECT_COLORS[color].dot} transition-all ${subject.color === color ? 'ring-2 ring-offset-2 ring-slate-400' : 'opacity-60 hover:opacity-100'}`}
+                    title={color}
+                  ></button>
+                ))}
+              </div>
+
+              <label className="flex items-center gap-2 text-xs font-bold text-slate-400">
+                <input
+                  type="number"
+                  min="1"
+                  max="480"
+                  value={subject.defaultMinutes}
+                  onChange={(e) => updateSubject(subject.id, { defaultMinutes: Math.min(480, Math.max(1, Number(e.target.value) || 1)) })}
+                  className={`w-16 text-right ${inputClass}`}
+                />
+                min usually
+              </label>
+
+              {!subject.isBreak && (
+                <div className="flex gap-1 ml-auto">
+                  {([1, 2, 3] as SubjectDifficulty[]).map(level => (
+                    <button
+                      key={level}
+                      onClick={() => updateSubject(subject.id, { difficulty: level })}
+                      className={`px-3 py-1 rounded-lg text-xs font-black transition-all ${subject.difficulty === level ? 'bg-indigo-600 text-white' : 'bg-white text-slate-400 hover:bg-slate-100'}`}
+                    >
+                      {DIFFICULTY_LABELS[level]}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {(subject.aliases || []).length > 0 && (
+              <p className="text-[11px] font-bold text-slate-400">Also known as {subject.aliases!.join(', ')}</p>
+            )}
+          </div>
+        ))}
+
+        <div className="flex items-center gap-3 pt-2">
+          <button
+            onClick={() => onSubjectsChange([...subjects, createSubject(`Subject ${subjects.length + 1}`, subjects, defaultMinutes)])}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold text-indigo-600 bg-indigo-50 hover:bg-indigo-100 transition-all"
+          >
+            <Plus className="w-4 h-4" /> Add Subject
+          </button>
+          {archivedCount > 0 && (
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="ml-auto text-sm font-bold text-slate-400 hover:text-slate-600 transition-colors"
+            >
+              {showArchived ? 'Hide archived' : `Show archived (${archivedCount})`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubjectManager;
@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, Printer, Share2, Clock, Coffee, Flame, Trophy } from 'lucide-react';
+import { Task } from '../types';
+import { summarizeDay, formatDuration } from '../services/stats';
+
+interface SummaryProps {
+  tasks: Task[];
+  date: Date;
+  onClose: () => void;
+}
+
+const Summary: React.FC<SummaryProps> = ({ tasks, date, onClose }) => {
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+  const summary = useMemo(() => summarizeDay(tasks), [tasks]);
+
+  const dateLabel = date.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+  const maxSubjectSeconds = Math.max(1, ...summary.subjects.map(s => s.actualSeconds));
+  const accuracyDelta = summary.focusSeconds - summary.estimatedFocusSeconds;
+
+  const buildShareText = () => {
+    const lines = [
+      `KiddoTime summary for ${dateLabel}`,
+      `Done: ${summary.completedCount}/${summary.totalCount} • Focus: ${formatDuration(summary.focusSeconds)} • Breaks: ${formatDuration(summary.breakSeconds)}`,
+      '',
+      ...summary.rows.map(r => `${r.task.emoji || '📝'} ${r.task.title} (${r.task.subject}): ${formatDuration(r.actualSeconds)} of ${formatDuration(r.estimatedSeconds)}${r.awaitingSignOff ? ' (awaiting sign-off)' : ''}`),
+      '',
+      `Longest focus streak: ${formatDuration(summary.longestStreakSeconds)}`,
+    ];
+    return lines.join('\n');
+  };
+
+  const handleShare = async () => {
+    const text = buildShareText();
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: 'KiddoTime Summary', text });
+        return;
+      }
+      await navigator.clipboard.writeText(text);
+      setShareStatus('Copied to clipboard!');
+    } catch (e) {
+      setShareStatus('Could not share, try printing instead.');
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 animate-fade-in pb-10 print:p-0">
+      <div className="flex items-center justify-between mb-6 print:hidden">
+        <button onClick={onClose} className="flex items-center gap-2 px-4 py-2.5 bg-white hover:bg-slate-50 rounded-xl text-slate-500 font-bold text-sm transition-all border border-slate-100 shadow-sm">
+          <ArrowLeft className="w-4 h-4 stroke-[3]" /> Quest Log
+        </button>
+        <div className="flex items-center gap-2">
+          {shareStatus && <span className="text-xs font-bold text-slate-400">{shareStatus}</span>}
+          <button onClick={handleShare} className="p-2.5 bg-white hover:bg-indigo-50 rounded-xl text-indigo-600 transition-all border border-slate-100 shadow-sm" title="Share">
+            <Share2 className="w-5 h-5" />
+          </button>
+          <button onClick={() => window.print()} className="p-2.5 bg-white hover:bg-indigo-50 rounded-xl text-indigo-600 transition-all border border-slate-100 shadow-sm" title="Print">
+            <Printer className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-gradient-to-r from-amber-400 to-orange-500 rounded-[2rem] p-8 text-white shadow-xl mb-8 relative overflow-hidden print:bg-none print:text-slate-800 print:shadow-none print:border-2 print:border-slate-200">
+        <div className="absolute top-0 right-0 w-48 h-48 bg-white/10 rounded-full -mr-16 -mt-16 blur-2xl print:hidden"></div>
+        <div className="relative z-10 space-y-1.5">
+          <p className="text-[10px] font-black uppercase tracking-widest text-amber-100 print:text-slate-400">Mission Report</p>
+          <h2 className="text-3xl font-black">{dateLabel}</h2>
+          <p className="text-lg font-medium text-amber-50 print:text-slate-500">
+            {summary.completedCount} of {summary.totalCount} missions finished 🏆
+          </p>
+          {summary.awaitingSignOffCount > 0 && (
+            <p className="text-sm font-bold text-amber-100 print:text-slate-500">
+              ⏳ {summary.awaitingSignOffCount} waiting for a grown-up to sign off
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+        {[
+          { label: 'Focus Time', value: formatDuration(summary.focusSeconds), icon: <Clock className="w-5 h-5" />, color: 'bg-indigo-50 text-indigo-600' },
+          { label: 'vs. Plan', value: `${accuracyDelta > 0 ? '+' : accuracyDelta < 0 ? '-' : ''}${formatDuration(accuracyDelta)}`, icon: <Trophy className="w-5 h-5" />, color: accuracyDelta > 0 ? 'bg-rose-50 text-rose-600' : 'bg-emerald-50 text-emerald-600' },
+          { label: `Breaks (${summary.breakCount})`, value: formatDuration(summary.breakSeconds), icon: <Coffee className="w-5 h-5" />, color: 'bg-teal-50 text-teal-600' },
+          { label: `Best Streak (${summary.longestStreakTasks})`, value: formatDuration(summary.longestStreakSeconds), icon: <Flame className="w-5 h-5" />, color: 'bg-orange-50 text-orange-600' },
+        ].map(card => (
+          <div key={card.label} className="bg-white rounded-2xl p-5 border-2 border-slate-50 shadow-sm print:shadow-none print:border-slate-200">
+            <div className={`w-10 h-10 rounded-xl flex items-center justify-center mb-3 ${card.color}`}>{card.icon}</div>
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">{card.label}</p>
+            <p className="text-2xl font-black text-slate-800">{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-8">
+        <div className="space-y-4">
+          <h3 className="text-xl font-black text-slate-700 tracking-tight px-2">Plan vs. Actual</h3>
+          {summary.rows.length === 0 ? (
+            <div className="p-8 text-center text-slate-400 text-base font-medium italic bg-slate-50 rounded-2xl border-2 border-dashed border-slate-100">
+              No finished missions on this day.
+            </div>
+          ) : (
+            summary.rows.map(({ task, estimatedSeconds, actualSeconds, deltaSeconds, awaitingSignOff }) => (
+              <div key={task.id} className="bg-white rounded-2xl border-2 border-slate-50 p-4 flex items-center gap-4 break-inside-avoid print:border-slate-200">
+                <div className="w-12 h-12 rounded-xl flex-shrink-0 flex items-center justify-center text-2xl bg-slate-50">{task.emoji}</div>
+                <div className="flex-1 min-w-0">
+                  <h4 className="font-black text-base truncate text-slate-800">{task.title}</h4>
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {task.subject}
+                    {awaitingSignOff && <span className="ml-2 text-amber-500">⏳ Awaiting sign-off</span>}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-black text-slate-700">{formatDuration(actualSeconds)} <span className="text-slate-300">/ {formatDuration(estimatedSeconds)}</span></p>
+                  <p className={`text-[10px] font-black uppercase tracking-widest ${deltaSeconds > 0 ? 'text-rose-500' : 'text-emerald-500'}`}>
+                    {deltaSeconds > 0 ? `${formatDuration(deltaSeconds)} over` : `${formatDuration(deltaSeconds)} early`}
+                  </p>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-xl font-black text-slate-700 tracking-tight px-2">By Subject</h3>
+          <div className="bg-white rounded-2xl border-2 border-slate-50 p-6 space-y-5 print:border-slate-200">
+            {summary.subjects.length === 0 && (
+              <p className="text-center text-slate-400 text-base font-medium italic">Nothing to count yet.</p>
+            )}
+            {summary.subjects.map(sub => (
+              <div key={sub.subject} className="space-y-1.5">
+                <div className="flex justify-between text-sm font-bold">
+                  <span className="text-slate-700">{sub.subject} <span className="text-slate-300">× {sub.taskCount}</span></span>
+                  <span className="text-indigo-600">{formatDuration(sub.actualSeconds)}</span>
+                </div>
+                <div className="h-3 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500 rounded-full print:bg-slate-600" style={{ width: `${(sub.actualSeconds / maxSubjectSeconds) * 100}%` }}></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Summary;
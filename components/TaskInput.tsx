@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
-import { Plus, BookOpen, Calculator, Languages, Smile, PenTool, X, Coffee } from 'lucide-react';
-import { Task, TaskStatus } from '../types';
+import { Plus, PenTool, X, ListChecks, Lock } from 'lucide-react';
+import { Subject, Task, TaskStatus } from '../types';
+import { createSubject, DEFAULT_SUBJECTS, findSubject, SUBJECT_COLORS } from '../services/subjects';
+import { createChecklistItem } from '../services/checklist';
+import { canChangeTask } from '../services/parentMode';
 
 interface TaskInputProps {
   onTasksChange: (tasks: Task[]) => void;
@@ -8,47 +11,68 @@ interface TaskInputProps {
   onNext?: () => void;
   isInline?: boolean; // New prop to control layout for inline usage
   onClose?: () => void; // Callback to close the input form if needed
+  subjects?: Subject[]; // This child's subject registry
+  onSubjectCreated?: (subject: Subject) => void;
+  defaultMinutes?: number;
+  parentMode?: boolean; // New missions count as set by a parent
 }
 
-const DEFAULT_SUBJECTS = [
-  { name: 'Math', icon: <Calculator className="w-5 h-5" />, color: 'bg-blue-100 text-blue-600', emoji: '📐' },
-  { name: 'English', icon: <Languages className="w-5 h-5" />, color: 'bg-green-100 text-green-600', emoji: '📖' },
-  { name: 'Chinese', icon: <BookOpen className="w-5 h-5" />, color: 'bg-red-100 text-red-600', emoji: '📚' },
-  { name: 'Rest', icon: <Coffee className="w-5 h-5" />, color: 'bg-emerald-100 text-emerald-600', emoji: '☕' },
-];
-
-const TaskInput: React.FC<TaskInputProps> = ({ onTasksChange, tasks, onNext, isInline = false, onClose }) => {
+const TaskInput: React.FC<TaskInputProps> = ({
+  onTasksChange, tasks, onNext, isInline = false, onClose, subjects = DEFAULT_SUBJECTS, onSubjectCreated, defaultMinutes = 30, parentMode = false
+}) => {
+  const activeSubjects = subjects.filter(s => !s.archived);
   const [newTaskTitle, setNewTaskTitle] = useState('');
-  const [newTaskMinutes, setNewTaskMinutes] = useState<number>(30);
+  const [newTaskMinutes, setNewTaskMinutes] = useState<number>(activeSubjects[0]?.defaultMinutes || defaultMinutes);
   
   // Custom subject state
-  const [isCustomSubject, setIsCustomSubject] = useState(false);
+  const [isCustomSubject, setIsCustomSubject] = useState(activeSubjects.length === 0);
   const [customSubjectName, setCustomSubjectName] = useState('');
-  const [selectedPreset, setSelectedPreset] = useState(DEFAULT_SUBJECTS[0]);
+  const [selectedId, setSelectedId] = useState(activeSubjects[0]?.id);
+  const selectedSubject = activeSubjects.find(s => s.id === selectedId);
+
+  // Optional checklist for the mission being added
+  const [steps, setSteps] = useState<string[]>([]);
+  const [stepText, setStepText] = useState('');
+  const isBreakSelected = !isCustomSubject && !!selectedSubject?.isBreak;
+
+  const addStep = () => {
+    if (!stepText.trim()) return;
+    setSteps([...steps, stepText.trim()]);
+    setStepText('');
+  };
 
   const handleAddTask = () => {
     const title = newTaskTitle.trim();
     if (!title) return;
 
-    const subjectName = isCustomSubject ? customSubjectName.trim() : selectedPreset.name;
-    if (isCustomSubject && !subjectName) return;
-
-    // Determine emoji based on custom or preset
-    const emoji = isCustomSubject ? '⚡' : selectedPreset.emoji;
-    const isBreak = !isCustomSubject && selectedPreset.name === 'Rest';
+    let subject = selectedSubject;
+    if (isCustomSubject) {
+      const name = customSubjectName.trim();
+      if (!name) return;
+      subject = findSubject(subjects, name);
+      if (!subject) {
+        subject = createSubject(name, subjects, newTaskMinutes || defaultMinutes);
+        onSubjectCreated?.(subject);
+      }
+    }
+    if (!subject) return;
 
     const newTask: Task = {
       id: Date.now().toString(),
       title: title,
-      subject: subjectName || 'General',
+      subject: subject.name,
       estimatedMinutes: newTaskMinutes,
       status: TaskStatus.PENDING,
-      isBreak: isBreak,
-      emoji: emoji
+      isBreak: !!subject.isBreak,
+      emoji: subject.emoji,
+      checklist: !subject.isBreak && steps.length > 0 ? steps.map(createChecklistItem) : undefined,
+      parentAssigned: parentMode || undefined
     };
 
     onTasksChange([...tasks, newTask]);
     setNewTaskTitle('');
+    setSteps([]);
+    setStepText('');
     
     if (isInline && onClose) {
        onClose();
@@ -60,14 +84,10 @@ const TaskInput: React.FC<TaskInputProps> = ({ onTasksChange, tasks, onNext, isI
   };
 
   // Set suggested time based on subject
-  const selectPreset = (sub: typeof DEFAULT_SUBJECTS[0]) => {
+  const selectSubject = (sub: Subject) => {
     setIsCustomSubject(false);
-    setSelectedPreset(sub);
-    if (sub.name === 'Rest' && newTaskMinutes > 15) {
-      setNewTaskMinutes(15);
-    } else if (sub.name !== 'Rest' && (newTaskMinutes < 20 || newTaskMinutes === 15)) {
-      setNewTaskMinutes(30);
-    }
+    setSelectedId(sub.id);
+    setNewTaskMinutes(sub.defaultMinutes);
   };
 
   const handleMinutesChange = (val: string) => {
@@ -105,23 +125,23 @@ const TaskInput: React.FC<TaskInputProps> = ({ onTasksChange, tasks, onNext, isI
           <div className="space-y-2">
             <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Subject</label>
             <div className="flex gap-2.5 flex-wrap">
-              {DEFAULT_SUBJECTS.map((sub) => (
+              {activeSubjects.map((sub) => (
                 <button
-                  key={sub.name}
-                  onClick={() => selectPreset(sub)}
+                  key={sub.id}
+                  onClick={() => selectSubject(sub)}
                   className={`flex items-center gap-2 px-4 py-2 rounded-xl border-[2px] transition-all duration-200 ${
-                    !isCustomSubject && selectedPreset.name === sub.name
-                      ? `${sub.color} border-current ring-2 ring-offset-1 ring-current/10`
+                    !isCustomSubject && selectedId === sub.id
+                      ? `${SUBJECT_COLORS[sub.color].chip} border-current ring-2 ring-offset-1 ring-current/10`
                       : 'bg-slate-50 border-transparent text-slate-500 hover:bg-slate-100'
                   }`}
                 >
-                  {sub.icon}
+                  <span className="text-base">{sub.emoji}</span>
                   <span className="font-bold text-base">{sub.name}</span>
                 </button>
               ))}
-              
+
               <button
-                onClick={() => setIsCustomSubject(true)}
+                onClick={() => { setIsCustomSubject(true); setCustomSubjectName(''); setNewTaskMinutes(defaultMinutes); }}
                 className={`flex items-center gap-2 px-4 py-2 rounded-xl border-[2px] transition-all duration-200 ${
                   isCustomSubject
                     ? 'bg-purple-100 text-purple-600 border-current ring-2 ring-offset-1 ring-current/10'
@@ -173,12 +193,48 @@ const TaskInput: React.FC<TaskInputProps> = ({ onTasksChange, tasks, onNext, isI
                </div>
              </div>
           </div>
+
+          {!isBreakSelected && (
+            <div className="space-y-2">
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Checklist (optional)</label>
+              {steps.length > 0 && (
+                <ul className="space-y-1.5">
+                  {steps.map((step, idx) => (
+                    <li key={idx} className="flex items-center gap-2 bg-slate-50 px-3 py-2 rounded-xl text-sm font-bold text-slate-600">
+                      <span className="w-4 h-4 rounded border-2 border-slate-200 shrink-0"></span>
+                      <span className="flex-1">{step}</span>
+                      <button onClick={() => setSteps(steps.filter((_, i) => i !== idx))} className="text-slate-300 hover:text-red-500">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  placeholder="E.g. Reading log, Vocabulary..."
+                  value={stepText}
+                  onChange={(e) => setStepText(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addStep()}
+                  className="flex-1 bg-slate-50 border-2 border-slate-100 text-slate-700 text-sm rounded-xl px-4 py-2 focus:outline-none focus:border-indigo-400 transition-all font-medium"
+                />
+                <button
+                  onClick={addStep}
+                  disabled={!stepText.trim()}
+                  className="px-3 rounded-xl text-indigo-600 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50 transition-all"
+                >
+                  <ListChecks className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="flex gap-3">
           <input
             type="text"
-            placeholder={!isCustomSubject && selectedPreset.name === 'Rest' ? "E.g. Snack, Stretch..." : "What needs to be done?"}
+            placeholder={!isCustomSubject && selectedSubject?.isBreak ? "E.g. Snack, Stretch..." : "What needs to be done?"}
             value={newTaskTitle}
             onChange={(e) => setNewTaskTitle(e.target.value)}
             onKeyDown={(e) => e.key === 'Enter' && handleAddTask()}
@@ -208,15 +264,22 @@ const TaskInput: React.FC<TaskInputProps> = ({ onTasksChange, tasks, onNext, isI
                         <span className="uppercase tracking-widest">{task.isBreak ? 'Break' : task.subject}</span>
                         <span>•</span>
                         <span>{task.estimatedMinutes} mins</span>
+                        {task.checklist && <><span>•</span><span>{task.checklist.length} steps</span></>}
                       </div>
                     </div>
                   </div>
-                  <button 
-                    onClick={() => removeTask(task.id)}
-                    className="text-slate-300 hover:text-red-500 p-2 opacity-0 group-hover:opacity-100 transition-all"
-                  >
-                    <X className="w-5 h-5" />
-                  </button>
+                  {canChangeTask(task, parentMode) ? (
+                    <button 
+                      onClick={() => removeTask(task.id)}
+                      className="text-slate-300 hover:text-red-500 p-2 opacity-0 group-hover:opacity-100 transition-all"
+                    >
+                      <X className="w-5 h-5" />
+                    </button>
+                  ) : (
+                    <span className="p-2 text-slate-300" title="Set by a grown-up">
+                      <Lock className="w-4 h-4" />
+                    </span>
+                  )}
                </div>
              ))}
            </div>
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { Pause, Play, Plus, Repeat, Trash2, X } from 'lucide-react';
+import { RecurrenceRule, Subject, TaskTemplate } from '../types';
+import { createTemplate, describeRule } from '../services/templates';
+
+interface TemplateManagerProps {
+  templates: TaskTemplate[];
+  onTemplatesChange: (templates: TaskTemplate[]) => void;
+  subjects: Subject[];
+  todayKey: string;
+  onClose: () => void;
+}
+
+type RuleKind = RecurrenceRule['kind'];
+
+const WEEKDAY_LETTERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const TemplateManager: React.FC<TemplateManagerProps> = ({ templates, onTemplatesChange, subjects, todayKey, onClose }) => {
+  const [title, setTitle] = useState('');
+  const subjectOptions = subjects.filter(s => !s.archived);
+  const [subject, setSubject] = useState(subjectOptions[0]?.name || '');
+  const [minutes, setMinutes] = useState(subjectOptions[0]?.defaultMinutes || 30);
+  const [ruleKind, setRuleKind] = useState<RuleKind>('weekdays');
+  const [weeklyDays, setWeeklyDays] = useState<number[]>([1, 3, 5]);
+  const [everyDays, setEveryDays] = useState(2);
+  const [startDate, setStartDate] = useState(todayKey);
+  const [endDate, setEndDate] = useState('');
+
+  const buildRule = (): RecurrenceRule => {
+    if (ruleKind === 'weekly') return { kind: 'weekly', days: weeklyDays };
+    if (ruleKind === 'interval') return { kind: 'interval', everyDays: Math.max(1, everyDays) };
+    return { kind: 'weekdays' };
+  };
+
+  const canSave = title.trim() && subject && minutes > 0 && (ruleKind !== 'weekly' || weeklyDays.length > 0) && (!endDate || endDate >= startDate);
+
+  const handleAdd = () => {
+    if (!canSave) return;
+    const entry = subjectOptions.find(s => s.name === subject);
+    const template = createTemplate({
+      title: title.trim(),
+      subject,
+      estimatedMinutes: minutes,
+      emoji: entry ? entry.emoji : '⚡',
+      isBreak: !!entry?.isBreak,
+      rule: buildRule(),
+      startDate,
+      endDate: endDate || undefined,
+    });
+    onTemplatesChange([...templates, template]);
+    setTitle('');
+  };
+
+  const toggleWeekday = (day: number) => {
+    setWeeklyDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+  };
+
+  const togglePaused = (id: string) => {
+    onTemplatesChange(templates.map(t => t.id === id ? { ...t, paused: !t.paused } : t));
+  };
+
+  const removeTemplate = (id: string) => {
+    onTemplatesChange(templates.filter(t => t.id !== id));
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 animate-fade-in pb-10">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800">Routines 🔁</h2>
+          <p className="text-slate-400 text-sm font-medium">Missions that show up by themselves</p>
+        </div>
+        <button onClick={onClose} className="p-3 bg-white hover:bg-slate-50 rounded-xl text-slate-300 transition-all border border-slate-100 shadow-sm">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-8">
+        <div className="bg-white rounded-[1.5rem] p-6 shadow-xl border border-sky-50 shadow-sky-100/50 space-y-5 h-fit">
+          <h3 className="text-xl font-bold text-slate-700">New Routine</h3>
+
+          <input
+            type="text"
+            placeholder="E.g. Math worksheet"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="w-full bg-slate-50 border-2 border-slate-100 text-slate-700 text-lg rounded-xl px-4 py-2.5 focus:outline-none focus:border-indigo-400 transition-all font-bold"
+          />
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Subject</label>
+              <select
+                value={subject}
+                onChange={(e) => {
+                  setSubject(e.target.value);
+                  const entry = subjectOptions.find(s => s.name === e.target.value);
+                  if (entry) setMinutes(entry.defaultMinutes);
+                }}
+                className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 font-bold text-slate-700"
+              >
+                {subjectOptions.map(s => <option key={s.id} value={s.name}>{s.emoji} {s.name}</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Minutes</label>
+              <input
+                type="number"
+                min="1"
+                max="480"
+                value={minutes || ''}
+                onChange={(e) => setMinutes(Math.min(Math.max(parseInt(e.target.value, 10) || 0, 0), 480))}
+                className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 font-bold text-indigo-600"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Repeats</label>
+            <div className="flex gap-2">
+              {([['weekdays', 'Weekdays'], ['weekly', 'Certain days'], ['interval', 'Every N days']] as [RuleKind, string][]).map(([kind, label]) => (
+                <button
+                  key={kind}
+                  onClick={() => setRuleKind(kind)}
+                  className={`flex-1 px-3 py-2 rounded-xl text-sm font-bold transition-all ${ruleKind === kind ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {ruleKind === 'weekly' && (
+              <div className="flex gap-2 pt-1">
+                {WEEKDAY_LETTERS.map((letter, day) => (
+                  <button
+                    key={day}
+                    onClick={() => toggleWeekday(day)}
+                    className={`w-10 h-10 rounded-xl text-sm font-black transition-all ${weeklyDays.includes(day) ? 'bg-indigo-100 text-indigo-600 ring-2 ring-indigo-300' : 'bg-slate-50 text-slate-400'}`}
+                  >
+                    {letter}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {ruleKind === 'interval' && (
+              <div className="flex items-center gap-3 pt-1 text-sm font-bold text-slate-500">
+                Every
+                <input
+                  type="number"
+                  min="1"
+                  max="60"
+                  value={everyDays}
+                  onChange={(e) => setEveryDays(parseInt(e.target.value, 10) || 1)}
+                  className="w-16 text-center bg-slate-50 border-2 border-slate-100 rounded-xl px-2 py-1.5 font-bold text-indigo-600"
+                />
+                days
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Starts</label>
+              <input type="date" value={startDate} onChange={(e) => e.target.value && setStartDate(e.target.value)} className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 font-bold text-slate-600" />
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Ends (optional)</label>
+              <input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 font-bold text-slate-600" />
+            </div>
+          </div>
+
+          <button
+            onClick={handleAdd}
+            disabled={!canSave}
+            className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-black py-3 rounded-xl transition-all active:scale-95 shadow-lg shadow-indigo-100"
+          >
+            <Plus className="w-5 h-5 stroke-[3]" /> Add Routine
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between px-2">
+            <h3 className="text-xl font-black text-slate-700 tracking-tight">Your Routines</h3>
+            <span className="bg-indigo-50 text-indigo-600 px-4 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest">{templates.filter(t => !t.paused).length} Active</span>
+          </div>
+
+          {templates.length === 0 && (
+            <div className="p-8 text-center text-slate-400 text-base font-medium italic bg-slate-50 rounded-2xl border-2 border-dashed border-slate-100">
+              No routines yet. Add the homework that comes back every week!
+            </div>
+          )}
+
+          {templates.map(template => (
+            <div key={template.id} className={`group rounded-2xl border-2 p-4 flex items-center gap-4 transition-all ${template.paused ? 'bg-slate-50 border-slate-100 opacity-60' : 'bg-white border-slate-50'}`}>
+              <div className="w-12 h-12 rounded-xl flex-shrink-0 flex items-center justify-center text-2xl bg-slate-50">{template.emoji}</div>
+              <div className="flex-1 min-w-0">
+                <h4 className="font-black text-base truncate text-slate-800">{template.title}</h4>
+                <p className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                  <Repeat className="w-3 h-3" /> {describeRule(template.rule)} • {template.estimatedMinutes}m
+                  {template.endDate && ` • until ${template.endDate}`}
+                </p>
+              </div>
+              <button
+                onClick={() => togglePaused(template.id)}
+                className="p-2 rounded-xl text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-all"
+                title={template.paused ? 'Resume' : 'Pause'}
+              >
+                {template.paused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+              </button>
+              <button
+                onClick={() => removeTemplate(template.id)}
+                className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl opacity-0 group-hover:opacity-100 transition-all"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateManager;
@@ -1,17 +1,57 @@
-import React, { useState, useEffect } from 'react';
-import { Play, Pause, CheckCircle, RotateCcw } from 'lucide-react';
-import { Task } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Play, Pause, CheckCircle, RotateCcw, Check, SkipForward } from 'lucide-react';
+import { ChecklistItem, ChimeMoment, PomodoroSettings, SoundSettings, Subject, Task, TimerMode, TimerSession } from '../types';
+import {
+  getElapsedSeconds, interruptSession, isSessionRunning, pauseSession, resetSession, resumeSession, setPauseReason
+} from '../services/timerSession';
+import { PAUSE_REASONS } from '../services/pauses';
+import { announceMoment } from '../services/chimes';
+import { advancePomodoro, getPomodoroState, isRestPhase, PHASE_LABELS, setSessionMode, skipPomodoroPhase, TIMER_MODE_LABELS } from '../services/timerModes';
+import { getMotivation, MotivationMoment } from '../services/motivation';
+import { findSubject, SUBJECT_COLORS } from '../services/subjects';
+import { getChecklistProgress, toggleChecklistItem } from '../services/checklist';
+import { getChainProgress } from '../services/autopilot';
+import AutopilotProgress from './AutopilotProgress';
+
+// How long the celebration stays up before heading back to the quest log
+const CELEBRATION_MS = 3500;
 
 interface TimerProps {
   task: Task;
+  session: TimerSession;
+  onSessionChange: (session: TimerSession) => void;
   onComplete: (task: Task, durationSeconds: number) => void;
   onBack: () => void;
+  onCancel: () => void;
+  childName: string;
+  nudges: boolean; // Halfway and overtime cheers
+  subjects: Subject[];
+  onChecklistChange: (checklist: ChecklistItem[]) => void;
+  pomodoro: PomodoroSettings;
+  onModeChange: (mode: TimerMode) => void;
+  sound: SoundSettings;
+  dayTasks: Task[]; // The day's missions, for the autopilot progress bar
 }
 
-const Timer: React.FC<TimerProps> = ({ task, onComplete, onBack }) => {
-  const [timeLeft, setTimeLeft] = useState(task.estimatedMinutes * 60);
-  const [isActive, setIsActive] = useState(false);
-  const [totalTimeSpent, setTotalTimeSpent] = useState(0);
+const Timer: React.FC<TimerProps> = ({
+  task, session, onSessionChange, onComplete, onBack, onCancel, childName, nudges, subjects, onChecklistChange, pomodoro, onModeChange, sound, dayTasks
+}) => {
+  // Only used to trigger re-renders; the elapsed time itself comes from the session timestamps
+  const [now, setNow] = useState(Date.now());
+  const [cheer, setCheer] = useState<string | null>(null);
+  const [celebration, setCelebration] = useState<{ message: string; seconds: number } | null>(null);
+  const shownMoments = useRef(new Set<MotivationMoment>());
+  // Filled in below, once the moments a resumed task is already past are known
+  const chimedMoments = useRef<Set<ChimeMoment> | null>(null);
+  const completed = useRef(false);
+
+  const isActive = isSessionRunning(session);
+  const totalTimeSpent = getElapsedSeconds(session, now);
+  const timeLeft = task.estimatedMinutes * 60 - totalTimeSpent;
+  // Breaks always count down; older saved sessions have no mode
+  const mode: TimerMode = task.isBreak ? 'countdown' : session.mode || 'countdown';
+  const phase = mode === 'pomodoro' ? getPomodoroState(session, task.estimatedMinutes, pomodoro, now) : null;
+  const isResting = !!phase && isRestPhase(phase.kind);
 
   const formatTime = (seconds: number) => {
     const absSeconds = Math.abs(seconds);
@@ -21,33 +61,182 @@ const Timer: React.FC<TimerProps> = ({ task, onComplete, onBack }) => {
     return `${sign}${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const isOvertime = timeLeft < 0;
-  const progress = isOvertime 
+  // Only a countdown can run over: Pomodoro fills the ring once per phase, the stopwatch once a minute
+  const isOvertime = mode === 'countdown' && timeLeft < 0;
+  const isPastHalfway = totalTimeSpent * 2 >= task.estimatedMinutes * 60;
+  const isFiveLeft = mode === 'countdown' && task.estimatedMinutes > 5 && timeLeft <= 5 * 60;
+  const isTimeUp = mode === 'countdown' && timeLeft <= 0;
+  let progress = isOvertime 
     ? 100 
     : ((task.estimatedMinutes * 60 - timeLeft) / (task.estimatedMinutes * 60)) * 100;
+  let clock = formatTime(timeLeft);
+  if (phase) {
+    const hasEnd = phase.phaseSeconds !== Infinity;
+    progress = hasEnd ? (phase.elapsedSeconds / phase.phaseSeconds) * 100 : 100;
+    clock = hasEnd ? formatTime(phase.phaseSeconds - phase.elapsedSeconds) : `+${formatTime(phase.elapsedSeconds)}`;
+  } else if (mode === 'stopwatch') {
+    progress = ((totalTimeSpent % 60) / 60) * 100;
+    clock = formatTime(totalTimeSpent);
+  }
+
+  if (!chimedMoments.current) {
+    chimedMoments.current = new Set<ChimeMoment>();
+    if (isPastHalfway) chimedMoments.current.add('halfway');
+    if (isFiveLeft) chimedMoments.current.add('five-left');
+    if (isTimeUp) chimedMoments.current.add(task.isBreak ? 'break-over' : 'time-up');
+  }
+
+  let statusLabel = isOvertime ? 'Finish now!' : isActive ? 'Focusing...' : 'Paused';
+  if (phase && isActive) {
+    if (isResting) statusLabel = 'Stretch & rest';
+    else statusLabel = phase.phaseSeconds === Infinity ? 'All rounds done!' : `Round ${phase.round} of ${phase.totalRounds}`;
+  } else if (mode === 'stopwatch' && isActive) {
+    statusLabel = 'Counting up';
+  }
 
   useEffect(() => {
     let interval: any = null;
     if (isActive) {
-      interval = setInterval(() => {
-        setTimeLeft((prev) => prev - 1);
-        setTotalTimeSpent((prev) => prev + 1);
-      }, 1000);
+      interval = setInterval(() => setNow(Date.now()), 1000);
     }
     return () => clearInterval(interval);
   }, [isActive]);
 
-  const handleToggle = () => setIsActive(!isActive);
+  // Catch up immediately when a sleeping tablet or background tab comes back
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') setNow(Date.now());
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  // Log each Pomodoro phase as it runs out and move on to the next
+  useEffect(() => {
+    if (mode !== 'pomodoro') return;
+    const next = advancePomodoro(session, task.estimatedMinutes, pomodoro, now);
+    if (next !== session) onSessionChange(next);
+  }, [now, mode]);
+
+  // Show the instant message, then swap in the AI one if it arrives
+  const showCheer = (moment: MotivationMoment) => {
+    if (shownMoments.current.has(moment)) return;
+    shownMoments.current.add(moment);
+    const { message, upgrade } = getMotivation(moment, task, childName);
+    setCheer(message);
+    upgrade.then(text => text && setCheer(text));
+  };
+
+  useEffect(() => {
+    if (!task.isBreak) showCheer('start');
+  }, [task.id]);
+
+  useEffect(() => {
+    if (!nudges || task.isBreak || !isActive) return;
+    if (isOvertime) showCheer('overtime');
+    else if (isPastHalfway) showCheer('halfway');
+  }, [nudges, isActive, isOvertime, isPastHalfway]);
+
+  const chime = (moment: ChimeMoment, message: string) => {
+    if (chimedMoments.current!.has(moment)) return;
+    chimedMoments.current!.add(moment);
+    announceMoment(moment, sound, message);
+  };
+
+  // Countdown milestones; Pomodoro rings on its phase changes instead
+  useEffect(() => {
+    if (!isActive) return;
+    if (isTimeUp) {
+      chime(task.isBreak ? 'break-over' : 'time-up', task.isBreak ? "Break's over, back to the quest log!" : `Time's up for ${task.title}!`);
+    } else if (isFiveLeft) {
+      chime('five-left', `5 minutes left on ${task.title}`);
+    } else if (isPastHalfway && !task.isBreak && mode !== 'pomodoro') {
+      chime('halfway', `Halfway through ${task.title}`);
+    }
+  }, [isActive, isTimeUp, isFiveLeft, isPastHalfway]);
+
+  const cycleCount = (session.cycles || []).length;
+  const lastCycleCount = useRef(cycleCount);
+
+  useEffect(() => {
+    const finished = (session.cycles || [])[cycleCount - 1];
+    if (mode === 'pomodoro' && cycleCount > lastCycleCount.current && finished) {
+      if (isRestPhase(finished.kind)) announceMoment('break-over', sound, `Break's over, back to ${task.title}!`);
+      else announceMoment('time-up', sound, phase && isRestPhase(phase.kind) ? 'Round done, time for a break!' : `All rounds done for ${task.title}!`);
+    }
+    lastCycleCount.current = cycleCount;
+  }, [cycleCount]);
+
+  const finish = (seconds: number) => {
+    if (completed.current) return;
+    completed.current = true;
+    onComplete(task, seconds);
+  };
+
+  // On autopilot a break ends by itself so the chain keeps moving
+  useEffect(() => {
+    if (session.chain && task.isBreak && isActive && isTimeUp) finish(totalTimeSpent);
+  }, [isActive, isTimeUp]);
+
+  useEffect(() => {
+    if (!celebration) return;
+    const timeout = setTimeout(() => finish(celebration.seconds), CELEBRATION_MS);
+    return () => clearTimeout(timeout);
+  }, [celebration?.seconds]);
+
+  const handleToggle = () => {
+    const timestamp = Date.now();
+    setNow(timestamp);
+    if (!isActive && totalTimeSpent === 0) announceMoment('start', sound, `${task.title} has started`);
+    onSessionChange(isActive ? interruptSession(session, timestamp) : resumeSession(session, timestamp));
+  };
 
   const handleFinish = () => {
-    setIsActive(false);
-    onComplete(task, totalTimeSpent);
+    const timestamp = Date.now();
+    const seconds = getElapsedSeconds(session, timestamp);
+    if (task.isBreak) {
+      finish(seconds);
+      return;
+    }
+
+    onSessionChange(pauseSession(session, timestamp));
+    const { message, upgrade } = getMotivation('finish', task, childName);
+    setCelebration({ message, seconds });
+    upgrade.then(text => text && setCelebration(prev => prev && { ...prev, message: text }));
+  };
+
+  const handleReset = () => {
+    setNow(Date.now());
+    onSessionChange(resetSession(session));
+  };
+
+  const handleModeChange = (nextMode: TimerMode) => {
+    onSessionChange(setSessionMode(session, nextMode));
+    onModeChange(nextMode);
   };
 
+  const handleSkipBreak = () => {
+    const timestamp = Date.now();
+    setNow(timestamp);
+    onSessionChange(skipPomodoroPhase(session, task.estimatedMinutes, pomodoro, timestamp));
+  };
+
+  // The stop the child is on right now, if they paused with the button
+  const openPause = (session.pauses || []).find(p => p.endedAt === undefined);
+  const pauseCount = (session.pauses || []).length;
+
   const isBreak = task.isBreak;
   let bgGradient = isBreak ? 'bg-gradient-to-br from-emerald-400 to-teal-500' : 'bg-gradient-to-br from-indigo-500 to-purple-600';
   let textColor = isBreak ? 'text-emerald-600' : 'text-indigo-600';
-  let strokeColor = isBreak ? '#34d399' : '#6366f1';
+  // The ring takes the subject's colour from the registry
+  const subjectColor = findSubject(subjects, task.subject)?.color;
+  let strokeColor = isBreak ? '#34d399' : subjectColor ? SUBJECT_COLORS[subjectColor].hex : '#6366f1';
+
+  if (isResting) {
+    bgGradient = 'bg-gradient-to-br from-emerald-400 to-teal-500';
+    textColor = 'text-emerald-600';
+    strokeColor = '#34d399';
+  }
 
   if (isOvertime) {
     bgGradient = 'bg-gradient-to-br from-red-500 to-rose-600';
@@ -61,20 +250,65 @@ const Timer: React.FC<TimerProps> = ({ task, onComplete, onBack }) => {
   const radius = (size - strokeWidth) / 2 - 10;
   const circumference = 2 * Math.PI * radius;
   const center = size / 2;
+  // Inner ring: how far through the checklist the child is
+  const innerRadius = radius - 22;
+  const innerCircumference = 2 * Math.PI * innerRadius;
+  const steps = getChecklistProgress(task);
 
   return (
     <div className="flex flex-col items-center justify-center w-full max-w-xl mx-auto p-4 animate-fade-in pb-10">
-      <div className={`w-full ${bgGradient} rounded-[2rem] p-8 text-white shadow-xl mb-10 relative overflow-hidden`}>
+      {session.chain && (
+        <div className="w-full mb-6">
+          <AutopilotProgress progress={getChainProgress(dayTasks, session.chain, session, now)} />
+        </div>
+      )}
+
+      {celebration && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-white/80 backdrop-blur-md animate-fade-in">
+          <div className="text-center space-y-6 max-w-md">
+            <span className="text-8xl block animate-bounce">🎉</span>
+            <h2 className="text-3xl font-black text-slate-800 leading-tight">{celebration.message}</h2>
+            <button
+              onClick={() => finish(celebration.seconds)}
+              className="bg-gradient-to-r from-emerald-400 to-teal-500 text-white text-lg font-black py-4 px-10 rounded-full shadow-xl shadow-emerald-100 transform transition hover:-translate-y-1 active:scale-95"
+            >
+              Next Mission 🚀
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className={`w-full ${bgGradient} rounded-[2rem] p-8 text-white shadow-xl ${cheer ? 'mb-6' : 'mb-10'} relative overflow-hidden`}>
         <div className="absolute top-0 right-0 -mr-8 -mt-8 w-32 h-32 rounded-full bg-white opacity-10 blur-xl"></div>
         <div className="relative z-10 text-center space-y-4">
           <div className="text-6xl mb-2 inline-block animate-bounce-slight">{task.emoji}</div>
           <h2 className="text-3xl font-black leading-tight">{task.title}</h2>
           <p className="text-white/80 font-black text-xs uppercase tracking-widest">
-            {isOvertime ? 'Overtime!' : task.subject}
+            {isOvertime ? 'Overtime!' : isResting ? PHASE_LABELS[phase!.kind] : task.subject}
           </p>
         </div>
       </div>
 
+      {cheer && (
+        <div className="w-full mb-8 bg-white border-2 border-indigo-50 rounded-2xl px-5 py-3 text-center text-slate-600 font-bold shadow-sm animate-fade-in">
+          {cheer}
+        </div>
+      )}
+
+      {!task.isBreak && !isActive && (
+        <div className="flex bg-slate-100 p-1 rounded-2xl mb-8">
+          {(Object.keys(TIMER_MODE_LABELS) as TimerMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => handleModeChange(option)}
+              className={`px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${mode === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+            >
+              {TIMER_MODE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="relative mb-10 w-64 h-64 sm:w-72 sm:h-72">
         <svg className="w-full h-full transform -rotate-90 drop-shadow-xl" viewBox={`0 0 ${size} ${size}`}>
           <circle cx={center} cy={center} r={radius} stroke="currentColor" strokeWidth={strokeWidth} fill="transparent" className="text-slate-100" />
@@ -90,17 +324,58 @@ const Timer: React.FC<TimerProps> = ({ task, onComplete, onBack }) => {
             strokeLinecap="round"
             className="transition-all duration-500 ease-linear"
           />
+          {steps.total > 0 && (
+            <>
+              <circle cx={center} cy={center} r={innerRadius} stroke="currentColor" strokeWidth={8} fill="transparent" className="text-slate-50" />
+              <circle
+                cx={center}
+                cy={center}
+                r={innerRadius}
+                stroke="#34d399"
+                strokeWidth={8}
+                fill="transparent"
+                strokeDasharray={innerCircumference}
+                strokeDashoffset={innerCircumference * (1 - steps.fraction)}
+                strokeLinecap="round"
+                className="transition-all duration-500"
+              />
+            </>
+          )}
         </svg>
         <div className="absolute top-0 left-0 w-full h-full flex flex-col items-center justify-center pointer-events-none">
           <span className={`text-5xl sm:text-6xl font-black ${textColor} tabular-nums tracking-tighter`}>
-            {formatTime(timeLeft)}
+            {clock}
           </span>
           <span className="text-slate-400 font-bold mt-2 text-sm uppercase tracking-widest">
-            {isOvertime ? 'Finish now!' : isActive ? 'Focusing...' : 'Paused'}
+            {statusLabel}
           </span>
+          {steps.total > 0 && (
+            <span className="text-emerald-500 font-black mt-1 text-xs uppercase tracking-widest">{steps.done}/{steps.total} steps</span>
+          )}
         </div>
       </div>
 
+      {task.checklist && task.checklist.length > 0 && (
+        <ul className="w-full mb-8 bg-white border-2 border-slate-50 rounded-2xl p-3 space-y-1 shadow-sm">
+          {task.checklist.map(item => (
+            <li key={item.id}>
+              <button
+                onClick={() => onChecklistChange(toggleChecklistItem(task.checklist!, item.id, getElapsedSeconds(session, Date.now())))}
+                className="w-full flex items-center gap-3 px-3 py-2 rounded-xl hover:bg-slate-50 transition-all text-left"
+              >
+                <span className={`w-6 h-6 rounded-lg border-2 flex items-center justify-center shrink-0 transition-all ${item.doneAt ? 'bg-emerald-400 border-emerald-400 text-white' : 'border-slate-200'}`}>
+                  {item.doneAt && <Check className="w-4 h-4 stroke-[3]" />}
+                </span>
+                <span className={`flex-1 font-bold ${item.doneAt ? 'text-slate-300 line-through' : 'text-slate-600'}`}>{item.text}</span>
+                {item.doneAtSeconds !== undefined && (
+                  <span className="text-xs font-bold text-slate-300 tabular-nums">{formatTime(item.doneAtSeconds)}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
       <div className="flex items-center gap-6">
         <button
           onClick={handleToggle}
@@ -118,19 +393,57 @@ const Timer: React.FC<TimerProps> = ({ task, onComplete, onBack }) => {
           <CheckCircle className="w-8 h-8 stroke-[3]" />
         </button>
 
-        {!isActive && timeLeft !== task.estimatedMinutes * 60 && !isOvertime && (
+        {isResting && (
+          <button
+            onClick={handleSkipBreak}
+            className="w-12 h-12 flex items-center justify-center rounded-2xl bg-slate-100 text-slate-400 hover:bg-slate-200 transition-colors"
+            title="Skip the break"
+          >
+            <SkipForward className="w-5 h-5 stroke-[3]" />
+          </button>
+        )}
+
+        {!isActive && totalTimeSpent > 0 && !isOvertime && (
            <button 
-             onClick={() => { setTimeLeft(task.estimatedMinutes * 60); setTotalTimeSpent(0); }}
+             onClick={handleReset}
              className="w-12 h-12 flex items-center justify-center rounded-2xl bg-slate-100 text-slate-400 hover:bg-slate-200 transition-colors"
            >
              <RotateCcw className="w-5 h-5 stroke-[3]" />
            </button>
         )}
       </div>
+
+      {openPause && (
+        <div className="w-full mt-8 bg-white border-2 border-slate-50 rounded-2xl p-4 shadow-sm animate-fade-in">
+          <p className="text-xs font-black text-slate-400 uppercase tracking-widest text-center mb-3">Why the stop?</p>
+          <div className="flex flex-wrap justify-center gap-2">
+            {PAUSE_REASONS.map(reason => (
+              <button
+                key={reason}
+                onClick={() => onSessionChange(setPauseReason(session, reason))}
+                className={`px-4 py-2 rounded-xl font-bold text-sm transition-all ${openPause.reason === reason ? 'bg-amber-100 text-amber-700' : 'bg-slate-50 text-slate-600 hover:bg-slate-100'}`}
+              >
+                {reason}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {pauseCount > 0 && (
+        <p className="mt-4 text-[10px] font-black text-slate-300 uppercase tracking-widest">
+          Paused {pauseCount} {pauseCount === 1 ? 'time' : 'times'}
+        </p>
+      )}
       
-      <button onClick={onBack} className="mt-8 text-slate-400 hover:text-slate-600 text-[10px] font-black uppercase tracking-widest transition-colors">
-        Cancel Session
-      </button>
+      <div className="mt-8 flex items-center gap-6">
+        <button onClick={onBack} className="text-slate-400 hover:text-slate-600 text-[10px] font-black uppercase tracking-widest transition-colors">
+          Back to Quest Log
+        </button>
+        <button onClick={onCancel} className="text-slate-300 hover:text-red-500 text-[10px] font-black uppercase tracking-widest transition-colors">
+          Cancel Session
+        </button>
+      </div>
     </div>
   );
 };
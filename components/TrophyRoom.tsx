@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { ChevronDown, Flame, Lock, RotateCcw, Star, Trophy, X } from 'lucide-react';
+import { BadgeCriterion, RewardRules, RewardState } from '../types';
+import {
+  DEFAULT_REWARD_RULES, describeCriterion, getCriterionTarget, LedgerEntry, PointsBalance, RewardSummary, setCriterionTarget
+} from '../services/rewards';
+import { fromDateKey } from '../services/dates';
+import RewardShop from './RewardShop';
+import PointsLedger from './PointsLedger';
+
+interface TrophyRoomProps {
+  summary: RewardSummary;
+  rewards: RewardState;
+  ledger: LedgerEntry[];
+  balance: PointsBalance;
+  spendableWith: (rules: RewardRules) => number; // Points left after approved rewards under the given rules
+  childName: string;
+  parentMode: boolean;
+  withParentMode: (action: () => void) => void; // Runs the action in parent mode, asking for the PIN if needed
+  onRewardsChange: (rewards: RewardState) => void;
+  onClose: () => void;
+}
+
+type TrophyTab = 'trophies' | 'shop' | 'points';
+
+const TABS: { value: TrophyTab; label: string }[] = [
+  { value: 'trophies', label: '🏆 Trophies' },
+  { value: 'shop', label: '🛍️ Shop' },
+  { value: 'points', label: '⭐ Points' },
+];
+
+const POINT_FIELDS: { key: 'pointsPerMission' | 'onTimeBonus' | 'breakBonus' | 'streakDayBonus'; label: string }[] = [
+  { key: 'pointsPerMission', label: 'Per finished mission' },
+  { key: 'onTimeBonus', label: 'Bonus for finishing in time' },
+  { key: 'breakBonus', label: 'Per break taken' },
+  { key: 'streakDayBonus', label: 'Per streak day' },
+];
+
+const TARGET_UNITS: Record<BadgeCriterion['kind'], string> = {
+  'streak': 'days',
+  'subject-minutes': 'minutes',
+  'missions': 'missions',
+  'on-time': 'missions',
+  'points': 'points',
+};
+
+const formatDay = (dateKey: string) =>
+  fromDateKey(dateKey).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const TrophyRoom: React.FC<TrophyRoomProps> = ({
+  summary, rewards, ledger, balance, spendableWith, childName, parentMode, withParentMode, onRewardsChange, onClose
+}) => {
+  const [tab, setTab] = useState<TrophyTab>('trophies');
+  const [showRules, setShowRules] = useState(false);
+  const [rulesError, setRulesError] = useState<string | null>(null);
+
+  const { rules, unlockedBadges } = rewards;
+  // Approved rewards keep their cost, so rules can't shrink the points already spent on them
+  const onRulesChange = (nextRules: RewardRules) => {
+    const spendable = spendableWith(nextRules);
+    if (spendable < 0 && spendable < spendableWith(rules)) {
+      setRulesError(`That would leave ${childName || 'your child'} ${-spendable} points short for rewards already approved.`);
+      return;
+    }
+    setRulesError(null);
+    onRewardsChange({ ...rewards, rules: nextRules });
+  };
+
+  // The rules fold away again when parent mode ends
+  const isRulesOpen = showRules && parentMode;
+  const earnedCount = summary.badges.filter(b => b.earned).length;
+  const recentDays = Object.keys(summary.pointsByDay).sort().slice(-7).reverse();
+
+  const updateBadgeTarget = (badgeId: string, target: number) => {
+    onRulesChange({
+      ...rules,
+      badges: rules.badges.map(b => b.id === badgeId ? { ...b, criterion: setCriterionTarget(b.criterion, Math.max(1, target)) } : b),
+    });
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 animate-fade-in pb-10">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800">Trophy Room 🏆</h2>
+          <p className="text-slate-400 text-sm font-medium">Everything {childName} has earned so far</p>
+        </div>
+        <button onClick={onClose} className="p-3 bg-white hover:bg-slate-50 rounded-xl text-slate-300 transition-all border border-slate-100 shadow-sm">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-6">
+        {TABS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setTab(option.value)}
+            className={`flex-1 py-2.5 rounded-xl text-sm font-black transition-all ${tab === option.value ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-100' : 'bg-white text-slate-500 hover:bg-slate-50 border border-slate-100'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'shop' && (
+        <RewardShop
+          shop={rewards.shop}
+          redemptions={rewards.redemptions}
+          balance={balance}
+          onShopChange={(shop) => onRewardsChange({ ...rewards, shop })}
+          onRedemptionsChange={(redemptions) => onRewardsChange({ ...rewards, redemptions })}
+          parentMode={parentMode}
+          requireParent={withParentMode}
+        />
+      )}
+
+      {tab === 'points' && <PointsLedger ledger={ledger} balance={balance} />}
+
+      {tab === 'trophies' && (
+        <>
+          {summary.awaitingSignOffCount > 0 && (
+            <div className="mb-6 p-4 rounded-2xl bg-amber-50 border-2 border-amber-100 text-amber-700 text-sm font-bold">
+              ⏳ {summary.awaitingSignOffCount} {summary.awaitingSignOffCount === 1 ? 'mission is' : 'missions are'} awaiting sign-off. The points arrive once a grown-up approves {summary.awaitingSignOffCount === 1 ? 'it' : 'them'}.
+            </div>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {[
+              { label: 'Points', value: balance.available, icon: <Star className="w-5 h-5 text-amber-400 fill-amber-400" /> },
+              { label: 'Streak', value: `${summary.currentStreak}d`, icon: <Flame className="w-5 h-5 text-orange-500" /> },
+              { label: 'Best Streak', value: `${summary.longestStreak}d`, icon: <Flame className="w-5 h-5 text-slate-300" /> },
+              { label: 'Badges', value: `${earnedCount}/${summary.badges.length}`, icon: <Trophy className="w-5 h-5 text-indigo-500" /> },
+            ].map(card => (
+              <div key={card.label} className="bg-white rounded-2xl p-5 border-2 border-slate-50 shadow-sm">
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-1.5">{card.icon} {card.label}</p>
+                <p className="text-3xl font-black text-slate-800 mt-1">{card.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-[1.5rem] p-6 shadow-xl border border-sky-50 shadow-sky-100/50 mb-6">
+            <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-4">Badges</h3>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {summary.badges.map(({ badge, current, target, earned }) => (
+                <div
+                  key={badge.id}
+                  className={`p-4 rounded-2xl border-2 transition-all ${earned ? 'border-amber-100 bg-amber-50' : 'border-slate-50 bg-slate-50'}`}
+                >
+                  <div className="flex items-start justify-between">
+                    <span className={`text-4xl ${earned ? '' : 'grayscale opacity-40'}`}>{badge.emoji}</span>
+                    {!earned && <Lock className="w-4 h-4 text-slate-300" />}
+                  </div>
+                  <p className={`font-black mt-2 ${earned ? 'text-slate-800' : 'text-slate-400'}`}>{badge.name}</p>
+                  <p className="text-xs font-medium text-slate-400">{describeCriterion(badge.criterion)}</p>
+                  {earned ? (
+                    <p className="text-[10px] font-black uppercase tracking-widest text-amber-500 mt-2">
+                      {unlockedBadges[badge.id] ? `Earned ${formatDay(unlockedBadges[badge.id])}` : 'Earned'}
+                    </p>
+                  ) : (
+                    <div className="mt-2">
+                      <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                        <div className="h-full bg-indigo-400 rounded-full" style={{ width: `${Math.min(100, (current / target) * 100)}%` }}></div>
+                      </div>
+                      <p className="text-[10px] font-bold text-slate-400 mt-1">{current} / {target}</p>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {recentDays.length > 0 && (
+            <div className="bg-white rounded-[1.5rem] p-6 shadow-xl border border-sky-50 shadow-sky-100/50 mb-6">
+              <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3">Recent Days</h3>
+              <ul className="space-y-2">
+                {recentDays.map(dateKey => (
+                  <li key={dateKey} className="flex items-center justify-between text-sm">
+                    <span className="font-bold text-slate-600">{formatDay(dateKey)}</span>
+                    <span className="font-black text-amber-500">+{summary.pointsByDay[dateKey]} ⭐</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="bg-white rounded-[1.5rem] shadow-xl border border-sky-50 shadow-sky-100/50">
+            <button onClick={() => isRulesOpen ? setShowRules(false) : withParentMode(() => setShowRules(true))} className="w-full flex items-center justify-between p-6">
+              <span className="text-xs font-black text-slate-400 uppercase tracking-widest">Rules (for parents)</span>
+              <ChevronDown className={`w-5 h-5 text-slate-300 transition-transform ${isRulesOpen ? 'rotate-180' : ''}`} />
+            </button>
+
+            {isRulesOpen && (
+              <div className="px-6 pb-6 space-y-6">
+                {rulesError && (
+                  <p className="text-xs font-bold text-rose-600 bg-rose-50 rounded-xl p-3">{rulesError}</p>
+                )}
+                <div className="grid sm:grid-cols-2 gap-3">
+                  {POINT_FIELDS.map(field => (
+                    <label key={field.key} className="flex items-center justify-between gap-3 bg-slate-50 p-3 rounded-xl">
+                      <span className="text-sm font-bold text-slate-600">{field.label}</span>
+                      <input
+                        type="number"
+                        min="0"
+                        value={rules[field.key]}
+                        onChange={(e) => onRulesChange({ ...rules, [field.key]: Math.max(0, Number(e.target.value) || 0) })}
+                        className="w-20 bg-white border-2 border-slate-100 rounded-lg px-2 py-1 font-bold text-slate-700 text-right"
+                      />
+                    </label>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-xs font-black text-slate-400 uppercase tracking-widest">Badge goals</p>
+                  {rules.badges.map(badge => (
+                    <label key={badge.id} className="flex items-center gap-3 bg-slate-50 p-3 rounded-xl">
+                      <span className="text-xl">{badge.emoji}</span>
+                      <span className="flex-1 text-sm font-bold text-slate-600">{badge.name}</span>
+                      <input
+                        type="number"
+                        min="1"
+                        value={getCriterionTarget(badge.criterion)}
+                        onChange={(e) => updateBadgeTarget(badge.id, Number(e.target.value) || 1)}
+                        className="w-24 bg-white border-2 border-slate-100 rounded-lg px-2 py-1 font-bold text-slate-700 text-right"
+                      />
+                      <span className="w-16 text-xs font-bold text-slate-400">{TARGET_UNITS[badge.criterion.kind]}</span>
+                    </label>
+                  ))}
+                </div>
+
+                <button
+                  onClick={() => onRulesChange(DEFAULT_REWARD_RULES)}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold text-slate-500 hover:bg-slate-50 transition-all"
+                >
+                  <RotateCcw className="w-4 h-4" /> Reset to defaults
+                </button>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TrophyRoom;
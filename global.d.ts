@@ -0,0 +1,5 @@
+// Browser globals the DOM lib does not declare
+
+interface Window {
+  webkitAudioContext?: typeof AudioContext; // Older Safari
+}
@@ -0,0 +1,68 @@
+import { AIConfig, AIProviderKind } from "../types";
+import { AIProvider, resolveApiKey } from "./aiProvider";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import { createMockProvider } from "./mockAI";
+import { readRecord, writeRecords } from "./storage";
+
+// Shared by every profile on this device
+const AI_CONFIG_KEY = 'ai_config';
+
+export const DEFAULT_MODELS: Record<AIProviderKind, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'llama3.1',
+  mock: 'mock',
+};
+
+export const DEFAULT_AI_CONFIG: AIConfig = {
+  provider: 'gemini',
+  model: DEFAULT_MODELS.gemini,
+  endpoint: 'http://localhost:11434/v1',
+  apiKey: '',
+  timeoutMs: 20000,
+};
+
+export const loadAIConfig = async (): Promise<AIConfig> => ({
+  ...DEFAULT_AI_CONFIG,
+  ...(await readRecord<Partial<AIConfig>>(AI_CONFIG_KEY, {})),
+});
+
+export const saveAIConfig = (config: AIConfig) =>
+  writeRecords({ [AI_CONFIG_KEY]: config }, [], 'save AI settings');
+
+export const isAIConfigured = (config: AIConfig) => {
+  switch (config.provider) {
+    case 'gemini':
+      return Boolean(resolveApiKey(config));
+    case 'openai':
+      return Boolean(config.endpoint);
+    case 'mock':
+      return true;
+  }
+};
+
+export const getAIProvider = (config: AIConfig): AIProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(config);
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(config);
+  }
+};
+
+/**
+ * Gets a motivational message based on progress.
+ */
+export const getMotivationalMessage = async (
+  taskTitle: string,
+  isComplete: boolean
+): Promise<string> => {
+  try {
+    return await getAIProvider(await loadAIConfig()).getMotivationalMessage(taskTitle, isComplete);
+  } catch (error) {
+    return "Good job! Keep going! 🚀";
+  }
+};
@@ -0,0 +1,42 @@
+import { AIConfig, AIProviderKind, Task } from "../types";
+
+/**
+ * Everything the app asks of a language model goes through this interface,
+ * so providers can be swapped from the settings screen.
+ */
+export interface AIProvider {
+  kind: AIProviderKind;
+  // Raw schedule response; run it through parseScheduleResponse before use
+  generateSchedule: (tasks: Partial<Task>[], availableTimeMinutes?: number, hardSubjects?: string[]) => Promise<unknown>;
+  getMotivationalMessage: (taskTitle: string, isComplete: boolean) => Promise<string>;
+  // Free-form prompt for future features
+  complete: (prompt: string) => Promise<string>;
+}
+
+// A key typed into settings wins over one baked in at build time
+export const resolveApiKey = (config: AIConfig) => config.apiKey || process.env.API_KEY || '';
+
+export const withTimeout = <T,>(promise: Promise<T>, timeoutMs: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`AI request timed out after ${timeoutMs}ms`)), timeoutMs);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+export const buildSchedulePrompt = (tasks: Partial<Task>[], availableTimeMinutes?: number, hardSubjects?: string[]) => `
+    I have a list of homework tasks for a child. 
+    Please organize them into a logical schedule. 
+    If the total time is long (over 45 minutes), insert short 5-10 minute "Break" items between hard subjects.
+    Try to alternate between subjects if possible.
+    Assign a fun emoji to each task.
+    
+    Current Tasks: ${JSON.stringify(tasks)}
+    ${availableTimeMinutes ? `Total Available Time: ${availableTimeMinutes} minutes` : ''}
+    ${hardSubjects && hardSubjects.length > 0 ? `Hard Subjects: ${hardSubjects.join(', ')}` : ''}
+  `;
+
+export const buildMotivationPrompt = (taskTitle: string, isComplete: boolean) => isComplete
+  ? `Give a short, super enthusiastic high-five message for a child who just finished their "${taskTitle}" homework! Max 20 words. Use emojis.`
+  : `Give a gentle, encouraging nudge for a child starting their "${taskTitle}" homework. Max 15 words. Use emojis.`;
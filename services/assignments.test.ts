@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { Assignment, Task, TaskStatus } from "../types";
+import { applyAssignmentPlan, getAssignmentProgress, planAssignment } from "./assignments";
+
+const assignment: Assignment = {
+  id: "assignment-1",
+  title: "Volcano poster",
+  subject: "Science",
+  emoji: "🌋",
+  dueDate: "2026-03-06",
+  totalMinutes: 90,
+  createdAt: 0,
+};
+
+const chunk = (id: string, minutes: number, status: TaskStatus): Task =>
+  ({ id, title: assignment.title, subject: "Science", estimatedMinutes: minutes, status, assignmentId: assignment.id });
+
+const history: Record<string, Task[]> = {
+  "2026-03-02": [chunk("a", 30, TaskStatus.COMPLETED)],
+  "2026-03-03": [chunk("b", 30, TaskStatus.SKIPPED)],
+};
+
+const plan = (includeSkipped: boolean) =>
+  planAssignment(assignment, history, dateKey => history[dateKey] || [], () => 120, "2026-03-04", includeSkipped);
+
+describe("assignments", () => {
+  it("does not count skipped chunks as remaining work", () => {
+    expect(getAssignmentProgress(assignment, history)).toMatchObject({ doneMinutes: 30, skippedMinutes: 30, remainingMinutes: 30 });
+    expect(plan(false).chunks.reduce((acc, c) => acc + c.minutes, 0)).toBe(30);
+  });
+
+  it("plans skipped work again only when asked, replacing the skipped chunks", () => {
+    const { chunks } = plan(true);
+    expect(chunks.reduce((acc, c) => acc + c.minutes, 0)).toBe(60);
+
+    const next = applyAssignmentPlan(history, assignment, chunks, dateKey => history[dateKey] || [], true);
+    expect(next["2026-03-03"]).toEqual([]);
+    const progress = getAssignmentProgress(assignment, next);
+    expect(progress).toMatchObject({ skippedMinutes: 0, remainingMinutes: 60 });
+    expect(progress.planned.reduce((acc, c) => acc + c.minutes, 0)).toBe(60);
+  });
+});
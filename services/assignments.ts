@@ -0,0 +1,161 @@
+import { Assignment, Task, TaskStatus } from "../types";
+import { getCommittedMinutes } from "./availability";
+import { isHandedIn } from "./parentMode";
+import { shiftDateKey } from "./dates";
+
+const CHUNK_STEP_MINUTES = 5;
+const MIN_CHUNK_MINUTES = 10;
+
+export interface AssignmentChunk {
+  dateKey: string;
+  minutes: number;
+}
+
+export interface AssignmentPlan {
+  chunks: AssignmentChunk[];
+  overflowMinutes: number; // Work that didn't fit in the free time before the due date
+}
+
+export const createAssignment = (fields: Omit<Assignment, 'id' | 'createdAt'>): Assignment => ({
+  ...fields,
+  id: `assignment-${Date.now()}`,
+  createdAt: Date.now(),
+});
+
+const roundUp = (minutes: number) => Math.ceil(minutes / CHUNK_STEP_MINUTES) * CHUNK_STEP_MINUTES;
+const roundDown = (minutes: number) => Math.floor(minutes / CHUNK_STEP_MINUTES) * CHUNK_STEP_MINUTES;
+
+/**
+ * Finished minutes count as done; a chunk with the timer running is left where
+ * it is and counts as under way. Skipped chunks are not remaining work: they
+ * are only planned again when a parent asks for it.
+ */
+export const getAssignmentProgress = (assignment: Assignment, history: Record<string, Task[]>) => {
+  let doneMinutes = 0;
+  let activeMinutes = 0;
+  let skippedMinutes = 0;
+  const planned: AssignmentChunk[] = [];
+
+  Object.entries(history).forEach(([dateKey, tasks]) => tasks.forEach(task => {
+    if (task.assignmentId !== assignment.id) return;
+    if (isHandedIn(task)) doneMinutes += task.estimatedMinutes;
+    else if (task.status === TaskStatus.ACTIVE) activeMinutes += task.estimatedMinutes;
+    else if (task.status === TaskStatus.SKIPPED) skippedMinutes += task.estimatedMinutes;
+    if (task.status === TaskStatus.PENDING || task.status === TaskStatus.ACTIVE) planned.push({ dateKey, minutes: task.estimatedMinutes });
+  }));
+
+  return {
+    doneMinutes,
+    skippedMinutes,
+    remainingMinutes: Math.max(0, assignment.totalMinutes - doneMinutes - activeMinutes - skippedMinutes),
+    planned: planned.sort((a, b) => a.dateKey.localeCompare(b.dateKey)),
+  };
+};
+
+/**
+ * Days to work on an assignment: today up to the day before it is due.
+ * Work due today or already overdue all lands on today.
+ */
+export const getPlanningDays = (dueDate: string, todayKey: string) => {
+  const days: string[] = [];
+  for (let key = todayKey; key < dueDate; key = shiftDateKey(key, 1)) days.push(key);
+  return days.length > 0 ? days : [todayKey];
+};
+
+/**
+ * Spreads what is left of an assignment over the days before it is due,
+ * within the time each day still has free. An even share comes first so the
+ * work doesn't pile up on the first day; whatever fits nowhere goes on the
+ * last day and shows up as overflow. Skipped work is added back only with
+ * `includeSkipped`.
+ */
+export const planAssignment = (
+  assignment: Assignment,
+  history: Record<string, Task[]>,
+  dayTasksFor: (dateKey: string) => Task[],
+  availableMinutesFor: (dateKey: string) => number,
+  todayKey: string,
+  includeSkipped = false
+): AssignmentPlan => {
+  const days = getPlanningDays(assignment.dueDate, todayKey);
+  const progress = getAssignmentProgress(assignment, history);
+  let left = roundUp(progress.remainingMinutes + (includeSkipped ? progress.skippedMinutes : 0));
+  const free = days.map(dateKey => {
+    const others = dayTasksFor(dateKey).filter(t => t.assignmentId !== assignment.id || t.status === TaskStatus.ACTIVE);
+    return Math.max(0, roundDown(availableMinutesFor(dateKey) - getCommittedMinutes(others)));
+  });
+  const minutes = days.map(() => 0);
+
+  const fill = (index: number, limit: number) => {
+    const amount = Math.min(limit, free[index] - minutes[index], left);
+    // Skip slivers unless they finish the job on a day that already has a chunk
+    if (amount < MIN_CHUNK_MINUTES && !(amount === left && minutes[index] > 0)) return;
+    minutes[index] += amount;
+    left -= amount;
+  };
+
+  const share = roundUp(left / days.length);
+  days.forEach((_, i) => fill(i, share));
+  days.forEach((_, i) => fill(i, Infinity));
+
+  const overflowMinutes = left;
+  minutes[minutes.length - 1] += left;
+
+  return {
+    chunks: days.map((dateKey, i) => ({ dateKey, minutes: minutes[i] })).filter(c => c.minutes > 0),
+    overflowMinutes,
+  };
+};
+
+const isOpenChunk = (task: Task, assignmentId: string, withSkipped = false) =>
+  task.assignmentId === assignmentId &&
+  (task.status === TaskStatus.PENDING || (withSkipped && task.status === TaskStatus.SKIPPED));
+
+/**
+ * Takes an assignment's open chunks off every day, e.g. when it is deleted.
+ * Finished work stays in history; untouched days keep their identity.
+ * `withSkipped` also clears skipped chunks whose work is being planned again.
+ */
+export const removeAssignmentChunks = (history: Record<string, Task[]>, assignmentId: string, withSkipped = false) => {
+  const next: Record<string, Task[]> = {};
+  Object.entries(history).forEach(([dateKey, tasks]) => {
+    next[dateKey] = tasks.some(t => isOpenChunk(t, assignmentId, withSkipped))
+      ? tasks.filter(t => !isOpenChunk(t, assignmentId, withSkipped))
+      : tasks;
+  });
+  return next;
+};
+
+/**
+ * Swaps an assignment's open chunks for a new plan. Finished chunks and one
+ * with the timer running stay put; days opened for the first time keep their
+ * routines. With `includeSkipped` the plan carries the skipped work, so the
+ * skipped chunks make way for it.
+ */
+export const applyAssignmentPlan = (
+  history: Record<string, Task[]>,
+  assignment: Assignment,
+  chunks: AssignmentChunk[],
+  dayTasksFor: (dateKey: string) => Task[],
+  includeSkipped = false
+) => {
+  const next = removeAssignmentChunks(history, assignment.id, includeSkipped);
+  const stamp = Date.now();
+
+  chunks.forEach((chunk, index) => {
+    const base = next[chunk.dateKey] || dayTasksFor(chunk.dateKey).filter(t => !isOpenChunk(t, assignment.id, includeSkipped));
+    next[chunk.dateKey] = [...base, {
+      id: `${assignment.id}-${stamp}-${index}`,
+      title: chunks.length > 1 ? `${assignment.title} (${index + 1}/${chunks.length})` : assignment.title,
+      subject: assignment.subject,
+      estimatedMinutes: chunk.minutes,
+      status: TaskStatus.PENDING,
+      emoji: assignment.emoji,
+      assignmentId: assignment.id,
+      dueDate: assignment.dueDate,
+      parentAssigned: assignment.parentAssigned,
+    }];
+  });
+
+  return next;
+};
@@ -0,0 +1,58 @@
+import { Task, TaskStatus, TimerSession } from "../types";
+import { getElapsedSeconds } from "./timerSession";
+import { isHandedIn } from "./parentMode";
+
+// Seconds the handoff counts down before the next item starts by itself
+export const HANDOFF_SECONDS = 10;
+
+// Minutes a break grows by each time it's extended
+export const EXTEND_BREAK_MINUTES = 5;
+
+/**
+ * The open missions and breaks of a day, to be run back to back.
+ */
+export const buildChain = (tasks: Task[]) =>
+  tasks.filter(t => t.status === TaskStatus.PENDING || t.status === TaskStatus.ACTIVE).map(t => t.id);
+
+/**
+ * The next item of the chain still waiting, taken in the quest log's current
+ * order so reordering mid-run is respected.
+ */
+export const getNextInChain = (tasks: Task[], chain: string[]) =>
+  tasks.find(t => chain.includes(t.id) && (t.status === TaskStatus.PENDING || t.status === TaskStatus.ACTIVE)) || null;
+
+export interface ChainProgress {
+  step: number; // 1-based item the child is on
+  steps: number;
+  fraction: number;
+  minutesLeft: number;
+}
+
+/**
+ * How far through the chain the child is, weighting each item by its planned
+ * minutes. The item on the timer counts the time spent on it so far.
+ */
+export const getChainProgress = (tasks: Task[], chain: string[], session: TimerSession | null, now: number = Date.now()): ChainProgress => {
+  const items = tasks.filter(t => chain.includes(t.id) && t.status !== TaskStatus.SKIPPED);
+  let totalSeconds = 0;
+  let doneSeconds = 0;
+  let finished = 0;
+
+  items.forEach(t => {
+    const planned = t.estimatedMinutes * 60;
+    totalSeconds += planned;
+    if (isHandedIn(t)) {
+      doneSeconds += planned;
+      finished++;
+    } else if (session?.taskId === t.id) {
+      doneSeconds += Math.min(planned, getElapsedSeconds(session, now));
+    }
+  });
+
+  return {
+    step: Math.min(items.length, finished + 1),
+    steps: items.length,
+    fraction: totalSeconds > 0 ? doneSeconds / totalSeconds : 0,
+    minutesLeft: Math.ceil((totalSeconds - doneSeconds) / 60),
+  };
+};
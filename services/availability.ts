@@ -0,0 +1,130 @@
+import { AvailabilityWindow, ProfileSettings, Task, TaskStatus } from "../types";
+import { getTodayKey, getWeekdayOfKey } from "./dates";
+import { isHandedIn } from "./parentMode";
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const createWindow = (): AvailabilityWindow => ({ start: '16:00', end: '18:30', blocked: [] });
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Minutes since midnight for an 'HH:MM' clock time.
+ */
+export const parseClock = (clock: string) => {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// Plans that run past midnight wrap round to the next day's clock
+export const formatClock = (minutes: number) => {
+  const wrapped = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${pad(Math.floor(wrapped / 60))}:${pad(wrapped % 60)}`;
+};
+
+/**
+ * Blocked-out times inside a window, in order, with overlaps merged so no
+ * minute is taken off twice.
+ */
+const getBlockedRanges = (window: AvailabilityWindow) => {
+  const windowStart = parseClock(window.start);
+  const windowEnd = parseClock(window.end);
+  const ranges = window.blocked
+    .map(b => ({ start: Math.max(windowStart, parseClock(b.start)), end: Math.min(windowEnd, parseClock(b.end)), label: b.label }))
+    .filter(r => r.end > r.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: typeof ranges = [];
+  ranges.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      merged[merged.length - 1] = { ...last, end: Math.max(last.end, range.end), label: `${last.label}, ${range.label}` };
+    } else {
+      merged.push(range);
+    }
+  });
+  return merged;
+};
+
+/**
+ * Free minutes in a window from `fromMinutes` on, blocked-out times excluded.
+ */
+export const getWindowMinutes = (window: AvailabilityWindow, fromMinutes = 0) => {
+  const start = Math.max(parseClock(window.start), fromMinutes);
+  const end = parseClock(window.end);
+  if (end <= start) return 0;
+  const blocked = getBlockedRanges(window)
+    .reduce((sum, r) => sum + Math.max(0, Math.min(end, r.end) - Math.max(start, r.start)), 0);
+  return end - start - blocked;
+};
+
+export const getDayWindow = (settings: ProfileSettings, dateKey: string) =>
+  settings.weekdayWindows[getWeekdayOfKey(dateKey)] || null;
+
+/**
+ * Where planning starts on a day: now for today, so hours already gone aren't
+ * counted, and the start of the day otherwise.
+ */
+export const getPlanningStart = (dateKey: string) => {
+  if (dateKey !== getTodayKey()) return 0;
+  const now = new Date();
+  return now.getHours() * 60 + now.getMinutes();
+};
+
+/**
+ * Minutes of homework time a child has on a given day: the weekday's set hours
+ * if it has them, otherwise the plain daily budget.
+ */
+export const getAvailableMinutes = (settings: ProfileSettings, dateKey: string, fromMinutes = 0) => {
+  const window = getDayWindow(settings, dateKey);
+  return window ? getWindowMinutes(window, fromMinutes) : settings.dailyMinutes;
+};
+
+// Minutes still to do on a day: finished and skipped missions no longer take time
+export const getCommittedMinutes = (tasks: Task[]) =>
+  tasks
+    .filter(t => !isHandedIn(t) && t.status !== TaskStatus.SKIPPED)
+    .reduce((sum, t) => sum + t.estimatedMinutes, 0);
+
+/**
+ * How far a day's open missions run past the time available, or 0.
+ */
+export const getOvercommitMinutes = (tasks: Task[], availableMinutes: number) =>
+  Math.max(0, getCommittedMinutes(tasks) - availableMinutes);
+
+export interface ClockSlot {
+  start: number; // Minutes since midnight
+  end: number;
+  pausedFor: string[]; // Blocked-out times the mission runs across
+}
+
+/**
+ * Clock times for missions done back to back inside a window. Work stops for
+ * blocked-out times and picks up after them, and anything that doesn't fit
+ * simply runs on past the end.
+ */
+export const planClockTimes = (tasks: Task[], window: AvailabilityWindow, fromMinutes = 0) => {
+  const blocks = getBlockedRanges(window);
+  const slots: Record<string, ClockSlot> = {};
+  let cursor = Math.max(parseClock(window.start), fromMinutes);
+
+  tasks.forEach(task => {
+    const inside = blocks.find(b => cursor >= b.start && cursor < b.end);
+    if (inside) cursor = inside.end;
+
+    const start = cursor;
+    const pausedFor: string[] = [];
+    let left = task.estimatedMinutes;
+    for (const block of blocks) {
+      if (block.end <= cursor) continue;
+      if (cursor + left <= block.start) break;
+      left -= block.start - cursor;
+      cursor = block.end;
+      pausedFor.push(block.label);
+    }
+    cursor += left;
+    slots[task.id] = { start, end: cursor, pausedFor };
+  });
+
+  return { slots, finish: cursor, overrunMinutes: Math.max(0, cursor - parseClock(window.end)) };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { Task, TaskStatus } from "../types";
+import { applyImport, BACKUP_FORMAT, buildJsonBackup, parseBackup, previewImport } from "./backup";
+
+const task = (id: string, extra: Partial<Task> = {}): Task =>
+  ({ id, title: id, subject: "Math", estimatedMinutes: 20, status: TaskStatus.COMPLETED, ...extra });
+
+const backupOf = (history: Record<string, unknown>, version = 1) =>
+  JSON.stringify({ format: BACKUP_FORMAT, version, exportedAt: "", profileName: "Mia", fromKey: null, toKey: null, history });
+
+describe("parseBackup", () => {
+  it("reads back its own export", () => {
+    const history = { "2026-03-02": [task("a", { actualDurationSeconds: 1500, completedAt: 1, pauses: [{ startedAt: 0, endedAt: 60 }] })] };
+    const parsed = parseBackup(buildJsonBackup(history, "Mia"));
+
+    expect(parsed).toMatchObject({ ok: true, warnings: [], backup: { profileName: "Mia", history } });
+  });
+
+  it("rejects files that aren't a backup it can read", () => {
+    expect(parseBackup("{not json")).toEqual({ ok: false, error: "This file is not valid JSON." });
+    expect(parseBackup(JSON.stringify({ format: "other", history: {} }))).toMatchObject({ ok: false });
+    expect(parseBackup(backupOf({}, 99))).toEqual({ ok: false, error: "This backup was made by a newer version of KiddoTime." });
+  });
+
+  it("drops bad days, bad tasks and bad optional fields with a warning", () => {
+    const parsed = parseBackup(backupOf({
+      "March 2nd": [task("a")],
+      "2026-03-02": [
+        task("b", { status: TaskStatus.ACTIVE }),
+        { id: "c", title: "No subject" },
+        { ...task("d"), checklist: "read chapter 3", actualDurationSeconds: -5, pauses: [{ startedAt: "noon" }] },
+      ],
+    }));
+    if (parsed.ok === false) throw new Error(parsed.error);
+
+    expect(parsed.backup.history["2026-03-02"]).toEqual([task("b", { status: TaskStatus.PENDING }), task("d")]);
+    expect(parsed.warnings).toEqual([
+      'Skipped "March 2nd": not a valid day.',
+      "2026-03-02: skipped 1 unreadable task(s).",
+      "2026-03-02: dropped unreadable time spent, checklist, pauses from 1 task(s).",
+    ]);
+  });
+});
+
+describe("previewImport and applyImport", () => {
+  const current = {
+    "2026-03-01": [task("keep")],
+    "2026-03-02": [task("a"), task("b")],
+    "2026-03-03": [task("c")],
+  };
+  const incoming = {
+    "2026-03-02": [task("a"), task("b")],
+    "2026-03-03": [task("c", { title: "Changed" }), task("d")],
+    "2026-03-04": [task("e")],
+  };
+
+  it("sorts each incoming day into new, identical or conflict", () => {
+    expect(previewImport(current, incoming)).toEqual([
+      { dateKey: "2026-03-02", kind: "identical", existingCount: 2, incomingCount: 2, addedCount: 0, changedCount: 0 },
+      { dateKey: "2026-03-03", kind: "conflict", existingCount: 1, incomingCount: 2, addedCount: 1, changedCount: 1 },
+      { dateKey: "2026-03-04", kind: "new", existingCount: 0, incomingCount: 1, addedCount: 1, changedCount: 0 },
+    ]);
+  });
+
+  it("merges in missing tasks or replaces whole days, never touching other days", () => {
+    const merged = applyImport(current, incoming, "merge");
+    expect(merged["2026-03-03"]).toEqual([task("c"), task("d")]);
+    expect(merged["2026-03-01"]).toBe(current["2026-03-01"]);
+
+    const replaced = applyImport(current, incoming, "replace");
+    expect(replaced["2026-03-03"]).toEqual(incoming["2026-03-03"]);
+    expect(replaced["2026-03-04"]).toEqual(incoming["2026-03-04"]);
+    expect(replaced["2026-03-01"]).toBe(current["2026-03-01"]);
+  });
+});
@@ -0,0 +1,267 @@
+import { Task, TaskStatus } from "../types";
+import { getActualSeconds } from "./stats";
+import { splitWorkAndRest } from "./timerModes";
+import { summarizePauses } from "./pauses";
+
+export const BACKUP_FORMAT = 'kiddotime-history';
+export const BACKUP_VERSION = 1;
+
+export interface HistoryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  profileName: string;
+  fromKey: string | null;
+  toKey: string | null;
+  history: Record<string, Task[]>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export type ParsedBackup =
+  | { ok: true; backup: HistoryBackup; warnings: string[] }
+  | { ok: false; error: string };
+
+export type DayImportKind = 'new' | 'identical' | 'conflict';
+
+export interface DayImportPreview {
+  dateKey: string;
+  kind: DayImportKind;
+  existingCount: number;
+  incomingCount: number;
+  /** Incoming tasks this device doesn't have yet */
+  addedCount: number;
+  /** Same task id on both sides, but with different details */
+  changedCount: number;
+}
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const STATUSES = Object.values(TaskStatus) as string[];
+const TIMER_PHASES = ['work', 'short-break', 'long-break'];
+
+/**
+ * Days between two keys (inclusive). A missing bound leaves that side open.
+ */
+export const filterHistory = (history: Record<string, Task[]>, fromKey?: string, toKey?: string) =>
+  Object.fromEntries(
+    Object.entries(history)
+      .filter(([dateKey, tasks]) => tasks.length > 0 && (!fromKey || dateKey >= fromKey) && (!toKey || dateKey <= toKey))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+
+export const buildJsonBackup = (history: Record<string, Task[]>, profileName: string, fromKey?: string, toKey?: string) => {
+  const backup: HistoryBackup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    profileName,
+    fromKey: fromKey || null,
+    toKey: toKey || null,
+    history: filterHistory(history, fromKey, toKey),
+  };
+  return JSON.stringify(backup, null, 2);
+};
+
+const CSV_COLUMNS = [
+  'date', 'title', 'subject', 'status', 'estimated_minutes', 'actual_minutes', 'rest_minutes',
+  'pauses', 'paused_minutes', 'is_break', 'completed_at', 'skip_reason', 'originally_due', 'checklist_done',
+];
+
+const escapeCsv = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per task, for opening in a spreadsheet. Not meant to be imported back.
+ */
+export const buildCsv = (history: Record<string, Task[]>, fromKey?: string, toKey?: string) => {
+  const rows = Object.entries(filterHistory(history, fromKey, toKey)).flatMap(([dateKey, tasks]) =>
+    tasks.map(task => [
+      dateKey,
+      task.title,
+      task.subject,
+      task.status,
+      task.estimatedMinutes,
+      task.status === TaskStatus.COMPLETED ? Math.round(getActualSeconds(task) / 6) / 10 : undefined,
+      task.cycles ? Math.round(splitWorkAndRest(task).restSeconds / 6) / 10 : undefined,
+      task.pauses ? task.pauses.length : undefined,
+      task.pauses ? Math.round(summarizePauses([task]).seconds / 6) / 10 : undefined,
+      task.isBreak ? 'yes' : 'no',
+      task.completedAt ? new Date(task.completedAt).toISOString() : undefined,
+      task.skipReason,
+      task.originalDate,
+      task.checklist ? `${task.checklist.filter(item => item.doneAt).length} of ${task.checklist.length}` : undefined,
+    ].map(escapeCsv).join(','))
+  );
+  // Leading BOM so spreadsheet apps read emoji and accents as UTF-8
+  return '\uFEFF' + [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+const isValidTask = (value: unknown): value is Task => {
+  if (!value || typeof value !== 'object') return false;
+  const task = value as Record<string, unknown>;
+  return typeof task.id === 'string' && task.id.length > 0
+    && typeof task.title === 'string'
+    && typeof task.subject === 'string'
+    && typeof task.estimatedMinutes === 'number' && task.estimatedMinutes >= 0
+    && typeof task.status === 'string' && STATUSES.includes(task.status);
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+const isListOf = (check: (item: Record<string, unknown>) => boolean) => (value: unknown) =>
+  Array.isArray(value) && value.every(item => !!item && typeof item === 'object' && check(item as Record<string, unknown>));
+
+// Stats, the CSV export and the timer all read these without checking them again
+const OPTIONAL_FIELDS: { field: keyof Task; label: string; isValid: (value: unknown) => boolean }[] = [
+  { field: 'actualDurationSeconds', label: 'time spent', isValid: value => isNumber(value) && value >= 0 },
+  { field: 'completedAt', label: 'finish time', isValid: isNumber },
+  {
+    field: 'checklist',
+    label: 'checklist',
+    isValid: isListOf(item => typeof item.id === 'string' && typeof item.text === 'string'
+      && isOptional(item.doneAt, isNumber) && isOptional(item.doneAtSeconds, isNumber)),
+  },
+  {
+    field: 'cycles',
+    label: 'timer rounds',
+    isValid: isListOf(cycle => typeof cycle.kind === 'string' && TIMER_PHASES.includes(cycle.kind)
+      && isNumber(cycle.seconds) && isNumber(cycle.endedAt)),
+  },
+  {
+    field: 'pauses',
+    label: 'pauses',
+    isValid: isListOf(pause => isNumber(pause.startedAt) && isOptional(pause.endedAt, isNumber)
+      && isOptional(pause.reason, value => typeof value === 'string')),
+  },
+];
+
+/**
+ * The task without any optional fields it can't be trusted with, and the
+ * labels of the fields that were dropped.
+ */
+const dropMalformedFields = (task: Task) => {
+  const malformed = OPTIONAL_FIELDS.filter(({ field, isValid }) => task[field] !== undefined && !isValid(task[field]));
+  const cleaned = { ...task };
+  malformed.forEach(({ field }) => { delete cleaned[field]; });
+  return { task: cleaned, dropped: malformed.map(({ label }) => label) };
+};
+
+/**
+ * Checks a JSON backup before anything touches history. Malformed tasks are
+ * dropped with a warning, and so are malformed optional fields on a task
+ * that is otherwise fine; a wrong format or newer version rejects the file.
+ */
+export const parseBackup = (text: string): ParsedBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'This file is not valid JSON.' };
+  }
+
+  const raw = data as Partial<HistoryBackup> | null;
+  if (!raw || raw.format !== BACKUP_FORMAT || typeof raw.history !== 'object' || raw.history === null) {
+    return { ok: false, error: 'This is not a KiddoTime history backup.' };
+  }
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    return { ok: false, error: 'This backup was made by a newer version of KiddoTime.' };
+  }
+
+  const warnings: string[] = [];
+  const history: Record<string, Task[]> = {};
+
+  Object.entries(raw.history as Record<string, unknown>).forEach(([dateKey, tasks]) => {
+    if (!DATE_KEY_PATTERN.test(dateKey) || !Array.isArray(tasks)) {
+      warnings.push(`Skipped "${dateKey}": not a valid day.`);
+      return;
+    }
+    const valid = tasks.filter(isValidTask);
+    if (valid.length < tasks.length) {
+      warnings.push(`${dateKey}: skipped ${tasks.length - valid.length} unreadable task(s).`);
+    }
+    const cleaned = valid.map(dropMalformedFields);
+    const droppedFields = new Set(cleaned.flatMap(c => c.dropped));
+    if (droppedFields.size > 0) {
+      const taskCount = cleaned.filter(c => c.dropped.length > 0).length;
+      warnings.push(`${dateKey}: dropped unreadable ${Array.from(droppedFields).join(', ')} from ${taskCount} task(s).`);
+    }
+    // An ACTIVE task has no timer session to go with it on this device
+    if (cleaned.length > 0) {
+      history[dateKey] = cleaned.map(({ task: t }) => t.status === TaskStatus.ACTIVE ? { ...t, status: TaskStatus.PENDING } : t);
+    }
+  });
+
+  return {
+    ok: true,
+    backup: {
+      format: BACKUP_FORMAT,
+      version: raw.version,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      profileName: typeof raw.profileName === 'string' ? raw.profileName : '',
+      fromKey: raw.fromKey || null,
+      toKey: raw.toKey || null,
+      history,
+    },
+    warnings,
+  };
+};
+
+const sameTask = (a: Task, b: Task) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * What importing would do to each day in the backup.
+ */
+export const previewImport = (current: Record<string, Task[]>, incoming: Record<string, Task[]>): DayImportPreview[] =>
+  Object.keys(incoming).sort().map(dateKey => {
+    const existing = current[dateKey] || [];
+    const existingById = new Map(existing.map(t => [t.id, t]));
+    const incomingTasks = incoming[dateKey];
+
+    const addedCount = incomingTasks.filter(t => !existingById.has(t.id)).length;
+    const changedCount = incomingTasks.filter(t => existingById.has(t.id) && !sameTask(existingById.get(t.id)!, t)).length;
+    const identical = existing.length === incomingTasks.length && addedCount === 0 && changedCount === 0;
+
+    return {
+      dateKey,
+      kind: existing.length === 0 ? 'new' : identical ? 'identical' : 'conflict',
+      existingCount: existing.length,
+      incomingCount: incomingTasks.length,
+      addedCount,
+      changedCount,
+    };
+  });
+
+/**
+ * Merge keeps every task already on this device and adds the missing ones.
+ * Replace swaps each day in the backup for the backup's version of it.
+ * Days outside the backup are never touched.
+ */
+export const applyImport = (current: Record<string, Task[]>, incoming: Record<string, Task[]>, mode: ImportMode) => {
+  const next = { ...current };
+  Object.entries(incoming).forEach(([dateKey, tasks]) => {
+    const existing = current[dateKey] || [];
+    if (mode === 'replace' || existing.length === 0) {
+      next[dateKey] = tasks;
+      return;
+    }
+    const existingIds = new Set(existing.map(t => t.id));
+    next[dateKey] = [...existing, ...tasks.filter(t => !existingIds.has(t.id))];
+  });
+  return next;
+};
+
+/**
+ * Hands a generated file to the browser as a download.
+ */
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
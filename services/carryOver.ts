@@ -0,0 +1,29 @@
+import { Task, TaskStatus } from "../types";
+
+export const SKIP_REASONS = ['Not assigned today', 'Too tired', 'Done at school', 'Feeling unwell'];
+
+export const isUnfinished = (task: Task) =>
+  !task.isBreak && (task.status === TaskStatus.PENDING || task.status === TaskStatus.ACTIVE);
+
+/**
+ * The copy of a task that lands on a later day. The first due date is kept
+ * so pushed-back work can be counted no matter how often it moves.
+ */
+export const carryTask = (task: Task, fromDateKey: string): Task => ({
+  ...task,
+  status: TaskStatus.PENDING,
+  originalDate: task.originalDate || fromDateKey,
+  carryOverCount: (task.carryOverCount || 0) + 1,
+});
+
+export const skipTask = (task: Task, reason: string): Task => ({
+  ...task,
+  status: TaskStatus.SKIPPED,
+  skipReason: reason,
+});
+
+export const unskipTask = (task: Task): Task => ({
+  ...task,
+  status: TaskStatus.PENDING,
+  skipReason: undefined,
+});
@@ -0,0 +1,24 @@
+import { ChecklistItem, Task } from "../types";
+
+export const createChecklistItem = (text: string, index: number): ChecklistItem => ({
+  id: `step-${Date.now()}-${index}`,
+  text: text.trim(),
+});
+
+/**
+ * Ticks or unticks a step. Ticking records both the clock time and how far
+ * into the timer the child was.
+ */
+export const toggleChecklistItem = (checklist: ChecklistItem[], itemId: string, elapsedSeconds: number) =>
+  checklist.map(item => {
+    if (item.id !== itemId) return item;
+    return item.doneAt
+      ? { ...item, doneAt: undefined, doneAtSeconds: undefined }
+      : { ...item, doneAt: Date.now(), doneAtSeconds: elapsedSeconds };
+  });
+
+export const getChecklistProgress = (task: Task) => {
+  const items = task.checklist || [];
+  const done = items.filter(item => item.doneAt).length;
+  return { done, total: items.length, fraction: items.length > 0 ? done / items.length : 0 };
+};
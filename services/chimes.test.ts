@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { SoundSettings } from "../types";
+import { announceMoment, isQuietTime } from "./chimes";
+
+const sound: SoundSettings = {
+  chimes: { 'start': true, 'halfway': true, 'five-left': true, 'time-up': true, 'break-over': true },
+  volume: 0, // Nothing to play in tests
+  notifications: true,
+  quietHours: null,
+};
+
+const at = (hours: number, minutes = 0) => new Date(2026, 2, 2, hours, minutes);
+
+describe("isQuietTime", () => {
+  it("handles quiet hours that run past midnight", () => {
+    const quietHours = { start: '21:00', end: '07:00' };
+    expect(isQuietTime(quietHours, at(22))).toBe(true);
+    expect(isQuietTime(quietHours, at(6, 59))).toBe(true);
+    expect(isQuietTime(quietHours, at(7))).toBe(false);
+    expect(isQuietTime(null, at(22))).toBe(false);
+  });
+});
+
+describe("announceMoment", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  const inBackground = (NotificationClass: unknown) => {
+    vi.stubGlobal('window', {}); // No Web Audio either
+    vi.stubGlobal('document', { visibilityState: 'hidden' });
+    vi.stubGlobal('navigator', {});
+    vi.stubGlobal('Notification', NotificationClass);
+  };
+
+  it("keeps going when the browser refuses the notification", async () => {
+    const refuse = vi.fn(() => { throw new TypeError('Illegal constructor'); });
+    inBackground(Object.assign(refuse, { permission: 'granted' }));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(() => announceMoment('time-up', sound, "Time's up!")).not.toThrow();
+    await vi.waitFor(() => expect(warn).toHaveBeenCalled());
+    warn.mockRestore();
+  });
+
+  it("shows notifications through the service worker when there is one", async () => {
+    const showNotification = vi.fn(async () => {});
+    inBackground(Object.assign(vi.fn(), { permission: 'granted' }));
+    vi.stubGlobal('navigator', { serviceWorker: { getRegistration: async () => ({ showNotification }) } });
+
+    announceMoment('halfway', sound, 'Halfway there!');
+    await vi.waitFor(() => expect(showNotification).toHaveBeenCalledWith('KiddoTime', { body: 'Halfway there!', tag: 'kiddotime-timer' }));
+  });
+});
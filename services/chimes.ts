@@ -0,0 +1,103 @@
+import { ChimeMoment, SoundSettings, TimeRange } from "../types";
+import { parseClock } from "./availability";
+
+export const CHIME_LABELS: Record<ChimeMoment, string> = {
+  'start': 'Start',
+  'halfway': 'Halfway',
+  'five-left': '5 minutes left',
+  'time-up': "Time's up",
+  'break-over': 'Break over',
+};
+
+// Notes as [frequency Hz, start offset s, length s], synthesised so there are no sound files to load
+const CHIMES: Record<ChimeMoment, [number, number, number][]> = {
+  'start': [[523.25, 0, 0.18], [783.99, 0.14, 0.3]],
+  'halfway': [[659.25, 0, 0.4]],
+  'five-left': [[783.99, 0, 0.18], [783.99, 0.24, 0.18]],
+  'time-up': [[523.25, 0, 0.22], [659.25, 0.2, 0.22], [783.99, 0.4, 0.22], [1046.5, 0.6, 0.6]],
+  'break-over': [[1046.5, 0, 0.22], [783.99, 0.22, 0.4]],
+};
+
+let audioContext: AudioContext | null = null;
+
+// Browsers only allow sound after a tap, so the context is made on first use and woken if suspended
+const getAudioContext = () => {
+  if (!audioContext) {
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+    if (!AudioContextClass) return null;
+    audioContext = new AudioContextClass();
+  }
+  // A refused resume just means silence until the next tap
+  if (audioContext.state === 'suspended') audioContext.resume().catch(() => {});
+  return audioContext;
+};
+
+export const playChime = (moment: ChimeMoment, volume: number) => {
+  const context = getAudioContext();
+  if (!context || volume <= 0) return;
+
+  CHIMES[moment].forEach(([frequency, offset, length]) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const start = context.currentTime + offset;
+    oscillator.type = 'sine';
+    oscillator.frequency.value = frequency;
+    // A quick rise and a long fade sound like a bell rather than a beep
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(Math.max(0.0002, volume * 0.5), start + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + length);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + length + 0.05);
+  });
+};
+
+/**
+ * Whether a moment falls inside quiet hours. Hours that end earlier than they
+ * start run past midnight.
+ */
+export const isQuietTime = (quietHours: TimeRange | null, date: Date = new Date()) => {
+  if (!quietHours) return false;
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const start = parseClock(quietHours.start);
+  const end = parseClock(quietHours.end);
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
+
+export const canNotify = () => typeof Notification !== 'undefined';
+
+/**
+ * Asks for permission to show notifications. Resolves to whether they may be shown.
+ */
+export const requestNotifications = async () => {
+  if (!canNotify()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+// Android Chrome only shows page notifications through a service worker, and
+// the constructor can refuse elsewhere too; a lost notification must never stop the timer
+const showNotification = async (body: string) => {
+  const options = { body, tag: 'kiddotime-timer' };
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) await registration.showNotification('KiddoTime', options);
+    else new Notification('KiddoTime', options);
+  } catch (e) {
+    console.warn('Could not show a notification', e);
+  }
+};
+
+/**
+ * Plays the chime for a timer moment, and when the app is in the background
+ * shows a notification as well. Nothing sounds during quiet hours.
+ */
+export const announceMoment = (moment: ChimeMoment, sound: SoundSettings, message: string) => {
+  if (!sound.chimes[moment] || isQuietTime(sound.quietHours)) return;
+  playChime(moment, sound.volume);
+
+  if (sound.notifications && document.visibilityState === 'hidden' && canNotify() && Notification.permission === 'granted') {
+    showNotification(message);
+  }
+};
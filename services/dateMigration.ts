@@ -0,0 +1,68 @@
+import { Task, TaskStatus } from "../types";
+import { toDateKey, utcToKey } from "./dates";
+
+/**
+ * A history day that was saved under its UTC date instead of the local one.
+ */
+export interface DateKeyFix {
+  fromKey: string;
+  toKey: string;
+  tasks: Task[];
+}
+
+// Typed tasks use Date.now() as their id, which doubles as a creation time
+const getTaskTimestamp = (task: Task): number | null => {
+  if (task.completedAt) return task.completedAt;
+  return /^\d{13}$/.test(task.id) ? Number(task.id) : null;
+};
+
+/**
+ * Finds days whose tasks were all done (or typed in) on a different local day
+ * than the key they sit under, in exactly the way the old UTC keys misfiled
+ * them. Days with no timestamps, or mixed evidence, are left alone.
+ */
+export const findMisfiledDays = (history: Record<string, Task[]>): DateKeyFix[] => {
+  const fixes: DateKeyFix[] = [];
+
+  Object.keys(history).sort().forEach(dateKey => {
+    const tasks = history[dateKey];
+    const timestamps = tasks.map(getTaskTimestamp).filter((ts): ts is number => ts !== null);
+    if (timestamps.length === 0) return;
+
+    const localKeys = new Set(timestamps.map(ts => toDateKey(new Date(ts))));
+    const matchesUtc = timestamps.every(ts => utcToKey(new Date(ts)) === dateKey);
+    const [localKey] = Array.from(localKeys);
+
+    if (matchesUtc && localKeys.size === 1 && localKey !== dateKey) {
+      fixes.push({ fromKey: dateKey, toKey: localKey, tasks });
+    }
+  });
+
+  return fixes;
+};
+
+/**
+ * Moves the chosen days to their local keys. When the target day already has
+ * tasks the two lists are merged, dropping untouched routine copies the
+ * target already has.
+ */
+export const applyDateKeyFixes = (history: Record<string, Task[]>, fixes: DateKeyFix[]): Record<string, Task[]> => {
+  // Lift every misfiled day out first so neighbouring fixes can't cascade
+  const next = { ...history };
+  fixes.forEach(({ fromKey }) => delete next[fromKey]);
+
+  fixes.forEach(({ fromKey, toKey }) => {
+    const existing = next[toKey] || [];
+    const existingIds = new Set(existing.map(t => t.id));
+    const existingTemplates = new Set(existing.map(t => t.templateId).filter(Boolean));
+
+    const moving = history[fromKey].filter(t =>
+      !existingIds.has(t.id) &&
+      !(t.templateId && t.status === TaskStatus.PENDING && existingTemplates.has(t.templateId))
+    );
+
+    next[toKey] = [...existing, ...moving];
+  });
+
+  return next;
+};
@@ -0,0 +1,49 @@
+/**
+ * Date keys are plain 'YYYY-MM-DD' strings on the family's own calendar.
+ * Building them from local fields (not toISOString) keeps a morning session
+ * east of UTC from landing on yesterday's page.
+ */
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * The local calendar day a moment falls on.
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const getTodayKey = (): string => toDateKey(new Date());
+
+/**
+ * A local Date for a key. Midday avoids drifting to a neighbouring day
+ * around daylight-saving changes.
+ */
+export const fromDateKey = (dateKey: string): Date => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return new Date(y, m - 1, d, 12);
+};
+
+// Key arithmetic runs in UTC so it never depends on the local timezone
+export const keyToUtc = (dateKey: string): Date => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+
+export const utcToKey = (date: Date): string => date.toISOString().split('T')[0];
+
+export const shiftDateKey = (dateKey: string, days: number): string => {
+  const date = keyToUtc(dateKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return utcToKey(date);
+};
+
+/**
+ * Whole days from one key to another (negative when `toKey` is earlier).
+ */
+export const daysBetweenKeys = (fromKey: string, toKey: string): number =>
+  Math.round((keyToUtc(toKey).getTime() - keyToUtc(fromKey).getTime()) / (24 * 60 * 60 * 1000));
+
+/**
+ * 0 = Sunday, matching Date.getDay().
+ */
+export const getWeekdayOfKey = (dateKey: string): number => keyToUtc(dateKey).getUTCDay();
@@ -1,82 +1,67 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { Task } from "../types";
-
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { AIConfig } from "../types";
+import { AIProvider, buildMotivationPrompt, buildSchedulePrompt, resolveApiKey, withTimeout } from "./aiProvider";
 
 /**
- * Generates an optimized schedule including breaks using Gemini.
+ * Gemini implementation of the AI provider. The client is created on first
+ * use so the app still starts (and plans locally) without an API key.
  */
-export const generateOptimizedSchedule = async (
-  tasks: Partial<Task>[],
-  availableTimeMinutes?: number
-): Promise<any[]> => {
-  const model = "gemini-2.5-flash";
-  
-  const prompt = `
-    I have a list of homework tasks for a child. 
-    Please organize them into a logical schedule. 
-    If the total time is long (over 45 minutes), insert short 5-10 minute "Break" items between hard subjects.
-    Try to alternate between subjects if possible.
-    Assign a fun emoji to each task.
-    
-    Current Tasks: ${JSON.stringify(tasks)}
-    ${availableTimeMinutes ? `Total Available Time: ${availableTimeMinutes} minutes` : ''}
-  `;
+export const createGeminiProvider = (config: AIConfig): AIProvider => {
+  let client: GoogleGenAI | null = null;
+
+  const getClient = () => {
+    const apiKey = resolveApiKey(config);
+    if (!apiKey) throw new Error("No Gemini API key configured");
+    if (!client) client = new GoogleGenAI({ apiKey });
+    return client;
+  };
 
-  try {
-    const response = await ai.models.generateContent({
-      model,
+  const complete = async (prompt: string) => {
+    const response = await withTimeout(getClient().models.generateContent({
+      model: config.model,
       contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              title: { type: Type.STRING },
-              subject: { type: Type.STRING },
-              estimatedMinutes: { type: Type.NUMBER },
-              isBreak: { type: Type.BOOLEAN },
-              emoji: { type: Type.STRING },
-              reasoning: { type: Type.STRING, description: "Short friendly reason for this order" }
+    }), config.timeoutMs);
+    return response.text || '';
+  };
+
+  return {
+    kind: 'gemini',
+    complete,
+
+    /**
+     * Generates an optimized schedule including breaks using Gemini.
+     * Throws when the call fails so callers can decide how to fall back.
+     */
+    generateSchedule: async (tasks, availableTimeMinutes, hardSubjects) => {
+      const response = await withTimeout(getClient().models.generateContent({
+        model: config.model,
+        contents: buildSchedulePrompt(tasks, availableTimeMinutes, hardSubjects),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                title: { type: Type.STRING },
+                subject: { type: Type.STRING },
+                estimatedMinutes: { type: Type.NUMBER },
+                isBreak: { type: Type.BOOLEAN },
+                emoji: { type: Type.STRING },
+                reasoning: { type: Type.STRING, description: "Short friendly reason for this order" }
+              },
+              required: ["title", "subject", "estimatedMinutes", "isBreak", "emoji"],
             },
-            required: ["title", "subject", "estimatedMinutes", "isBreak", "emoji"],
           },
         },
-      },
-    });
+      }), config.timeoutMs);
 
-    const text = response.text;
-    if (!text) return [];
-    return JSON.parse(text);
-  } catch (error) {
-    console.error("Failed to generate schedule:", error);
-    // Fallback: just return original tasks with defaults if API fails
-    return tasks.map(t => ({...t, isBreak: false, emoji: '📝'}));
-  }
-};
+      const text = response.text;
+      if (!text) return [];
+      return JSON.parse(text);
+    },
 
-/**
- * Gets a motivational message based on progress.
- */
-export const getMotivationalMessage = async (
-  taskTitle: string,
-  isComplete: boolean
-): Promise<string> => {
-  const model = "gemini-2.5-flash";
-  const prompt = isComplete 
-    ? `Give a short, super enthusiastic high-five message for a child who just finished their "${taskTitle}" homework! Max 20 words. Use emojis.`
-    : `Give a gentle, encouraging nudge for a child starting their "${taskTitle}" homework. Max 15 words. Use emojis.`;
-
-  try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-    });
-    return response.text || "You're doing great! 🌟";
-  } catch (error) {
-    return "Good job! Keep going! 🚀";
-  }
+    getMotivationalMessage: async (taskTitle, isComplete) =>
+      (await complete(buildMotivationPrompt(taskTitle, isComplete))) || "You're doing great! 🌟",
+  };
 };
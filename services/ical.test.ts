@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { Task, TaskStatus } from "../types";
+import { buildIcs, parseIcs } from "./ical";
+
+const mission = (id: string, title: string, estimatedMinutes: number, extra: Partial<Task> = {}): Task =>
+  ({ id, title, subject: "Math", estimatedMinutes, status: TaskStatus.PENDING, ...extra });
+
+const calendar = (...eventLines: string[]) =>
+  ["BEGIN:VCALENDAR", "VERSION:2.0", "BEGIN:VEVENT", ...eventLines, "END:VEVENT", "END:VCALENDAR"].join("\r\n");
+
+describe("ical", () => {
+  it("reads back the missions it exports", () => {
+    const ics = buildIcs({
+      "2026-03-02": [
+        mission("a", "Fractions, decimals; and more", 30, { emoji: "📐" }),
+        mission("b", "Rest", 10, { isBreak: true, subject: "Rest" }),
+        mission("c", "Skipped", 20, { status: TaskStatus.SKIPPED }),
+      ],
+    }, "16:00");
+
+    expect(parseIcs(ics)).toEqual([
+      { uid: "a-2026-03-02@kiddotime", title: "📐 Fractions, decimals; and more", dateKey: "2026-03-02", minutes: 30, categories: ["Math"], repeats: false },
+      { uid: "b-2026-03-02@kiddotime", title: "Break: Rest", dateKey: "2026-03-02", minutes: 10, categories: ["Break"], repeats: false },
+    ]);
+  });
+
+  it("folds long lines at 75 octets and unfolds them on import", () => {
+    const title = "📖 ".repeat(40) + "the end";
+    const ics = buildIcs({ "2026-03-02": [mission("a", title, 30)] }, "16:00");
+    const encoder = new TextEncoder();
+
+    expect(ics.split("\r\n").every(line => encoder.encode(line).length <= 75)).toBe(true);
+    expect(ics).toContain("\r\n ");
+    expect(parseIcs(ics)[0].title).toBe(title.trim());
+  });
+
+  it("keeps an event's own fields when it carries a reminder", () => {
+    const [event] = parseIcs(calendar(
+      "UID:essay-1",
+      "SUMMARY:Essay draft",
+      "DTSTART:20260302T160000",
+      "DURATION:PT45M",
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      "SUMMARY:Reminder",
+      "DESCRIPTION:Essay is due soon",
+      "TRIGGER:-PT15M",
+      "END:VALARM",
+      "CATEGORIES:English",
+    ));
+
+    expect(event).toEqual({ uid: "essay-1", title: "Essay draft", dateKey: "2026-03-02", minutes: 45, categories: ["English"], repeats: false });
+  });
+
+  it("flags repeating events", () => {
+    const [event] = parseIcs(calendar("UID:spelling", "SUMMARY:Spelling", "DTSTART;VALUE=DATE:20260302", "RRULE:FREQ=WEEKLY;BYDAY=MO"));
+
+    expect(event).toMatchObject({ dateKey: "2026-03-02", minutes: null, repeats: true });
+  });
+});
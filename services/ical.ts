@@ -0,0 +1,197 @@
+import { Subject, Task, TaskStatus } from "../types";
+import { fromDateKey, toDateKey } from "./dates";
+
+/**
+ * iCalendar (RFC 5545) export of planned missions and import of school
+ * assignment calendars. Exported times are "floating" local times, so the
+ * calendar app shows them at the same clock time the family planned.
+ */
+
+export interface CalendarEvent {
+  uid: string;
+  title: string;
+  dateKey: string;
+  /** Null for all-day events */
+  minutes: number | null;
+  categories: string[];
+  /** Has an RRULE or RDATE; only the first date is imported */
+  repeats: boolean;
+}
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (text: string) =>
+  text.replace(/\\n/gi, '\n').replace(/\\([\\;,])/g, '$1');
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > 74) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatLocal = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * One VEVENT per mission, laid end to end from `startTime` ('HH:MM') on each
+ * day. Skipped missions are left out; breaks are labelled and marked free.
+ */
+export const buildIcs = (days: Record<string, Task[]>, startTime: string) => {
+  const [hours, minutes] = startTime.split(':').map(Number);
+  const stamp = formatUtc(new Date());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//KiddoTime//Homework Schedule//EN', 'CALSCALE:GREGORIAN'];
+
+  Object.keys(days).sort().forEach(dateKey => {
+    const cursor = fromDateKey(dateKey);
+    cursor.setHours(hours, minutes, 0, 0);
+
+    days[dateKey].filter(task => task.status !== TaskStatus.SKIPPED).forEach(task => {
+      const start = new Date(cursor);
+      cursor.setMinutes(cursor.getMinutes() + task.estimatedMinutes);
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${task.id}-${dateKey}@kiddotime`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${formatLocal(start)}`,
+        `DTEND:${formatLocal(cursor)}`,
+        `SUMMARY:${escapeText(`${task.isBreak ? 'Break: ' : ''}${task.emoji ? `${task.emoji} ` : ''}${task.title}`)}`,
+        `DESCRIPTION:${escapeText(`${task.subject} · ${task.estimatedMinutes} min`)}`,
+        `CATEGORIES:${escapeText(task.isBreak ? 'Break' : task.subject)}`,
+        `TRANSP:${task.isBreak ? 'TRANSPARENT' : 'OPAQUE'}`,
+        'END:VEVENT',
+      );
+    });
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// 'DTSTART;TZID=Asia/Shanghai:20250110T160000' -> name, params, value
+const parseContentLine = (line: string) => {
+  const colon = line.indexOf(':');
+  const [name, ...params] = line.slice(0, colon).split(';');
+  return { name: name.toUpperCase(), params: params.map(p => p.toUpperCase()), value: line.slice(colon + 1) };
+};
+
+/**
+ * A DATE or DATE-TIME value as a local Date. UTC values ('Z') are converted;
+ * TZID values are read as local clock time, which is right for a school in
+ * the family's own timezone.
+ */
+const parseIcsDate = (value: string): { date: Date; allDay: boolean } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, ss, utc] = match;
+  if (!hh) return { date: new Date(Number(y), Number(m) - 1, Number(d), 12), allDay: true };
+  const date = utc
+    ? new Date(Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss)))
+    : new Date(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss));
+  return { date, allDay: false };
+};
+
+// 'PT1H30M' -> 90
+const parseDurationMinutes = (value: string) => {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, w, d, h, m] = match.map(v => Number(v) || 0);
+  return ((w * 7 + d) * 24 + h) * 60 + m;
+};
+
+/**
+ * Reads the VEVENTs out of an .ics file. Events without a usable start are
+ * skipped. Components nested in an event, like a VALARM reminder, are passed
+ * over so their SUMMARY or DESCRIPTION can't replace the event's own.
+ */
+export const parseIcs = (text: string): CalendarEvent[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: CalendarEvent[] = [];
+  let current: Record<string, { params: string[]; value: string }> | null = null;
+  let nestedDepth = 0;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT' && !current) {
+      current = {};
+      nestedDepth = 0;
+      return;
+    }
+    if (current && line.startsWith('BEGIN:')) {
+      nestedDepth++;
+      return;
+    }
+    if (current && nestedDepth > 0) {
+      if (line.startsWith('END:')) nestedDepth--;
+      return;
+    }
+    if (line === 'END:VEVENT' && current) {
+      const start = current.DTSTART && parseIcsDate(current.DTSTART.value);
+      if (start) {
+        const end = current.DTEND && parseIcsDate(current.DTEND.value);
+        const duration = current.DURATION ? parseDurationMinutes(current.DURATION.value) : null;
+        const minutes = start.allDay
+          ? null
+          : duration ?? (end ? Math.round((end.date.getTime() - start.date.getTime()) / 60000) : null);
+        events.push({
+          uid: current.UID?.value || `${current.DTSTART.value}-${current.SUMMARY?.value || ''}`,
+          title: unescapeText(current.SUMMARY?.value || 'Homework').trim(),
+          dateKey: toDateKey(start.date),
+          minutes: minutes && minutes > 0 ? minutes : null,
+          categories: current.CATEGORIES ? unescapeText(current.CATEGORIES.value).split(',').map(c => c.trim()).filter(Boolean) : [],
+          repeats: !!(current.RRULE || current.RDATE),
+        });
+      }
+      current = null;
+      return;
+    }
+    if (current && line.includes(':')) {
+      const { name, params, value } = parseContentLine(line);
+      current[name] = { params, value };
+    }
+  });
+
+  return events;
+};
+
+/**
+ * Turns imported events into pending missions, grouped by day. Subjects are
+ * matched by name or alias. Ids come from the event UID, so importing the
+ * same calendar twice doesn't double up.
+ */
+export const eventsToTasks = (events: CalendarEvent[], subjects: Subject[], defaultMinutes: number) => {
+  const days: Record<string, Task[]> = {};
+
+  events.forEach(event => {
+    const haystack = [...event.categories, event.title].join(' ').toLowerCase();
+    const subject = subjects.find(s => [s.name, ...(s.aliases || [])].some(name => haystack.includes(name.toLowerCase())));
+    const task: Task = {
+      id: `ics-${event.uid.replace(/[^A-Za-z0-9_-]/g, '_')}-${event.dateKey}`,
+      title: event.title,
+      subject: subject?.name || 'Homework',
+      estimatedMinutes: Math.min(480, event.minutes || subject?.defaultMinutes || defaultMinutes),
+      status: TaskStatus.PENDING,
+      emoji: subject?.emoji || '📝',
+    };
+    days[event.dateKey] = [...(days[event.dateKey] || []), task];
+  });
+
+  return days;
+};
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Task, TaskStatus } from "../types";
+import type { StorageBackend } from "./storage";
+import { runMigrations, SCHEMA_VERSION } from "./migrations";
+
+const memoryBackend = (records: Record<string, unknown> = {}): StorageBackend => ({
+  kind: "localstorage",
+  get: async <T>(key: string) => records[key] as T | undefined,
+  getByPrefix: async <T>(prefix: string) => Object.fromEntries(
+    Object.entries(records).filter(([key]) => key.startsWith(prefix))
+  ) as Record<string, T>,
+  write: async (puts, removals = []) => {
+    Object.assign(records, puts);
+    removals.forEach(key => { delete records[key]; });
+  },
+  removeByPrefix: async prefix => {
+    Object.keys(records).filter(key => key.startsWith(prefix)).forEach(key => { delete records[key]; });
+  },
+});
+
+const task = (subject: string): Task =>
+  ({ id: subject, title: subject, subject, estimatedMinutes: 20, status: TaskStatus.COMPLETED });
+
+let legacy: Map<string, string>;
+
+beforeEach(() => {
+  legacy = new Map();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => legacy.get(key) ?? null,
+    setItem: (key: string, value: string) => { legacy.set(key, value); },
+    removeItem: (key: string) => { legacy.delete(key); },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("runMigrations", () => {
+  it("splits the old localStorage history into one record per day", async () => {
+    const profile = { id: "p1", name: "Mia", avatar: "🦊", createdAt: 0 };
+    legacy.set("kiddotime_profiles", JSON.stringify([profile]));
+    legacy.set("kiddotime_active_profile", "p1");
+    legacy.set("kiddotime_history:p1", JSON.stringify({ "2026-03-02": [task("Math")], "2026-03-03": [task("Art")] }));
+    const records: Record<string, unknown> = {};
+
+    await runMigrations(memoryBackend(records), () => {});
+
+    expect(records["history:p1:2026-03-02"]).toEqual([task("Math")]);
+    expect(records["history:p1:2026-03-03"]).toEqual([task("Art")]);
+    expect(records).toMatchObject({ profiles: [profile], active_profile: "p1", schema_version: SCHEMA_VERSION });
+    expect(legacy.size).toBe(0);
+  });
+
+  it("moves the AI settings and motivation cache into records", async () => {
+    legacy.set("kiddotime_ai_config", JSON.stringify({ provider: "gemini" }));
+    legacy.set("kiddotime_motivation_cache", JSON.stringify({ "2026-03-02": "Go!" }));
+    const records: Record<string, unknown> = { schema_version: 1 };
+
+    await runMigrations(memoryBackend(records), () => {});
+
+    expect(records).toMatchObject({ ai_config: { provider: "gemini" }, motivation_cache: { "2026-03-02": "Go!" } });
+    expect(legacy.has("kiddotime_ai_config")).toBe(false);
+    expect(legacy.has("kiddotime_motivation_cache")).toBe(false);
+  });
+
+  it("turns custom subject names and history subjects into a registry", async () => {
+    const records: Record<string, unknown> = {
+      schema_version: 2,
+      profiles: [{ id: "p1", name: "Mia", avatar: "🦊", createdAt: 0 }],
+      "subjects:p1": ["Piano"],
+      "history:p1:2026-03-02": [task("Math"), task("Art")],
+    };
+
+    await runMigrations(memoryBackend(records), () => {});
+
+    const names = (records["subjects:p1"] as { name: string }[]).map(s => s.name);
+    expect(names).toEqual(expect.arrayContaining(["Math", "Piano", "Art"]));
+    expect(names.filter(name => name === "Math")).toHaveLength(1);
+  });
+
+  it("only reports an upgrade when there was older data", async () => {
+    const onUpgraded = vi.fn();
+    await runMigrations(memoryBackend(), onUpgraded);
+    expect(onUpgraded).not.toHaveBeenCalled();
+
+    await runMigrations(memoryBackend({ schema_version: 1 }), onUpgraded);
+    expect(onUpgraded).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses data from a newer version and leaves it alone", async () => {
+    const records: Record<string, unknown> = { schema_version: SCHEMA_VERSION + 1, profiles: [] };
+
+    await expect(runMigrations(memoryBackend(records), () => {})).rejects.toThrow(/newer version/);
+    expect(records).toEqual({ schema_version: SCHEMA_VERSION + 1, profiles: [] });
+  });
+});
@@ -0,0 +1,145 @@
+import { Task, UserProfile } from "../types";
+import type { StorageBackend } from "./storage";
+import { seedSubjects } from "./subjects";
+
+/**
+ * Schema migrations for saved data. Each step runs once, in order, and the
+ * version is only bumped after the step has fully landed, so a failed
+ * upgrade is retried on the next start. When Task or history shapes change,
+ * append a step here rather than patching data where it is read.
+ */
+
+const SCHEMA_VERSION_KEY = 'schema_version';
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (backend: StorageBackend) => Promise<void>;
+}
+
+const readLegacy = <T>(key: string): T | undefined => {
+  const saved = localStorage.getItem(key);
+  if (saved === null) return undefined;
+  try {
+    return JSON.parse(saved) as T;
+  } catch (e) {
+    console.error(`Failed to parse ${key}`, e);
+    return undefined;
+  }
+};
+
+const LEGACY_PROFILE_KINDS = ['subjects', 'settings', 'templates', 'timer_session'];
+
+/**
+ * Version 1: the localStorage layout (one JSON blob per profile and kind,
+ * plus the single-user keys from before profiles) becomes one record per
+ * history day.
+ */
+const splitLocalStorageHistory = async (backend: StorageBackend) => {
+  const puts: Record<string, unknown> = {};
+  const consumed: string[] = [];
+
+  let profiles = readLegacy<UserProfile[]>('kiddotime_profiles') || [];
+  const readProfileData = <T>(kind: string, profileId: string) => {
+    const legacyKey = `kiddotime_${kind}:${profileId}`;
+    consumed.push(legacyKey);
+    return readLegacy<T>(legacyKey);
+  };
+
+  // Single-user data predates profiles; it belongs to a default child
+  const singleUserHistory = readLegacy<Record<string, Task[]>>('kiddotime_history');
+  const singleUserSession = readLegacy<unknown>('kiddotime_timer_session');
+  if (profiles.length === 0 && (singleUserHistory || singleUserSession)) {
+    const profile: UserProfile = { id: `profile-${Date.now()}`, name: 'Kiddo', avatar: '🦊', createdAt: Date.now() };
+    profiles = [profile];
+    Object.entries(singleUserHistory || {}).forEach(([dateKey, tasks]) => {
+      puts[`history:${profile.id}:${dateKey}`] = tasks;
+    });
+    if (singleUserSession) puts[`timer_session:${profile.id}`] = singleUserSession;
+    consumed.push('kiddotime_history', 'kiddotime_timer_session');
+  } else {
+    profiles.forEach(profile => {
+      const history = readProfileData<Record<string, Task[]>>('history', profile.id) || {};
+      Object.entries(history).forEach(([dateKey, tasks]) => {
+        puts[`history:${profile.id}:${dateKey}`] = tasks;
+      });
+      LEGACY_PROFILE_KINDS.forEach(kind => {
+        const value = readProfileData<unknown>(kind, profile.id);
+        if (value !== undefined) puts[`${kind}:${profile.id}`] = value;
+      });
+    });
+  }
+  if (profiles.length === 0) return;
+
+  puts.profiles = profiles;
+  consumed.push('kiddotime_profiles');
+  const activeProfileId = localStorage.getItem('kiddotime_active_profile');
+  if (activeProfileId) puts.active_profile = activeProfileId;
+  consumed.push('kiddotime_active_profile');
+
+  await backend.write(puts);
+  // Only clear the old keys once the new records are safely written
+  consumed.forEach(key => localStorage.removeItem(key));
+};
+
+/**
+ * Version 2: the AI settings and the motivation cache, which were still kept
+ * straight in localStorage, become records like everything else.
+ */
+const moveAIRecords = async (backend: StorageBackend) => {
+  const puts: Record<string, unknown> = {};
+  const aiConfig = readLegacy<unknown>('kiddotime_ai_config');
+  if (aiConfig !== undefined) puts.ai_config = aiConfig;
+  const motivationCache = readLegacy<unknown>('kiddotime_motivation_cache');
+  if (motivationCache !== undefined) puts.motivation_cache = motivationCache;
+
+  await backend.write(puts);
+  ['kiddotime_ai_config', 'kiddotime_motivation_cache'].forEach(key => localStorage.removeItem(key));
+};
+
+/**
+ * Version 3: each child's list of custom subject names becomes a subject
+ * registry. Names that only appear in history get an entry too.
+ */
+const buildSubjectRegistries = async (backend: StorageBackend) => {
+  const profiles = (await backend.get<UserProfile[]>('profiles')) || [];
+  const puts: Record<string, unknown> = {};
+
+  for (const profile of profiles) {
+    const key = `subjects:${profile.id}`;
+    const saved = (await backend.get<unknown[]>(key)) || [];
+    if (saved.some(entry => typeof entry !== 'string')) continue;
+
+    const days = await backend.getByPrefix<Task[]>(`history:${profile.id}:`);
+    const historyNames = Object.values(days).flat().filter(t => !t.isBreak).map(t => t.subject);
+    puts[key] = seedSubjects([...(saved as string[]), ...historyNames]);
+  }
+
+  await backend.write(puts);
+};
+
+const MIGRATIONS: Migration[] = [
+  { version: 1, description: 'Split localStorage history into per-day records', migrate: splitLocalStorageHistory },
+  { version: 2, description: 'Move AI settings and the motivation cache into records', migrate: moveAIRecords },
+  { version: 3, description: 'Turn custom subject names into subject registries', migrate: buildSubjectRegistries },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Brings saved data up to SCHEMA_VERSION. `onUpgraded` is called once when
+ * data from an earlier version was changed; first starts stay quiet.
+ */
+export const runMigrations = async (backend: StorageBackend, onUpgraded: () => void) => {
+  const current = (await backend.get<number>(SCHEMA_VERSION_KEY)) || 0;
+  if (current > SCHEMA_VERSION) {
+    throw new Error(`Saved data is from a newer version of the app (schema ${current})`);
+  }
+
+  const pending = MIGRATIONS.filter(m => m.version > current);
+  for (const migration of pending) {
+    await migration.migrate(backend);
+    await backend.write({ [SCHEMA_VERSION_KEY]: migration.version });
+  }
+  if (current > 0 && pending.length > 0) onUpgraded();
+};
@@ -0,0 +1,46 @@
+import { AIProvider } from "./aiProvider";
+
+const START_MESSAGES = [
+  "You've got this! One step at a time 🐢✨",
+  "Ready, set, focus! 🚀",
+  "Little by little, you'll crush it 💪",
+];
+
+const FINISH_MESSAGES = [
+  "High five! Mission complete! 🙌🎉",
+  "Wow, you did it! Superstar! 🌟",
+  "Boom! Another one done! 🏆",
+];
+
+// Stable pick so the same task always gets the same canned line
+const pick = (list: string[], seed: string) =>
+  list[Array.from(seed).reduce((acc, ch) => acc + ch.charCodeAt(0), 0) % list.length];
+
+/**
+ * Canned provider for demos and tests: no network, instant, predictable.
+ */
+export const createMockProvider = (): AIProvider => ({
+  kind: 'mock',
+
+  complete: async (prompt) => `Mock reply to: ${prompt.slice(0, 40)}`,
+
+  generateSchedule: async (tasks) => {
+    const schedule: unknown[] = [];
+    tasks.forEach((task, idx) => {
+      schedule.push({
+        title: task.title,
+        subject: task.subject,
+        estimatedMinutes: task.estimatedMinutes,
+        isBreak: task.isBreak || false,
+        emoji: task.emoji || '📝',
+      });
+      if (!task.isBreak && idx < tasks.length - 1 && idx % 2 === 1) {
+        schedule.push({ title: 'Mock Break', subject: 'Rest', estimatedMinutes: 5, isBreak: true, emoji: '🧃' });
+      }
+    });
+    return schedule;
+  },
+
+  getMotivationalMessage: async (taskTitle, isComplete) =>
+    pick(isComplete ? FINISH_MESSAGES : START_MESSAGES, taskTitle),
+});
@@ -0,0 +1,137 @@
+import { Task } from "../types";
+import { getAIProvider, isAIConfigured, loadAIConfig } from "./ai";
+import { readRecord, writeRecords } from "./storage";
+
+export type MotivationMoment = 'start' | 'halfway' | 'overtime' | 'finish';
+
+const CACHE_KEY = 'motivation_cache';
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 200;
+
+// Keep AI calls rare: one at a time, spaced out, and capped per hour
+const MIN_CALL_INTERVAL_MS = 20 * 1000;
+const MAX_CALLS_PER_HOUR = 12;
+
+const PHRASE_BANK: Record<MotivationMoment, string[]> = {
+  start: [
+    "You've got this, {name}! Let's start {task} 🚀",
+    "Ready, {name}? {task} time — one step at a time 🐢✨",
+    "Deep breath, {name}. {task}, here we go! 💪",
+    "Let's make {task} awesome, {name}! 🌈",
+  ],
+  halfway: [
+    "Halfway there, {name}! Keep it up 🏃",
+    "Look at you go, {name}! Half of {task} done 🌟",
+    "{name}, you're doing great — the finish line is getting closer 🎯",
+  ],
+  overtime: [
+    "Almost there, {name}! Wrap up {task} when you can 🧭",
+    "Taking a bit longer is okay, {name}. You can finish {task}! 💛",
+    "Stay with it, {name} — {task} is nearly done 🐢",
+  ],
+  finish: [
+    "High five, {name}! {task} is done! 🙌🎉",
+    "Boom! {name} crushed {task}! 🏆",
+    "Way to go, {name}! Another mission complete 🌟",
+    "{name}, you're a homework hero! 🦸",
+  ],
+};
+
+interface CacheEntry {
+  message: string;
+  savedAt: number;
+}
+
+let callLog: number[] = [];
+let inFlight = false;
+// Read from storage on first use; until then only the phrase bank answers straight away
+let cache: Record<string, CacheEntry> | null = null;
+
+const cacheKey = (task: Task, moment: MotivationMoment) =>
+  `${task.subject}::${task.title.trim().toLowerCase()}::${moment}`;
+
+const loadCache = async () => {
+  if (!cache) cache = await readRecord<Record<string, CacheEntry>>(CACHE_KEY, {});
+  return cache;
+};
+
+const writeCache = async (key: string, message: string) => {
+  const next = { ...(await loadCache()), [key]: { message, savedAt: Date.now() } };
+  // Drop the oldest entries once the cache gets big
+  const entries = Object.entries(next).sort(([, a], [, b]) => b.savedAt - a.savedAt).slice(0, MAX_CACHE_ENTRIES);
+  cache = Object.fromEntries(entries);
+  await writeRecords({ [CACHE_KEY]: cache }, [], 'save cheer messages');
+};
+
+const isFresh = (entry: CacheEntry | undefined, now: number): entry is CacheEntry =>
+  !!entry && now - entry.savedAt < CACHE_TTL_MS;
+
+const canCallAI = (now: number) => {
+  callLog = callLog.filter(t => now - t < 60 * 60 * 1000);
+  if (inFlight || callLog.length >= MAX_CALLS_PER_HOUR) return false;
+  const last = callLog[callLog.length - 1];
+  return last === undefined || now - last >= MIN_CALL_INTERVAL_MS;
+};
+
+/**
+ * Offline line for a moment, personalised with the child's name.
+ * The pick is stable per task so the text doesn't flicker between renders.
+ */
+export const getOfflineMessage = (moment: MotivationMoment, task: Task, childName: string) => {
+  const phrases = PHRASE_BANK[moment];
+  const seed = Array.from(task.id + moment).reduce((acc, ch) => acc + ch.charCodeAt(0), 0);
+  return phrases[seed % phrases.length]
+    .replace('{name}', childName || 'superstar')
+    .replace('{task}', task.title);
+};
+
+const buildNudgePrompt = (taskTitle: string, moment: MotivationMoment) => moment === 'halfway'
+  ? `Give a short, cheerful "halfway there" message for a child doing their "${taskTitle}" homework. Max 15 words. Use emojis.`
+  : `Give a kind, calm nudge for a child whose "${taskTitle}" homework is taking longer than planned. No pressure. Max 15 words. Use emojis.`;
+
+/**
+ * Returns a message right away (cached AI text, else the phrase bank) and,
+ * when allowed, a promise for a fresh AI message that can replace it.
+ * The timer never waits on the network.
+ */
+export const getMotivation = (
+  moment: MotivationMoment,
+  task: Task,
+  childName: string
+): { message: string; upgrade: Promise<string | null> } => {
+  const key = cacheKey(task, moment);
+  const cached = cache?.[key];
+
+  if (isFresh(cached, Date.now())) {
+    return { message: cached.message, upgrade: Promise.resolve(null) };
+  }
+
+  return { message: getOfflineMessage(moment, task, childName), upgrade: fetchUpgrade(key, moment, task) };
+};
+
+const fetchUpgrade = async (key: string, moment: MotivationMoment, task: Task): Promise<string | null> => {
+  // A saved line still beats a new AI call once the cache has been read
+  const saved = (await loadCache())[key];
+  const now = Date.now();
+  if (isFresh(saved, now)) return saved.message;
+
+  const config = await loadAIConfig();
+  if (!isAIConfigured(config) || !canCallAI(now)) return null;
+
+  inFlight = true;
+  callLog.push(now);
+  try {
+    const provider = getAIProvider(config);
+    const text = moment === 'start' || moment === 'finish'
+      ? await provider.getMotivationalMessage(task.title, moment === 'finish')
+      : await provider.complete(buildNudgePrompt(task.title, moment));
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+    writeCache(key, trimmed);
+    return trimmed;
+  } catch (e) {
+    return null;
+  } finally {
+    inFlight = false;
+  }
+};
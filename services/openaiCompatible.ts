@@ -0,0 +1,55 @@
+import { AIConfig } from "../types";
+import { AIProvider, buildMotivationPrompt, buildSchedulePrompt, resolveApiKey } from "./aiProvider";
+
+const SCHEDULE_FORMAT_HINT = `
+    Reply with JSON only, shaped as {"schedule": [{"title": string, "subject": string, "estimatedMinutes": number, "isBreak": boolean, "emoji": string}]}.
+  `;
+
+/**
+ * Talks to any server exposing the OpenAI chat completions API,
+ * e.g. a local Ollama or llama.cpp server, so scheduling can stay on the home network.
+ */
+export const createOpenAICompatibleProvider = (config: AIConfig): AIProvider => {
+  const chat = async (prompt: string, json = false): Promise<string> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+    const apiKey = resolveApiKey(config);
+
+    try {
+      const response = await fetch(`${config.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages: [{ role: 'user', content: prompt }],
+          ...(json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+        signal: controller.signal,
+      });
+      if (!response.ok) throw new Error(`AI server responded with ${response.status}`);
+      const data = await response.json();
+      return data?.choices?.[0]?.message?.content || '';
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    kind: 'openai',
+    complete: (prompt) => chat(prompt),
+
+    generateSchedule: async (tasks, availableTimeMinutes, hardSubjects) => {
+      const text = await chat(buildSchedulePrompt(tasks, availableTimeMinutes, hardSubjects) + SCHEDULE_FORMAT_HINT, true);
+      if (!text) return [];
+      const parsed = JSON.parse(text);
+      // JSON mode only allows objects, but be lenient with servers that send a bare array
+      return Array.isArray(parsed) ? parsed : parsed?.schedule;
+    },
+
+    getMotivationalMessage: async (taskTitle, isComplete) =>
+      (await chat(buildMotivationPrompt(taskTitle, isComplete))).trim() || "You're doing great! 🌟",
+  };
+};
@@ -0,0 +1,37 @@
+import { AppState, Task, TaskStatus } from "../types";
+
+// Screens that change how the app behaves for the child rather than the day's work
+const PARENT_VIEWS = [AppState.SETTINGS, AppState.BACKUP, AppState.SUBJECTS, AppState.TEMPLATES];
+
+export const isParentView = (appState: AppState) => PARENT_VIEWS.includes(appState);
+
+/**
+ * Whether the child may skip or move a task, or ask to delete it (deleting
+ * always needs the parent PIN). Parent mode can change anything; otherwise
+ * tasks a parent added stay put.
+ */
+export const canChangeTask = (task: Task, parentMode: boolean) => parentMode || !task.parentAssigned;
+
+/**
+ * Past days are a record of what happened, so only a parent can change them.
+ */
+export const isDayLocked = (dateKey: string, todayKey: string, parentMode: boolean) => !parentMode && dateKey < todayKey;
+
+/**
+ * Work the child has handed in, whether or not a parent has signed it off yet.
+ */
+export const isHandedIn = (task: Task) => task.status === TaskStatus.COMPLETED || task.status === TaskStatus.REVIEW;
+
+/**
+ * The status a finished task moves to. Breaks never need signing off.
+ */
+export const getFinishedStatus = (task: Task, requireSignOff: boolean) =>
+  requireSignOff && !task.isBreak ? TaskStatus.REVIEW : TaskStatus.COMPLETED;
+
+/**
+ * A parent's decision on a task waiting for sign-off. Sent-back work goes to
+ * the quest log again and keeps its time so the timer picks up where it stopped.
+ */
+export const reviewTask = (task: Task, approved: boolean): Task => approved
+  ? { ...task, status: TaskStatus.COMPLETED }
+  : { ...task, status: TaskStatus.PENDING, completedAt: undefined };
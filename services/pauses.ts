@@ -0,0 +1,36 @@
+import { PauseInterval, Task } from "../types";
+
+export const PAUSE_REASONS = ['🚽 Toilet', '🍎 Snack', '💭 Distracted', '🙋 Needed help'];
+
+const NO_REASON = 'No reason given';
+
+export interface PauseSummary {
+  count: number;
+  seconds: number;
+  reasons: { reason: string; count: number; seconds: number }[]; // Longest total first
+}
+
+const getPauseSeconds = (pause: PauseInterval) =>
+  pause.endedAt === undefined ? 0 : Math.max(0, Math.round((pause.endedAt - pause.startedAt) / 1000));
+
+/**
+ * How often and for how long missions were paused, in total and by reason.
+ */
+export const summarizePauses = (tasks: Task[]): PauseSummary => {
+  const reasons = new Map<string, { reason: string; count: number; seconds: number }>();
+  let count = 0;
+  let seconds = 0;
+
+  tasks.forEach(task => (task.pauses || []).forEach(pause => {
+    const pauseSeconds = getPauseSeconds(pause);
+    const reason = pause.reason || NO_REASON;
+    const entry = reasons.get(reason) || { reason, count: 0, seconds: 0 };
+    entry.count++;
+    entry.seconds += pauseSeconds;
+    reasons.set(reason, entry);
+    count++;
+    seconds += pauseSeconds;
+  }));
+
+  return { count, seconds, reasons: Array.from(reasons.values()).sort((a, b) => b.seconds - a.seconds) };
+};
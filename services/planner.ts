@@ -0,0 +1,54 @@
+import { SchedulerMode, Task } from "../types";
+import { getAIProvider, isAIConfigured, loadAIConfig } from "./ai";
+import { buildLocalSchedule, LocalScheduleOptions, ScheduleItem } from "./scheduler";
+import { parseScheduleResponse, ScheduleChange } from "./scheduleValidation";
+
+export type PlanSource = 'local' | 'ai' | 'unchanged';
+
+export interface PlanResult {
+  items: ScheduleItem[];
+  source: PlanSource;
+  issues: ScheduleChange[]; // Entries the response validator had to throw away
+}
+
+/**
+ * Runs the scheduler the user picked. "AI with local fallback" uses the local
+ * engine whenever the AI provider is unavailable or fails; plain "AI" keeps the old
+ * behaviour of handing the tasks back as they were.
+ */
+export const planSchedule = async (
+  tasks: Partial<Task>[],
+  mode: SchedulerMode,
+  options: LocalScheduleOptions = {}
+): Promise<PlanResult> => {
+  const runLocal = (): PlanResult => ({
+    items: buildLocalSchedule(tasks, options).items,
+    source: 'local',
+    issues: [],
+  });
+
+  if (mode === 'local') return runLocal();
+  const config = await loadAIConfig();
+  if (mode === 'ai-fallback' && !isAIConfigured(config)) return runLocal();
+
+  try {
+    const { items, changes } = parseScheduleResponse(await getAIProvider(config).generateSchedule(tasks, options.availableTimeMinutes, options.hardSubjects));
+    if (items.length === 0 && tasks.length > 0) throw new Error("Scheduler returned no usable missions");
+    return { items, source: 'ai', issues: changes };
+  } catch (error) {
+    console.error("Failed to generate schedule:", error);
+    if (mode === 'ai-fallback') return runLocal();
+    return {
+      items: tasks.map((t, idx) => ({
+        title: t.title || '',
+        subject: t.subject || 'General',
+        estimatedMinutes: t.estimatedMinutes || 0,
+        isBreak: t.isBreak || false,
+        emoji: '📝',
+        sourceIndex: idx,
+      })),
+      source: 'unchanged',
+      issues: [],
+    };
+  }
+};
@@ -0,0 +1,223 @@
+import { Assignment, ProfileSettings, RewardState, Subject, Task, TaskTemplate, UserProfile } from "../types";
+import { readRecord, readRecords, removeRecords, writeRecords } from "./storage";
+import { DEFAULT_REWARD_RULES, DEFAULT_SHOP } from "./rewards";
+import { DEFAULT_SUBJECTS } from "./subjects";
+
+const PROFILES_KEY = 'profiles';
+const ACTIVE_PROFILE_KEY = 'active_profile';
+const PARENT_PIN_KEY = 'parent_pin';
+
+export const DEFAULT_SETTINGS: ProfileSettings = {
+  defaultTaskMinutes: 30,
+  schedulerMode: 'ai-fallback',
+  motivationNudges: true,
+  dailyMinutes: 60,
+  weekdayWindows: [null, null, null, null, null, null, null],
+  timerMode: 'countdown',
+  pomodoro: { workMinutes: 25, shortBreakMinutes: 5, longBreakMinutes: 15, roundsBeforeLongBreak: 4 },
+  sound: {
+    chimes: { 'start': true, 'halfway': true, 'five-left': true, 'time-up': true, 'break-over': true },
+    volume: 0.6,
+    notifications: false,
+    quietHours: null,
+  },
+  requireSignOff: false,
+};
+
+export const PROFILE_AVATARS = ['🦊', '🐼', '🦁', '🐸', '🐙', '🦄', '🐯', '🐨', '🐧', '🐶'];
+
+// Everything a child owns lives under '<kind>:<profile id>'; history adds ':<date key>' per day
+type ProfileDataKind = 'history' | 'subjects' | 'settings' | 'timer_session' | 'templates' | 'rewards' | 'assignments';
+
+export const getProfileStorageKey = (profileId: string, kind: ProfileDataKind) => `${kind}:${profileId}`;
+
+const getHistoryPrefix = (profileId: string) => `${getProfileStorageKey(profileId, 'history')}:`;
+
+export const loadProfiles = () => readRecord<UserProfile[]>(PROFILES_KEY, []);
+
+export const saveProfiles = (profiles: UserProfile[]) =>
+  writeRecords({ [PROFILES_KEY]: profiles }, [], 'save profiles');
+
+export const loadActiveProfileId = () => readRecord<string | null>(ACTIVE_PROFILE_KEY, null);
+
+export const saveActiveProfileId = (profileId: string) =>
+  writeRecords({ [ACTIVE_PROFILE_KEY]: profileId });
+
+export const createProfile = (name: string, avatar: string, pinHash?: string): UserProfile => ({
+  id: `profile-${Date.now()}`,
+  name,
+  avatar,
+  pinHash,
+  createdAt: Date.now(),
+});
+
+// The day lists last written per profile; saves only touch days whose list changed
+const writtenHistory = new Map<string, Record<string, Task[]>>();
+
+export const loadProfileHistory = async (profileId: string) => {
+  const prefix = getHistoryPrefix(profileId);
+  const records = await readRecords<Task[]>(prefix);
+  const history = Object.fromEntries(
+    Object.entries(records).map(([key, tasks]) => [key.slice(prefix.length), tasks])
+  );
+  writtenHistory.set(profileId, history);
+  return history;
+};
+
+/**
+ * Writes the days that changed since the last save. History updates always
+ * replace a day's array, so an identity check is enough to spot them.
+ */
+export const saveProfileHistory = async (profileId: string, history: Record<string, Task[]>) => {
+  const prefix = getHistoryPrefix(profileId);
+  const previous = writtenHistory.get(profileId) || {};
+
+  const puts: Record<string, Task[]> = {};
+  Object.keys(history).forEach(dateKey => {
+    if (history[dateKey] !== previous[dateKey]) puts[prefix + dateKey] = history[dateKey];
+  });
+  const removals = Object.keys(previous).filter(dateKey => !(dateKey in history)).map(dateKey => prefix + dateKey);
+  if (Object.keys(puts).length === 0 && removals.length === 0) return;
+
+  writtenHistory.set(profileId, history);
+  const saved = await writeRecords(puts, removals, 'save history');
+  // Forget what was written so the next save retries every day
+  if (!saved) writtenHistory.delete(profileId);
+};
+
+export const loadProfileSubjects = (profileId: string) =>
+  readRecord<Subject[]>(getProfileStorageKey(profileId, 'subjects'), DEFAULT_SUBJECTS);
+
+export const saveProfileSubjects = (profileId: string, subjects: Subject[]) =>
+  writeRecords({ [getProfileStorageKey(profileId, 'subjects')]: subjects }, [], 'save subjects');
+
+export const loadProfileSettings = async (profileId: string): Promise<ProfileSettings> => ({
+  ...DEFAULT_SETTINGS,
+  ...(await readRecord<Partial<ProfileSettings>>(getProfileStorageKey(profileId, 'settings'), {})),
+});
+
+export const saveProfileSettings = (profileId: string, settings: ProfileSettings) =>
+  writeRecords({ [getProfileStorageKey(profileId, 'settings')]: settings }, [], 'save settings');
+
+export const loadProfileTemplates = (profileId: string) =>
+  readRecord<TaskTemplate[]>(getProfileStorageKey(profileId, 'templates'), []);
+
+export const saveProfileTemplates = (profileId: string, templates: TaskTemplate[]) =>
+  writeRecords({ [getProfileStorageKey(profileId, 'templates')]: templates }, [], 'save routines');
+
+export const loadProfileAssignments = (profileId: string) =>
+  readRecord<Assignment[]>(getProfileStorageKey(profileId, 'assignments'), []);
+
+export const saveProfileAssignments = (profileId: string, assignments: Assignment[]) =>
+  writeRecords({ [getProfileStorageKey(profileId, 'assignments')]: assignments }, [], 'save assignments');
+
+export const loadProfileRewards = async (profileId: string): Promise<RewardState> => {
+  const saved = await readRecord<Partial<RewardState>>(getProfileStorageKey(profileId, 'rewards'), {});
+  return {
+    rules: { ...DEFAULT_REWARD_RULES, ...saved.rules },
+    unlockedBadges: saved.unlockedBadges || {},
+    shop: saved.shop || DEFAULT_SHOP,
+    redemptions: saved.redemptions || [],
+  };
+};
+
+export const saveProfileRewards = (profileId: string, rewards: RewardState) =>
+  writeRecords({ [getProfileStorageKey(profileId, 'rewards')]: rewards }, [], 'save rewards');
+
+export const deleteProfileData = async (profileId: string) => {
+  writtenHistory.delete(profileId);
+  await removeRecords(getHistoryPrefix(profileId));
+  await writeRecords({}, (['subjects', 'settings', 'timer_session', 'templates', 'rewards', 'assignments'] as ProfileDataKind[])
+    .map(kind => getProfileStorageKey(profileId, kind)), 'delete profile');
+};
+
+const prepareProfiles = async (): Promise<{ profiles: UserProfile[]; activeProfileId: string }> => {
+  let profiles = await loadProfiles();
+
+  if (profiles.length === 0) {
+    profiles = [createProfile('Kiddo', PROFILE_AVATARS[0])];
+    await saveProfiles(profiles);
+  }
+
+  const savedActiveId = await loadActiveProfileId();
+  const activeProfileId = profiles.some(p => p.id === savedActiveId) ? savedActiveId! : profiles[0].id;
+  await saveActiveProfileId(activeProfileId);
+
+  return { profiles, activeProfileId };
+};
+
+const SHA256_K = Array.from({ length: 64 }, (_, i) => {
+  // Fractional parts of the cube roots of the first 64 primes
+  const primes: number[] = [];
+  for (let n = 2; primes.length < 64; n++) if (primes.every(p => n % p !== 0)) primes.push(n);
+  const root = Math.cbrt(primes[i]);
+  return Math.floor((root - Math.floor(root)) * 0x100000000) >>> 0;
+});
+
+/**
+ * Plain SHA-256 for when the browser has no crypto.subtle, which is only
+ * available on https or localhost. A tablet opening the dev server's LAN
+ * address over http still needs PINs to work, with the same hashes.
+ */
+const sha256 = (bytes: Uint8Array) => {
+  const h = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+  const length = Math.ceil((bytes.length + 9) / 64) * 64;
+  const data = new Uint8Array(length);
+  data.set(bytes);
+  data[bytes.length] = 0x80;
+  const view = new DataView(data.buffer);
+  view.setUint32(length - 4, bytes.length * 8);
+
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+  const w = new Array<number>(64);
+  for (let offset = 0; offset < length; offset += 64) {
+    for (let i = 0; i < 64; i++) {
+      if (i < 16) {
+        w[i] = view.getUint32(offset + i * 4);
+      } else {
+        const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+        const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+        w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+      }
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      [hh, g, f, e, d, c, b, a] = [g, f, e, (d + t1) | 0, c, b, a, (t1 + t2) | 0];
+    }
+    [a, b, c, d, e, f, g, hh].forEach((value, i) => { h[i] = (h[i] + value) | 0; });
+  }
+  return h.map(value => (value >>> 0).toString(16).padStart(8, '0')).join('');
+};
+
+let profilesReady: ReturnType<typeof prepareProfiles> | null = null;
+
+/**
+ * Makes sure there is at least one profile to open. Older single-user data
+ * is moved into a profile by the storage migrations before this runs.
+ * Shared per page load, so a double-mounted effect can't create two defaults.
+ */
+export const ensureProfiles = () => {
+  if (!profilesReady) profilesReady = prepareProfiles();
+  return profilesReady;
+};
+
+/**
+ * PINs only keep siblings out of each other's logs, but there is
+ * no reason to keep them readable in storage either.
+ */
+export const hashPin = async (pin: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(`kiddotime:${pin}`);
+  if (!globalThis.crypto?.subtle) return sha256(bytes);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const verifyPin = async (pin: string, pinHash: string) => (await hashPin(pin)) === pinHash;
+
+// One PIN for the grown-ups on this device, separate from the children's own PINs
+export const loadParentPinHash = () => readRecord<string | null>(PARENT_PIN_KEY, null);
+
+export const saveParentPinHash = (pinHash: string) =>
+  writeRecords({ [PARENT_PIN_KEY]: pinHash }, [], 'save parent PIN');
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { Redemption, Task, TaskStatus } from "../types";
+import { buildLedger, decideRedemption, DEFAULT_REWARD_RULES, getBalance, getSpendablePoints } from "./rewards";
+
+const done = (id: string): Task =>
+  ({ id, title: id, subject: "Math", estimatedMinutes: 20, status: TaskStatus.COMPLETED, actualDurationSeconds: 60 * 30 });
+
+const history: Record<string, Task[]> = {
+  "2026-03-02": [done("a")],
+  "2026-03-04": [done("b")],
+};
+
+const redemption = (id: string, cost: number, status: Redemption["status"]): Redemption =>
+  ({ id, itemId: "item", itemName: "Tablet time", emoji: "📱", cost, requestedAt: 0, status });
+
+describe("rewards", () => {
+  it("leaves days after today out of the ledger", () => {
+    const ledger = buildLedger(history, DEFAULT_REWARD_RULES, [], "2026-03-03");
+    expect(ledger.map(e => e.taskId)).toEqual(["a"]);
+  });
+
+  it("only approves a redemption the earned points still cover", () => {
+    const redemptions = [redemption("r1", 10, "approved"), redemption("r2", 15, "pending")];
+    const balance = getBalance(buildLedger(history, DEFAULT_REWARD_RULES, redemptions, "2026-03-04"), redemptions);
+
+    expect(balance).toMatchObject({ earned: 20, spent: 10 });
+    expect(decideRedemption(redemptions, "r2", "approved", balance)[1].status).toBe("pending");
+    expect(decideRedemption(redemptions, "r2", "declined", balance)[1].status).toBe("declined");
+  });
+
+  it("reports rules that would take back points already spent", () => {
+    const redemptions = [redemption("r1", 20, "approved")];
+    expect(getSpendablePoints(history, DEFAULT_REWARD_RULES, redemptions, "2026-03-04")).toBe(0);
+    expect(getSpendablePoints(history, { ...DEFAULT_REWARD_RULES, pointsPerMission: 5 }, redemptions, "2026-03-04")).toBe(-10);
+  });
+});
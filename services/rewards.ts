@@ -0,0 +1,276 @@
+import { BadgeCriterion, BadgeRule, Redemption, RedemptionStatus, RewardRules, ShopItem, Task, TaskStatus } from "../types";
+import { shiftDateKey, toDateKey } from "./dates";
+import { getActualSeconds } from "./stats";
+
+export const DEFAULT_BADGES: BadgeRule[] = [
+  { id: 'first-mission', name: 'First Steps', emoji: '🌱', criterion: { kind: 'missions', count: 1 } },
+  { id: 'streak-3', name: 'On a Roll', emoji: '🔥', criterion: { kind: 'streak', days: 3 } },
+  { id: 'streak-5', name: 'Five Alive', emoji: '🏅', criterion: { kind: 'streak', days: 5 } },
+  { id: 'streak-14', name: 'Unstoppable', emoji: '🚀', criterion: { kind: 'streak', days: 14 } },
+  { id: 'math-marathon', name: 'Math Marathon', emoji: '📐', criterion: { kind: 'subject-minutes', subject: 'Math', minutes: 600 } },
+  { id: 'bookworm', name: 'Bookworm', emoji: '📖', criterion: { kind: 'subject-minutes', subject: 'English', minutes: 600 } },
+  { id: 'beat-the-clock', name: 'Beat the Clock', emoji: '⏱️', criterion: { kind: 'on-time', count: 20 } },
+  { id: 'missions-100', name: 'Centurion', emoji: '💯', criterion: { kind: 'missions', count: 100 } },
+  { id: 'points-1000', name: 'Star Collector', emoji: '🌟', criterion: { kind: 'points', points: 1000 } },
+];
+
+export const DEFAULT_REWARD_RULES: RewardRules = {
+  pointsPerMission: 10,
+  onTimeBonus: 5,
+  breakBonus: 2,
+  streakDayBonus: 5,
+  badges: DEFAULT_BADGES,
+};
+
+export const DEFAULT_SHOP: ShopItem[] = [
+  { id: 'tablet-30', name: '30 min tablet time', emoji: '📱', cost: 100 },
+  { id: 'pick-dinner', name: 'Pick dinner', emoji: '🍕', cost: 150 },
+  { id: 'stay-up', name: 'Stay up 15 min later', emoji: '🌙', cost: 120 },
+];
+
+export type LedgerKind = 'mission' | 'on-time' | 'break' | 'streak' | 'redeemed';
+
+// One line of the points ledger; earned lines point back at the task in history
+export interface LedgerEntry {
+  id: string;
+  kind: LedgerKind;
+  dateKey: string;
+  points: number; // Negative for redemptions
+  title: string;
+  taskId?: string;
+  redemptionId?: string;
+}
+
+export interface PointsBalance {
+  earned: number;
+  spent: number;
+  held: number; // Asked for but not yet approved
+  available: number;
+}
+
+export interface BadgeProgress {
+  badge: BadgeRule;
+  current: number;
+  target: number;
+  earned: boolean;
+}
+
+export interface RewardSummary {
+  totalPoints: number;
+  pointsByDay: Record<string, number>;
+  currentStreak: number;
+  longestStreak: number;
+  missionCount: number;
+  onTimeCount: number;
+  awaitingSignOffCount: number; // Handed in but not approved yet, so no points
+  minutesBySubject: Record<string, number>;
+  badges: BadgeProgress[];
+}
+
+const isDone = (task: Task) => task.status === TaskStatus.COMPLETED;
+
+export const isOnTime = (task: Task) =>
+  isDone(task) && !task.isBreak && getActualSeconds(task) <= task.estimatedMinutes * 60;
+
+// The number a parent edits for each kind of badge
+export const getCriterionTarget = (criterion: BadgeCriterion) => {
+  switch (criterion.kind) {
+    case 'streak': return criterion.days;
+    case 'subject-minutes': return criterion.minutes;
+    case 'missions': return criterion.count;
+    case 'on-time': return criterion.count;
+    case 'points': return criterion.points;
+  }
+};
+
+export const setCriterionTarget = (criterion: BadgeCriterion, target: number): BadgeCriterion => {
+  switch (criterion.kind) {
+    case 'streak': return { ...criterion, days: target };
+    case 'subject-minutes': return { ...criterion, minutes: target };
+    case 'missions': return { ...criterion, count: target };
+    case 'on-time': return { ...criterion, count: target };
+    case 'points': return { ...criterion, points: target };
+  }
+};
+
+export const describeCriterion = (criterion: BadgeCriterion) => {
+  switch (criterion.kind) {
+    case 'streak': return `${criterion.days}-day streak`;
+    case 'subject-minutes': return `${criterion.minutes} minutes of ${criterion.subject}`;
+    case 'missions': return criterion.count === 1 ? 'Finish your first mission' : `${criterion.count} missions finished`;
+    case 'on-time': return `${criterion.count} missions done within time`;
+    case 'points': return `Earn ${criterion.points} points`;
+  }
+};
+
+const getCriterionCurrent = (criterion: BadgeCriterion, summary: Omit<RewardSummary, 'badges'>) => {
+  switch (criterion.kind) {
+    case 'streak': return summary.longestStreak;
+    case 'subject-minutes': return Math.floor(summary.minutesBySubject[criterion.subject] || 0);
+    case 'missions': return summary.missionCount;
+    case 'on-time': return summary.onTimeCount;
+    case 'points': return summary.totalPoints;
+  }
+};
+
+const hasFinishedMission = (tasks: Task[]) => tasks.some(t => isDone(t) && !t.isBreak);
+
+/**
+ * Days with a finished mission (up to today), each with the length of the
+ * streak it belongs to at that point.
+ */
+const getStreakRuns = (history: Record<string, Task[]>, todayKey: string) => {
+  const runs = new Map<string, number>();
+  let previousKey: string | null = null;
+
+  Object.keys(history)
+    .filter(key => key <= todayKey && hasFinishedMission(history[key]))
+    .sort()
+    .forEach(dateKey => {
+      const run = previousKey && shiftDateKey(previousKey, 1) === dateKey ? runs.get(previousKey)! + 1 : 1;
+      runs.set(dateKey, run);
+      previousKey = dateKey;
+    });
+
+  return runs;
+};
+
+/**
+ * Every point earned up to today, line by line, plus approved redemptions.
+ * Earned lines are re-derived from history with the current rules, so any
+ * entry can be checked against the task it names. Redemptions keep the cost
+ * they were approved at.
+ */
+export const buildLedger = (
+  history: Record<string, Task[]>, rules: RewardRules, redemptions: Redemption[], todayKey: string
+): LedgerEntry[] => {
+  const entries: LedgerEntry[] = [];
+  const runs = getStreakRuns(history, todayKey);
+
+  Object.keys(history).filter(key => key <= todayKey).sort().forEach(dateKey => {
+    history[dateKey].filter(isDone).forEach(task => {
+      const add = (kind: LedgerKind, points: number) => {
+        if (points > 0) entries.push({ id: `${kind}-${task.id}`, kind, dateKey, points, title: task.title, taskId: task.id });
+      };
+      if (task.isBreak) {
+        add('break', rules.breakBonus);
+      } else {
+        add('mission', rules.pointsPerMission);
+        if (isOnTime(task)) add('on-time', rules.onTimeBonus);
+      }
+    });
+
+    const run = runs.get(dateKey) || 0;
+    if (run > 1 && rules.streakDayBonus > 0) {
+      entries.push({ id: `streak-${dateKey}`, kind: 'streak', dateKey, points: rules.streakDayBonus, title: `Day ${run} of a streak` });
+    }
+  });
+
+  redemptions.filter(r => r.status === 'approved').forEach(r => {
+    entries.push({
+      id: `redeemed-${r.id}`,
+      kind: 'redeemed',
+      dateKey: toDateKey(new Date(r.decidedAt || r.requestedAt)),
+      points: -r.cost,
+      title: `${r.emoji} ${r.itemName}`,
+      redemptionId: r.id,
+    });
+  });
+
+  return entries.sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+};
+
+export const getBalance = (ledger: LedgerEntry[], redemptions: Redemption[]): PointsBalance => {
+  const earned = ledger.filter(e => e.points > 0).reduce((sum, e) => sum + e.points, 0);
+  const spent = -ledger.filter(e => e.points < 0).reduce((sum, e) => sum + e.points, 0);
+  const held = redemptions.filter(r => r.status === 'pending').reduce((sum, r) => sum + r.cost, 0);
+  return { earned, spent, held, available: earned - spent - held };
+};
+
+/**
+ * Everything the trophy room shows, worked out from the ledger. Points follow
+ * the current rules, so a parent changing a value re-scores past days too.
+ * Today not being done yet doesn't break the streak.
+ */
+export const computeRewards = (history: Record<string, Task[]>, ledger: LedgerEntry[], rules: RewardRules, todayKey: string): RewardSummary => {
+  const pointsByDay: Record<string, number> = {};
+  ledger.filter(e => e.points > 0).forEach(e => {
+    pointsByDay[e.dateKey] = (pointsByDay[e.dateKey] || 0) + e.points;
+  });
+
+  const minutesBySubject: Record<string, number> = {};
+  let missionCount = 0;
+  let onTimeCount = 0;
+  let awaitingSignOffCount = 0;
+  Object.values(history).forEach(tasks => {
+    awaitingSignOffCount += tasks.filter(t => t.status === TaskStatus.REVIEW && !t.isBreak).length;
+    tasks.filter(t => isDone(t) && !t.isBreak).forEach(task => {
+      missionCount++;
+      if (isOnTime(task)) onTimeCount++;
+      minutesBySubject[task.subject] = (minutesBySubject[task.subject] || 0) + getActualSeconds(task) / 60;
+    });
+  });
+
+  // The streak is still alive if the last active day was today or yesterday
+  const runs = getStreakRuns(history, todayKey);
+  const currentStreak = runs.get(todayKey) || runs.get(shiftDateKey(todayKey, -1)) || 0;
+
+  const base = {
+    totalPoints: Object.values(pointsByDay).reduce((sum, p) => sum + p, 0),
+    pointsByDay,
+    currentStreak,
+    longestStreak: Math.max(0, ...Array.from(runs.values())),
+    missionCount,
+    onTimeCount,
+    awaitingSignOffCount,
+    minutesBySubject,
+  };
+
+  return {
+    ...base,
+    badges: rules.badges.map(badge => {
+      const current = getCriterionCurrent(badge.criterion, base);
+      const target = getCriterionTarget(badge.criterion);
+      return { badge, current, target, earned: current >= target };
+    }),
+  };
+};
+
+export const requestRedemption = (item: ShopItem): Redemption => ({
+  id: `redemption-${Date.now()}`,
+  itemId: item.id,
+  itemName: item.name,
+  emoji: item.emoji,
+  cost: item.cost,
+  requestedAt: Date.now(),
+  status: 'pending',
+});
+
+// Approving spends earned points, so other requests still waiting don't count against it
+export const canApprove = (redemption: Redemption, balance: PointsBalance) =>
+  balance.earned - balance.spent >= redemption.cost;
+
+export const decideRedemption = (
+  redemptions: Redemption[], redemptionId: string, status: Exclude<RedemptionStatus, 'pending'>, balance: PointsBalance
+) => redemptions.map(r => {
+  if (r.id !== redemptionId || r.status !== 'pending') return r;
+  if (status === 'approved' && !canApprove(r, balance)) return r;
+  return { ...r, status, decidedAt: Date.now() };
+});
+
+/**
+ * Points left after approved redemptions if the given rules applied. Rule
+ * changes that push this below zero would take back points already spent.
+ */
+export const getSpendablePoints = (
+  history: Record<string, Task[]>, rules: RewardRules, redemptions: Redemption[], todayKey: string
+) => {
+  const { earned, spent } = getBalance(buildLedger(history, rules, redemptions, todayKey), []);
+  return earned - spent;
+};
+
+/**
+ * Badges earned now that weren't recorded before.
+ */
+export const findNewBadges = (summary: RewardSummary, unlockedBadges: Record<string, string>) =>
+  summary.badges.filter(p => p.earned && !unlockedBadges[p.badge.id]).map(p => p.badge);
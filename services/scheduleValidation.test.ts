@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { Task, TaskStatus } from "../types";
+import { ScheduleItem } from "./scheduler";
+import { applyScheduleProposal, reconcileSchedule } from "./scheduleValidation";
+
+const task = (id: string, subject: string, status = TaskStatus.PENDING): Task =>
+  ({ id, title: id, subject, estimatedMinutes: 20, status });
+
+const item = (title: string, subject: string, isBreak = false): ScheduleItem =>
+  ({ title, subject, estimatedMinutes: isBreak ? 5 : 20, isBreak, emoji: "📝" });
+
+describe("reconcileSchedule", () => {
+  it("does not report missions as moved when only breaks were inserted", () => {
+    const open = [task("Fractions", "Math"), task("Spelling", "English")];
+    const items = [item("Fractions", "Math"), item("Stretch", "Rest", true), item("Spelling", "English")];
+
+    const { changes } = reconcileSchedule(open, items, 0);
+    expect(changes.map(c => c.kind)).toEqual(["added-break"]);
+  });
+
+  it("reports missions whose order changed", () => {
+    const open = [task("Fractions", "Math"), task("Spelling", "English")];
+    const items = [item("Spelling", "English"), item("Fractions", "Math")];
+
+    const moved = reconcileSchedule(open, items, 0).changes.filter(c => c.kind === "moved");
+    expect(moved).toEqual([
+      { kind: "moved", title: "Spelling", detail: "#2 → #1" },
+      { kind: "moved", title: "Fractions", detail: "#1 → #2" },
+    ]);
+  });
+});
+
+describe("applyScheduleProposal", () => {
+  it("keeps finished tasks in place and puts extra breaks after the last open slot", () => {
+    const done = task("Reading", "English", TaskStatus.COMPLETED);
+    const skipped = task("Piano", "Music", TaskStatus.SKIPPED);
+    const day = [task("Fractions", "Math"), done, task("Spelling", "English"), skipped];
+    const proposal = reconcileSchedule(day.filter(t => t.status === TaskStatus.PENDING),
+      [item("Spelling", "English"), item("Stretch", "Rest", true), item("Fractions", "Math")], 0);
+
+    expect(applyScheduleProposal(day, proposal).map(t => t.title)).toEqual(["Spelling", "Reading", "Stretch", "Fractions", "Piano"]);
+  });
+});
@@ -0,0 +1,178 @@
+import { Task, TaskStatus } from "../types";
+import { ScheduleItem } from "./scheduler";
+
+const MIN_TASK_MINUTES = 1;
+const MAX_TASK_MINUTES = 480; // Same cap as TaskInput
+const MIN_BREAK_MINUTES = 3;
+const MAX_BREAK_MINUTES = 15;
+
+export type ScheduleChangeKind =
+  | 'added-break'
+  | 'moved'
+  | 'renamed'
+  | 'duration-kept'
+  | 'dropped-unknown'
+  | 'dropped-duplicate'
+  | 'restored-missing'
+  | 'invalid-entry';
+
+export interface ScheduleChange {
+  kind: ScheduleChangeKind;
+  title: string;
+  detail?: string;
+}
+
+export interface ScheduleProposal {
+  before: Task[];
+  after: Task[];
+  changes: ScheduleChange[];
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Checks the raw scheduler response entry by entry. Malformed entries are
+ * dropped and reported rather than failing the whole response.
+ */
+export const parseScheduleResponse = (raw: unknown): { items: ScheduleItem[]; changes: ScheduleChange[] } => {
+  const items: ScheduleItem[] = [];
+  const changes: ScheduleChange[] = [];
+
+  if (!Array.isArray(raw)) {
+    return { items, changes: [{ kind: 'invalid-entry', title: 'Response', detail: 'Expected a list of missions' }] };
+  }
+
+  raw.forEach((entry, idx) => {
+    const e = entry as Record<string, unknown> | null;
+    const title = typeof e?.title === 'string' ? e.title.trim() : '';
+    const minutes = typeof e?.estimatedMinutes === 'number' ? e.estimatedMinutes : Number(e?.estimatedMinutes);
+
+    if (!e || !title || !Number.isFinite(minutes)) {
+      changes.push({ kind: 'invalid-entry', title: title || `Entry ${idx + 1}`, detail: 'Missing title or duration' });
+      return;
+    }
+
+    items.push({
+      title,
+      subject: typeof e.subject === 'string' && e.subject.trim() ? e.subject.trim() : 'General',
+      estimatedMinutes: minutes,
+      isBreak: e.isBreak === true,
+      emoji: typeof e.emoji === 'string' && e.emoji.trim() ? e.emoji.trim() : '📅',
+      sourceIndex: typeof e.sourceIndex === 'number' ? e.sourceIndex : undefined,
+    });
+  });
+
+  return { items, changes };
+};
+
+/**
+ * Maps scheduler output back onto the tasks that were sent. Every input task
+ * appears exactly once with its id, status and estimate intact; the only new
+ * entries allowed are breaks. Anything else is dropped or restored and listed
+ * in `changes` so the user can review it before applying.
+ */
+export const reconcileSchedule = (openTasks: Task[], items: ScheduleItem[], now: number = Date.now()): ScheduleProposal => {
+  const used = new Set<number>();
+  const changes: ScheduleChange[] = [];
+  const after: Task[] = [];
+
+  const isFree = (idx: number) => idx >= 0 && idx < openTasks.length && !used.has(idx);
+
+  const findMatch = (item: ScheduleItem): number => {
+    if (item.sourceIndex !== undefined && isFree(item.sourceIndex) && !!openTasks[item.sourceIndex].isBreak === item.isBreak) {
+      return item.sourceIndex;
+    }
+    const exact = openTasks.findIndex((t, idx) => isFree(idx) && normalize(t.title) === normalize(item.title) && !!t.isBreak === item.isBreak);
+    if (exact >= 0 || item.isBreak) return exact;
+
+    // Lightly reworded titles within the same subject still count as the same mission
+    const reworded = openTasks.findIndex((t, idx) => isFree(idx) && !t.isBreak && t.subject === item.subject &&
+      (normalize(item.title).includes(normalize(t.title)) || normalize(t.title).includes(normalize(item.title))));
+    if (reworded >= 0) return reworded;
+
+    // Last resort: the only unused mission of that subject
+    const sameSubject = openTasks.map((t, idx) => idx).filter(idx => isFree(idx) && !openTasks[idx].isBreak && openTasks[idx].subject === item.subject);
+    return sameSubject.length === 1 ? sameSubject[0] : -1;
+  };
+
+  items.forEach((item, position) => {
+    const match = findMatch(item);
+
+    if (match >= 0) {
+      const original = openTasks[match];
+      used.add(match);
+      if (normalize(original.title) !== normalize(item.title)) {
+        changes.push({ kind: 'renamed', title: original.title, detail: `Scheduler called it "${item.title}"` });
+      }
+      if (!original.isBreak && Math.round(item.estimatedMinutes) !== original.estimatedMinutes) {
+        changes.push({ kind: 'duration-kept', title: original.title, detail: `Suggested ${Math.round(item.estimatedMinutes)}m, kept ${original.estimatedMinutes}m` });
+      }
+      after.push({ ...original, emoji: original.emoji || item.emoji });
+      return;
+    }
+
+    const alreadyPlaced = openTasks.some((t, idx) => used.has(idx) && normalize(t.title) === normalize(item.title));
+    if (alreadyPlaced) {
+      changes.push({ kind: 'dropped-duplicate', title: item.title });
+      return;
+    }
+
+    if (!item.isBreak) {
+      changes.push({ kind: 'dropped-unknown', title: item.title, detail: 'Not one of your missions' });
+      return;
+    }
+
+    const minutes = clamp(Math.round(item.estimatedMinutes), MIN_BREAK_MINUTES, MAX_BREAK_MINUTES);
+    changes.push({ kind: 'added-break', title: item.title, detail: `${minutes}m` });
+    after.push({
+      id: `task-${now}-${position}`,
+      title: item.title,
+      subject: item.subject || 'Rest',
+      estimatedMinutes: minutes,
+      isBreak: true,
+      emoji: item.emoji,
+      status: TaskStatus.PENDING,
+    });
+  });
+
+  // Anything the scheduler forgot goes back at the end rather than vanishing
+  openTasks.forEach((task, idx) => {
+    if (used.has(idx)) return;
+    changes.push({ kind: 'restored-missing', title: task.title, detail: 'Left out by the scheduler' });
+    after.push(task);
+  });
+
+  // Order is compared among the missions only, so inserted breaks do not count as moves
+  const missionsBefore = openTasks.filter(t => !t.isBreak).map(t => t.id);
+  const missionsAfter = after.filter(t => !t.isBreak && missionsBefore.includes(t.id)).map(t => t.id);
+  missionsAfter.forEach((id, idx) => {
+    const previousIdx = missionsBefore.indexOf(id);
+    if (previousIdx !== idx) {
+      const task = openTasks.find(t => t.id === id)!;
+      changes.push({ kind: 'moved', title: task.title, detail: `#${previousIdx + 1} → #${idx + 1}` });
+    }
+  });
+
+  const clamped = after.map(task => ({ ...task, estimatedMinutes: clamp(task.estimatedMinutes, MIN_TASK_MINUTES, MAX_TASK_MINUTES) }));
+
+  return { before: openTasks, after: clamped, changes };
+};
+
+/**
+ * Lays the accepted plan over the day. Finished and skipped tasks keep their
+ * positions; the planned tasks fill the open slots in their new order, and
+ * any extra breaks follow the last open slot.
+ */
+export const applyScheduleProposal = (dayTasks: Task[], proposal: ScheduleProposal): Task[] => {
+  const plannedIds = new Set(proposal.before.map(t => t.id));
+  const lastSlot = dayTasks.reduce((last, t, idx) => plannedIds.has(t.id) ? idx : last, -1);
+  if (lastSlot < 0) return [...dayTasks, ...proposal.after];
+
+  const queue = [...proposal.after];
+  return dayTasks.flatMap((task, idx) => {
+    if (!plannedIds.has(task.id)) return [task];
+    return idx === lastSlot ? queue.splice(0) : queue.splice(0, 1);
+  });
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { Task } from "../types";
+import { buildLocalSchedule } from "./scheduler";
+
+const task = (title: string, subject: string, estimatedMinutes: number, isBreak = false): Partial<Task> =>
+  ({ title, subject, estimatedMinutes, isBreak });
+
+describe("buildLocalSchedule", () => {
+  it("gives the same plan for the same input", () => {
+    const tasks = [
+      task("Fractions", "Math", 20),
+      task("Spelling", "English", 15),
+      task("Long division", "Math", 25),
+      task("Poem", "Chinese", 20),
+    ];
+
+    expect(buildLocalSchedule(tasks)).toEqual(buildLocalSchedule(tasks));
+  });
+
+  it("alternates subjects and keeps every task", () => {
+    const tasks = [
+      task("Fractions", "Math", 20),
+      task("Long division", "Math", 25),
+      task("Spelling", "English", 15),
+    ];
+
+    const focus = buildLocalSchedule(tasks).items.filter(i => !i.isBreak);
+    expect(focus.map(i => i.subject)).toEqual(["Math", "English", "Math"]);
+    expect(focus.map(i => i.sourceIndex).sort()).toEqual([0, 1, 2]);
+  });
+
+  it("adds no breaks while the day stays under 45 minutes", () => {
+    const tasks = [task("Fractions", "Math", 20), task("Spelling", "English", 15)];
+
+    expect(buildLocalSchedule(tasks).items.some(i => i.isBreak)).toBe(false);
+  });
+
+  it("adds breaks after hard subjects only", () => {
+    const tasks = [
+      task("Fractions", "Math", 30),
+      task("Spelling", "English", 20),
+      task("Drawing", "Art", 10),
+    ];
+
+    const { items } = buildLocalSchedule(tasks);
+    expect(items.map(i => i.isBreak ? "break" : i.subject)).toEqual(["Math", "break", "English", "break", "Art"]);
+    // Longer tasks earn a longer break
+    expect(items[1]).toMatchObject({ subject: "Rest", estimatedMinutes: 10 });
+    expect(items[3]).toMatchObject({ subject: "Rest", estimatedMinutes: 5 });
+    expect(items[1].sourceIndex).toBeUndefined();
+  });
+
+  it("reuses breaks the child already planned before adding new ones", () => {
+    const tasks = [
+      task("Fractions", "Math", 30),
+      task("Juice", "Rest", 7, true),
+      task("Spelling", "English", 20),
+    ];
+
+    const breaks = buildLocalSchedule(tasks).items.filter(i => i.isBreak);
+    expect(breaks).toHaveLength(1);
+    expect(breaks[0]).toMatchObject({ title: "Juice", estimatedMinutes: 7, sourceIndex: 1 });
+  });
+
+  it("adds no break after the last task", () => {
+    const tasks = [task("Drawing", "Art", 20), task("Fractions", "Math", 30)];
+
+    const { items } = buildLocalSchedule(tasks);
+    expect(items.map(i => i.isBreak ? "break" : i.subject)).toEqual(["Math", "break", "Art"]);
+  });
+
+  it("trims added breaks to fit the budget and reports homework that still does not fit", () => {
+    const tasks = [
+      task("Fractions", "Math", 30),
+      task("Spelling", "English", 20),
+      task("Poem", "Chinese", 20),
+    ];
+
+    const fitted = buildLocalSchedule(tasks, { availableTimeMinutes: 70 });
+    expect(fitted.items.some(i => i.isBreak)).toBe(false);
+    expect(fitted.totalMinutes).toBe(70);
+    expect(fitted.overBudgetMinutes).toBe(0);
+
+    const tight = buildLocalSchedule(tasks, { availableTimeMinutes: 60 });
+    expect(tight.items.filter(i => !i.isBreak)).toHaveLength(3);
+    expect(tight.overBudgetMinutes).toBe(10);
+  });
+});
@@ -0,0 +1,172 @@
+import { Task } from "../types";
+
+// Mirrors the rules given to Gemini in generateOptimizedSchedule
+const BREAK_THRESHOLD_MINUTES = 45;
+const SHORT_BREAK_MINUTES = 5;
+const LONG_BREAK_MINUTES = 10;
+const LONG_TASK_MINUTES = 30;
+
+export const DEFAULT_HARD_SUBJECTS = ['Math', 'English', 'Chinese'];
+
+const SUBJECT_EMOJI: Record<string, string> = {
+  Math: '📐',
+  English: '📖',
+  Chinese: '📚',
+  Rest: '☕',
+};
+
+const BREAK_IDEAS = [
+  { title: 'Stretch Break', emoji: '🤸' },
+  { title: 'Snack Time', emoji: '🍎' },
+  { title: 'Water Break', emoji: '🧃' },
+  { title: 'Dance Break', emoji: '💃' },
+];
+
+export interface ScheduleItem {
+  title: string;
+  subject: string;
+  estimatedMinutes: number;
+  isBreak: boolean;
+  emoji: string;
+  sourceIndex?: number; // Index into the input tasks; absent for breaks added by the scheduler
+}
+
+export interface LocalScheduleOptions {
+  availableTimeMinutes?: number;
+  hardSubjects?: string[];
+}
+
+export interface LocalScheduleResult {
+  items: ScheduleItem[];
+  totalMinutes: number;
+  overBudgetMinutes: number; // Homework that still does not fit once breaks are trimmed
+}
+
+/**
+ * Orders focus tasks so the same subject rarely comes twice in a row:
+ * always pick the subject with the most minutes left that differs from the last one.
+ * Ties fall back to input order, so the same input always gives the same plan.
+ */
+const alternateSubjects = (tasks: { task: Partial<Task>; index: number }[]) => {
+  const queues = new Map<string, { task: Partial<Task>; index: number }[]>();
+  tasks.forEach(entry => {
+    const subject = entry.task.subject || 'General';
+    queues.set(subject, [...(queues.get(subject) || []), entry]);
+  });
+
+  const ordered: { task: Partial<Task>; index: number }[] = [];
+  let lastSubject: string | null = null;
+
+  while (ordered.length < tasks.length) {
+    const candidates = Array.from(queues.entries()).filter(([, queue]) => queue.length > 0);
+    const remaining = (queue: { task: Partial<Task> }[]) => queue.reduce((acc, e) => acc + (e.task.estimatedMinutes || 0), 0);
+    candidates.sort(([subA, queueA], [subB, queueB]) => {
+      if ((subA === lastSubject) !== (subB === lastSubject)) return subA === lastSubject ? 1 : -1;
+      const diff = remaining(queueB) - remaining(queueA);
+      return diff !== 0 ? diff : queueA[0].index - queueB[0].index;
+    });
+    const [subject, queue] = candidates[0];
+    ordered.push(queue.shift()!);
+    lastSubject = subject;
+  }
+
+  return ordered;
+};
+
+/**
+ * Deterministic, offline scheduler following the same rules as the AI prompt:
+ * alternate subjects, add 5–10 minute breaks after hard subjects once the
+ * day runs over 45 minutes, and keep within the available time where possible.
+ */
+export const buildLocalSchedule = (tasks: Partial<Task>[], options: LocalScheduleOptions = {}): LocalScheduleResult => {
+  const hardSubjects = options.hardSubjects || DEFAULT_HARD_SUBJECTS;
+  const indexed = tasks.map((task, index) => ({ task, index }));
+  const focusTasks = indexed.filter(e => !e.task.isBreak);
+  // Breaks the child already planned are reused before new ones are invented
+  const existingBreaks = indexed.filter(e => e.task.isBreak);
+
+  const ordered = alternateSubjects(focusTasks);
+  const focusMinutes = ordered.reduce((acc, e) => acc + (e.task.estimatedMinutes || 0), 0);
+  const needsBreaks = focusMinutes > BREAK_THRESHOLD_MINUTES;
+
+  const items: ScheduleItem[] = [];
+  let breakIdea = 0;
+
+  ordered.forEach((entry, position) => {
+    const { task, index } = entry;
+    const subject = task.subject || 'General';
+    items.push({
+      title: task.title || 'Mission',
+      subject,
+      estimatedMinutes: task.estimatedMinutes || 0,
+      isBreak: false,
+      emoji: task.emoji || SUBJECT_EMOJI[subject] || '📝',
+      sourceIndex: index,
+    });
+
+    const isLast = position === ordered.length - 1;
+    if (!needsBreaks || isLast || !hardSubjects.includes(subject)) return;
+
+    const planned = existingBreaks.shift();
+    if (planned) {
+      items.push({
+        title: planned.task.title || 'Break',
+        subject: planned.task.subject || 'Rest',
+        estimatedMinutes: planned.task.estimatedMinutes || SHORT_BREAK_MINUTES,
+        isBreak: true,
+        emoji: planned.task.emoji || '☕',
+        sourceIndex: planned.index,
+      });
+      return;
+    }
+
+    const idea = BREAK_IDEAS[breakIdea++ % BREAK_IDEAS.length];
+    items.push({
+      title: idea.title,
+      subject: 'Rest',
+      estimatedMinutes: (task.estimatedMinutes || 0) >= LONG_TASK_MINUTES ? LONG_BREAK_MINUTES : SHORT_BREAK_MINUTES,
+      isBreak: true,
+      emoji: idea.emoji,
+    });
+  });
+
+  // Planned breaks that found no slot still belong to the day
+  existingBreaks.forEach(({ task, index }) => items.push({
+    title: task.title || 'Break',
+    subject: task.subject || 'Rest',
+    estimatedMinutes: task.estimatedMinutes || SHORT_BREAK_MINUTES,
+    isBreak: true,
+    emoji: task.emoji || '☕',
+    sourceIndex: index,
+  }));
+
+  return fitToBudget(items, options.availableTimeMinutes);
+};
+
+/**
+ * Homework is never dropped to meet a budget. Added breaks are shortened
+ * first, then removed from the end, and whatever is left over is reported.
+ */
+const fitToBudget = (items: ScheduleItem[], availableTimeMinutes?: number): LocalScheduleResult => {
+  const total = (list: ScheduleItem[]) => list.reduce((acc, i) => acc + i.estimatedMinutes, 0);
+  let fitted = items;
+
+  if (availableTimeMinutes && total(fitted) > availableTimeMinutes) {
+    fitted = fitted.map(i => i.isBreak && i.sourceIndex === undefined
+      ? { ...i, estimatedMinutes: Math.min(i.estimatedMinutes, SHORT_BREAK_MINUTES) }
+      : i);
+
+    for (let i = fitted.length - 1; i >= 0 && total(fitted) > availableTimeMinutes; i--) {
+      if (fitted[i].isBreak && fitted[i].sourceIndex === undefined) {
+        fitted = [...fitted.slice(0, i), ...fitted.slice(i + 1)];
+      }
+    }
+  }
+
+  const totalMinutes = total(fitted);
+  return {
+    items: fitted,
+    totalMinutes,
+    overBudgetMinutes: availableTimeMinutes ? Math.max(0, totalMinutes - availableTimeMinutes) : 0,
+  };
+};
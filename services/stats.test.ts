@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { Task, TaskStatus } from "../types";
+import { aggregateHistory, summarizeDay } from "./stats";
+
+const task = (id: string, status: TaskStatus): Task =>
+  ({ id, title: id, subject: "Math", estimatedMinutes: 20, status, actualDurationSeconds: 60 * 25 });
+
+describe("summarizeDay", () => {
+  it("counts missions waiting for sign-off as finished and flags them", () => {
+    const summary = summarizeDay([
+      task("a", TaskStatus.COMPLETED),
+      task("b", TaskStatus.REVIEW),
+      task("c", TaskStatus.PENDING),
+    ]);
+
+    expect(summary).toMatchObject({ completedCount: 2, awaitingSignOffCount: 1, totalCount: 3, focusSeconds: 60 * 50 });
+    expect(summary.rows.map(r => [r.task.id, r.awaitingSignOff])).toEqual([["a", false], ["b", true]]);
+  });
+});
+
+describe("aggregateHistory", () => {
+  it("keeps missions awaiting sign-off out of the completion rate but counts them", () => {
+    const stats = aggregateHistory({
+      "2026-03-02": [task("a", TaskStatus.COMPLETED), task("b", TaskStatus.REVIEW)],
+    }, "2026-03-01", "2026-03-07");
+
+    expect(stats).toMatchObject({ taskCount: 2, completedCount: 1, awaitingSignOffCount: 1, completionRate: 0.5 });
+  });
+});
@@ -0,0 +1,317 @@
+import { Task, TaskStatus } from "../types";
+import { getWeekdayOfKey, keyToUtc, shiftDateKey, utcToKey } from "./dates";
+import { PauseSummary, summarizePauses } from "./pauses";
+import { isHandedIn } from "./parentMode";
+
+// Gap between two completed tasks that still counts as one focus streak
+const STREAK_GAP_SECONDS = 10 * 60;
+
+export interface TaskSummaryRow {
+  task: Task;
+  estimatedSeconds: number;
+  actualSeconds: number;
+  deltaSeconds: number; // Positive when the task ran over its estimate
+  awaitingSignOff: boolean;
+}
+
+export interface SubjectTotal {
+  subject: string;
+  estimatedSeconds: number;
+  actualSeconds: number;
+  taskCount: number;
+}
+
+export interface DaySummary {
+  rows: TaskSummaryRow[];
+  subjects: SubjectTotal[];
+  completedCount: number;
+  awaitingSignOffCount: number; // Handed in, still waiting for a parent
+  totalCount: number;
+  focusSeconds: number;
+  estimatedFocusSeconds: number;
+  breakSeconds: number;
+  breakCount: number;
+  longestStreakSeconds: number;
+  longestStreakTasks: number;
+}
+
+export const getActualSeconds = (task: Task) =>
+  task.actualDurationSeconds ?? task.estimatedMinutes * 60;
+
+/**
+ * Longest run of finished focus tasks not interrupted by a break
+ * or by a long gap between finishing one task and starting the next.
+ */
+const findLongestStreak = (tasks: Task[]) => {
+  const finished = tasks
+    .filter(t => isHandedIn(t) && t.completedAt)
+    .sort((a, b) => (a.completedAt || 0) - (b.completedAt || 0));
+
+  let best = { seconds: 0, tasks: 0 };
+  let current = { seconds: 0, tasks: 0 };
+  let lastEnd: number | null = null;
+
+  finished.forEach(t => {
+    const seconds = getActualSeconds(t);
+    const start = (t.completedAt || 0) - seconds * 1000;
+    const gapTooLong = lastEnd !== null && (start - lastEnd) / 1000 > STREAK_GAP_SECONDS;
+
+    if (t.isBreak || gapTooLong) {
+      current = { seconds: 0, tasks: 0 };
+    }
+    if (!t.isBreak) {
+      current = { seconds: current.seconds + seconds, tasks: current.tasks + 1 };
+      if (current.seconds > best.seconds) best = current;
+    }
+    lastEnd = t.completedAt || null;
+  });
+
+  // Older records carry no completion time, so fall back to list order
+  if (finished.length === 0) {
+    tasks.forEach(t => {
+      if (!isHandedIn(t) || t.isBreak) {
+        current = { seconds: 0, tasks: 0 };
+        return;
+      }
+      current = { seconds: current.seconds + getActualSeconds(t), tasks: current.tasks + 1 };
+      if (current.seconds > best.seconds) best = current;
+    });
+  }
+
+  return best;
+};
+
+/**
+ * Builds the end-of-day numbers shown on the Summary screen. Work waiting for
+ * sign-off counts as finished here; the child did it, a parent just hasn't looked yet.
+ */
+export const summarizeDay = (tasks: Task[]): DaySummary => {
+  const completed = tasks.filter(isHandedIn);
+  const focusTasks = completed.filter(t => !t.isBreak);
+  const breakTasks = completed.filter(t => t.isBreak);
+
+  const rows: TaskSummaryRow[] = focusTasks.map(task => {
+    const estimatedSeconds = task.estimatedMinutes * 60;
+    const actualSeconds = getActualSeconds(task);
+    return {
+      task,
+      estimatedSeconds,
+      actualSeconds,
+      deltaSeconds: actualSeconds - estimatedSeconds,
+      awaitingSignOff: task.status === TaskStatus.REVIEW,
+    };
+  });
+
+  const subjectMap = new Map<string, SubjectTotal>();
+  rows.forEach(({ task, estimatedSeconds, actualSeconds }) => {
+    const entry = subjectMap.get(task.subject) || { subject: task.subject, estimatedSeconds: 0, actualSeconds: 0, taskCount: 0 };
+    entry.estimatedSeconds += estimatedSeconds;
+    entry.actualSeconds += actualSeconds;
+    entry.taskCount += 1;
+    subjectMap.set(task.subject, entry);
+  });
+
+  const streak = findLongestStreak(tasks);
+
+  return {
+    rows,
+    subjects: Array.from(subjectMap.values()).sort((a, b) => b.actualSeconds - a.actualSeconds),
+    completedCount: completed.length,
+    awaitingSignOffCount: completed.filter(t => t.status === TaskStatus.REVIEW).length,
+    totalCount: tasks.length,
+    focusSeconds: rows.reduce((acc, r) => acc + r.actualSeconds, 0),
+    estimatedFocusSeconds: rows.reduce((acc, r) => acc + r.estimatedSeconds, 0),
+    breakSeconds: breakTasks.reduce((acc, t) => acc + getActualSeconds(t), 0),
+    breakCount: breakTasks.length,
+    longestStreakSeconds: streak.seconds,
+    longestStreakTasks: streak.tasks,
+  };
+};
+
+export const formatDuration = (seconds: number) => {
+  const total = Math.round(Math.abs(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  if (h > 0) return `${h}h ${m}m`;
+  if (m > 0) return s > 0 ? `${m}m ${s}s` : `${m}m`;
+  return `${s}s`;
+};
+
+// Tasks within this share of their estimate count as "on target"
+const ACCURACY_TOLERANCE = 0.2;
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface PeriodBucket {
+  start: string; // Date key of the Monday, or of the 1st for a month
+  minutesBySubject: Record<string, number>;
+  totalMinutes: number;
+}
+
+export interface WeekdayStat {
+  weekday: string;
+  taskCount: number;
+  completionRate: number;
+  averageOvertimeMinutes: number;
+  averageRatio: number; // actual / estimated, 1 means spot on
+}
+
+export interface SubjectAccuracy {
+  subject: string;
+  taskCount: number;
+  estimatedMinutes: number;
+  actualMinutes: number;
+}
+
+export interface HistoryStats {
+  weeks: PeriodBucket[];
+  months: PeriodBucket[];
+  subjects: string[];
+  weekdays: WeekdayStat[];
+  subjectAccuracy: SubjectAccuracy[];
+  activeDays: number;
+  taskCount: number;
+  completedCount: number;
+  /** Handed in but not signed off yet, so not part of the completion numbers */
+  awaitingSignOffCount: number;
+  skippedCount: number;
+  /** Missions sitting on a later day than they were first planned for */
+  carriedOverCount: number;
+  completionRate: number;
+  onTargetRate: number;
+  averageRatio: number;
+  averageOvertimeMinutes: number;
+  /** Stops on the timer across finished missions, to tell slow work from interrupted work */
+  pauses: PauseSummary;
+  interruptedCount: number;
+}
+
+const getWeekStartKey = (dateKey: string) => {
+  const date = keyToUtc(dateKey);
+  const offset = (date.getUTCDay() + 6) % 7; // Monday-based weeks
+  date.setUTCDate(date.getUTCDate() - offset);
+  return utcToKey(date);
+};
+
+const getMonthStartKey = (dateKey: string) => `${dateKey.slice(0, 7)}-01`;
+
+const getNextMonthKey = (monthKey: string) => {
+  const date = keyToUtc(monthKey);
+  date.setUTCMonth(date.getUTCMonth() + 1);
+  return utcToKey(date);
+};
+
+/**
+ * Aggregates history between two date keys (inclusive) for the parent dashboard.
+ * Only keys inside the range are touched, so months of data stay cheap.
+ */
+export const aggregateHistory = (history: Record<string, Task[]>, fromKey: string, toKey: string): HistoryStats => {
+  const dayKeys = Object.keys(history)
+    .filter(key => key >= fromKey && key <= toKey && history[key].length > 0)
+    .sort();
+
+  const weekMap = new Map<string, PeriodBucket>();
+  const monthMap = new Map<string, PeriodBucket>();
+  const subjectSet = new Set<string>();
+  const subjectMap = new Map<string, SubjectAccuracy>();
+  const weekdayAcc = WEEKDAY_NAMES.map(() => ({ tasks: 0, completed: 0, overtime: 0, ratioSum: 0, ratioCount: 0 }));
+
+  let taskCount = 0;
+  let completedCount = 0;
+  let awaitingSignOffCount = 0;
+  let skippedCount = 0;
+  let carriedOverCount = 0;
+  let onTarget = 0;
+  let ratioSum = 0;
+  let ratioCount = 0;
+  let overtimeSum = 0;
+  const finished: Task[] = [];
+
+  // Pre-fill empty weeks and months so gaps show up on the chart
+  if (dayKeys.length > 0) {
+    const firstKey = fromKey < dayKeys[0] ? dayKeys[0] : fromKey;
+    const lastKey = dayKeys[dayKeys.length - 1];
+    for (let key = getWeekStartKey(firstKey); key <= getWeekStartKey(lastKey); key = shiftDateKey(key, 7)) {
+      weekMap.set(key, { start: key, minutesBySubject: {}, totalMinutes: 0 });
+    }
+    for (let key = getMonthStartKey(firstKey); key <= getMonthStartKey(lastKey); key = getNextMonthKey(key)) {
+      monthMap.set(key, { start: key, minutesBySubject: {}, totalMinutes: 0 });
+    }
+  }
+
+  dayKeys.forEach(dayKey => {
+    const weekday = getWeekdayOfKey(dayKey);
+    const periods = [weekMap.get(getWeekStartKey(dayKey))!, monthMap.get(getMonthStartKey(dayKey))!];
+
+    history[dayKey].filter(t => !t.isBreak).forEach(task => {
+      taskCount++;
+      weekdayAcc[weekday].tasks++;
+      if (task.originalDate) carriedOverCount++;
+      if (task.status === TaskStatus.SKIPPED) skippedCount++;
+      if (task.status === TaskStatus.REVIEW) awaitingSignOffCount++;
+      if (task.status !== TaskStatus.COMPLETED) return;
+
+      completedCount++;
+      weekdayAcc[weekday].completed++;
+      finished.push(task);
+
+      const actualMinutes = getActualSeconds(task) / 60;
+      periods.forEach(period => {
+        period.minutesBySubject[task.subject] = (period.minutesBySubject[task.subject] || 0) + actualMinutes;
+        period.totalMinutes += actualMinutes;
+      });
+      subjectSet.add(task.subject);
+
+      const accuracy = subjectMap.get(task.subject) || { subject: task.subject, taskCount: 0, estimatedMinutes: 0, actualMinutes: 0 };
+      accuracy.taskCount++;
+      accuracy.estimatedMinutes += task.estimatedMinutes;
+      accuracy.actualMinutes += actualMinutes;
+      subjectMap.set(task.subject, accuracy);
+
+      // Only timed tasks say anything about how good the estimate was
+      if (task.actualDurationSeconds === undefined || task.estimatedMinutes <= 0) return;
+      const ratio = actualMinutes / task.estimatedMinutes;
+      const overtime = Math.max(0, actualMinutes - task.estimatedMinutes);
+      ratioSum += ratio;
+      ratioCount++;
+      overtimeSum += overtime;
+      if (Math.abs(ratio - 1) <= ACCURACY_TOLERANCE) onTarget++;
+      weekdayAcc[weekday].overtime += overtime;
+      weekdayAcc[weekday].ratioSum += ratio;
+      weekdayAcc[weekday].ratioCount++;
+    });
+  });
+
+  // Monday first, matching the weekly buckets
+  const weekdays = [1, 2, 3, 4, 5, 6, 0].map(i => {
+    const acc = weekdayAcc[i];
+    return {
+      weekday: WEEKDAY_NAMES[i],
+      taskCount: acc.tasks,
+      completionRate: acc.tasks > 0 ? acc.completed / acc.tasks : 0,
+      averageOvertimeMinutes: acc.ratioCount > 0 ? acc.overtime / acc.ratioCount : 0,
+      averageRatio: acc.ratioCount > 0 ? acc.ratioSum / acc.ratioCount : 0,
+    };
+  });
+
+  return {
+    weeks: Array.from(weekMap.values()),
+    months: Array.from(monthMap.values()),
+    subjects: Array.from(subjectSet).sort(),
+    weekdays,
+    subjectAccuracy: Array.from(subjectMap.values()).sort((a, b) => b.actualMinutes - a.actualMinutes),
+    activeDays: dayKeys.length,
+    taskCount,
+    completedCount,
+    awaitingSignOffCount,
+    skippedCount,
+    carriedOverCount,
+    completionRate: taskCount > 0 ? completedCount / taskCount : 0,
+    onTargetRate: ratioCount > 0 ? onTarget / ratioCount : 0,
+    averageRatio: ratioCount > 0 ? ratioSum / ratioCount : 0,
+    averageOvertimeMinutes: ratioCount > 0 ? overtimeSum / ratioCount : 0,
+    pauses: summarizePauses(finished),
+    interruptedCount: finished.filter(t => (t.pauses || []).length > 0).length,
+  };
+};
@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { SCHEMA_VERSION } from "./migrations";
+import { onStorageError, readRecord, StorageError, writeRecords } from "./storage";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("storage", () => {
+  it("keeps reading but stops writing when saved data can't be upgraded", async () => {
+    const saved = new Map<string, string>([
+      ["kiddotime_db:schema_version", JSON.stringify(SCHEMA_VERSION + 1)],
+      ["kiddotime_db:profiles", JSON.stringify([{ id: "p1" }])],
+    ]);
+    vi.stubGlobal("localStorage", {
+      get length() { return saved.size; },
+      key: (i: number) => Array.from(saved.keys())[i] ?? null,
+      getItem: (key: string) => saved.get(key) ?? null,
+      setItem: (key: string, value: string) => { saved.set(key, value); },
+      removeItem: (key: string) => { saved.delete(key); },
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const errors: StorageError[] = [];
+    onStorageError(error => errors.push(error));
+
+    expect(await readRecord("profiles", [])).toEqual([{ id: "p1" }]);
+    expect(await writeRecords({ profiles: [] })).toBe(false);
+
+    expect(saved.get("kiddotime_db:profiles")).toBe(JSON.stringify([{ id: "p1" }]));
+    expect(errors.filter(e => e.level === "error").map(e => e.action)).toEqual(["upgrade saved data", "save"]);
+  });
+});
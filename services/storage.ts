@@ -0,0 +1,220 @@
+import { runMigrations } from "./migrations";
+
+/**
+ * Persistence for everything a profile owns. Records are JSON values under
+ * string keys; IndexedDB is used when the browser has it, localStorage
+ * otherwise. The schema is versioned and migrated once on first access.
+ */
+
+export type StorageBackendKind = 'indexeddb' | 'localstorage';
+
+export interface StorageBackend {
+  kind: StorageBackendKind;
+  get: <T>(key: string) => Promise<T | undefined>;
+  /** Every record whose key starts with the prefix, keyed by full key */
+  getByPrefix: <T>(prefix: string) => Promise<Record<string, T>>;
+  /** Puts and removals land together or not at all */
+  write: (puts: Record<string, unknown>, removals?: string[]) => Promise<void>;
+  removeByPrefix: (prefix: string) => Promise<void>;
+}
+
+export interface StorageError {
+  action: string;
+  message: string;
+  level: 'error' | 'notice'; // Notices tell the family something changed; nothing was lost
+}
+
+const DB_NAME = 'kiddotime';
+const DB_VERSION = 1;
+const STORE_NAME = 'records';
+const LOCAL_PREFIX = 'kiddotime_db:';
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new Error('IndexedDB is not available'));
+    return;
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(new Error('IndexedDB is blocked by another tab'));
+});
+
+const prefixRange = (prefix: string) => IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+
+const createIndexedDBBackend = (db: IDBDatabase): StorageBackend => {
+  const readStore = () => db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+
+  // Resolve on commit rather than on request success, so quota errors surface
+  const writeTransaction = (apply: (store: IDBObjectStore) => void) => new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Write was aborted'));
+    apply(tx.objectStore(STORE_NAME));
+  });
+
+  return {
+    kind: 'indexeddb',
+    get: async <T>(key: string) => (await requestToPromise(readStore().get(key))) as T | undefined,
+    getByPrefix: async <T>(prefix: string) => {
+      const store = readStore();
+      const [keys, values] = await Promise.all([
+        requestToPromise(store.getAllKeys(prefixRange(prefix))),
+        requestToPromise(store.getAll(prefixRange(prefix))),
+      ]);
+      return Object.fromEntries(keys.map((key, idx) => [String(key), values[idx] as T]));
+    },
+    write: (puts, removals = []) => writeTransaction(store => {
+      Object.entries(puts).forEach(([key, value]) => store.put(value, key));
+      removals.forEach(key => store.delete(key));
+    }),
+    removeByPrefix: prefix => writeTransaction(store => { store.delete(prefixRange(prefix)); }),
+  };
+};
+
+const localKeysWithPrefix = (prefix: string) => {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(LOCAL_PREFIX + prefix)) keys.push(key);
+  }
+  return keys;
+};
+
+const createLocalStorageBackend = (): StorageBackend => ({
+  kind: 'localstorage',
+  get: async <T>(key: string) => {
+    const saved = localStorage.getItem(LOCAL_PREFIX + key);
+    return saved === null ? undefined : JSON.parse(saved) as T;
+  },
+  getByPrefix: async <T>(prefix: string) => Object.fromEntries(
+    localKeysWithPrefix(prefix).map(key => [key.slice(LOCAL_PREFIX.length), JSON.parse(localStorage.getItem(key)!) as T])
+  ),
+  write: async (puts, removals = []) => {
+    // localStorage has no transactions; roll back what was written if one put fails
+    const previous = new Map<string, string | null>();
+    try {
+      Object.entries(puts).forEach(([key, value]) => {
+        previous.set(key, localStorage.getItem(LOCAL_PREFIX + key));
+        localStorage.setItem(LOCAL_PREFIX + key, JSON.stringify(value));
+      });
+    } catch (e) {
+      previous.forEach((saved, key) => saved === null
+        ? localStorage.removeItem(LOCAL_PREFIX + key)
+        : localStorage.setItem(LOCAL_PREFIX + key, saved));
+      throw e;
+    }
+    removals.forEach(key => localStorage.removeItem(LOCAL_PREFIX + key));
+  },
+  removeByPrefix: async prefix => {
+    localKeysWithPrefix(prefix).forEach(key => localStorage.removeItem(key));
+  },
+});
+
+// Storage errors are broadcast so the UI can tell the family their work was not saved
+const errorListeners = new Set<(error: StorageError) => void>();
+
+export const onStorageError = (listener: (error: StorageError) => void) => {
+  errorListeners.add(listener);
+  return () => { errorListeners.delete(listener); };
+};
+
+const describeError = (error: unknown) => {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return 'This device is out of storage space.';
+  }
+  return error instanceof Error ? error.message : 'Unknown storage error';
+};
+
+export const reportStorageError = (action: string, error: unknown) => {
+  console.error(`Storage failed to ${action}`, error);
+  const report: StorageError = { action, message: describeError(error), level: 'error' };
+  errorListeners.forEach(listener => listener(report));
+};
+
+const reportStorageNotice = (action: string, message: string) => {
+  const report: StorageError = { action, message, level: 'notice' };
+  errorListeners.forEach(listener => listener(report));
+};
+
+// Writing over data this version could not upgrade would lose it for good,
+// so after a failed migration reads still work and every write is refused
+const readOnly = (backend: StorageBackend, reason: string): StorageBackend => {
+  const refuse = async () => { throw new Error(reason); };
+  return { ...backend, write: refuse, removeByPrefix: refuse };
+};
+
+const openStorage = async (): Promise<StorageBackend> => {
+  let backend: StorageBackend;
+  try {
+    backend = createIndexedDBBackend(await openDatabase());
+  } catch (e) {
+    reportStorageNotice('open the browser database', `${describeError(e)}, so everything is saved to local storage instead.`);
+    backend = createLocalStorageBackend();
+  }
+  try {
+    await runMigrations(backend, () => reportStorageNotice('upgrade saved data', 'Your saved data was updated for this version of the app.'));
+  } catch (e) {
+    reportStorageError('upgrade saved data', e);
+    return readOnly(backend, "Saved data couldn't be upgraded, so changes aren't being saved.");
+  }
+  return backend;
+};
+
+let storagePromise: Promise<StorageBackend> | null = null;
+
+export const getStorage = () => {
+  if (!storagePromise) storagePromise = openStorage();
+  return storagePromise;
+};
+
+/**
+ * Reads one record, falling back when it is missing or unreadable.
+ */
+export const readRecord = async <T>(key: string, fallback: T): Promise<T> => {
+  try {
+    const value = await (await getStorage()).get<T>(key);
+    return value === undefined ? fallback : value;
+  } catch (e) {
+    console.error(`Failed to read ${key}`, e);
+    return fallback;
+  }
+};
+
+export const readRecords = async <T>(prefix: string): Promise<Record<string, T>> => {
+  try {
+    return await (await getStorage()).getByPrefix<T>(prefix);
+  } catch (e) {
+    console.error(`Failed to read ${prefix}*`, e);
+    return {};
+  }
+};
+
+/**
+ * Writes records, reporting (not throwing) on failure. Resolves to whether
+ * the write landed.
+ */
+export const writeRecords = async (puts: Record<string, unknown>, removals: string[] = [], action = 'save') => {
+  try {
+    await (await getStorage()).write(puts, removals);
+    return true;
+  } catch (e) {
+    reportStorageError(action, e);
+    return false;
+  }
+};
+
+export const removeRecords = async (prefix: string) => {
+  try {
+    await (await getStorage()).removeByPrefix(prefix);
+  } catch (e) {
+    reportStorageError('delete', e);
+  }
+};
@@ -0,0 +1,102 @@
+import { Subject, SubjectColor, SubjectDifficulty, Task } from "../types";
+
+// Static class names so Tailwind picks them up
+export const SUBJECT_COLORS: Record<SubjectColor, { chip: string; dot: string; hex: string }> = {
+  blue: { chip: 'bg-blue-100 text-blue-600', dot: 'bg-blue-400', hex: '#3b82f6' },
+  green: { chip: 'bg-green-100 text-green-600', dot: 'bg-green-400', hex: '#22c55e' },
+  red: { chip: 'bg-red-100 text-red-600', dot: 'bg-red-400', hex: '#ef4444' },
+  emerald: { chip: 'bg-emerald-100 text-emerald-600', dot: 'bg-emerald-400', hex: '#34d399' },
+  purple: { chip: 'bg-purple-100 text-purple-600', dot: 'bg-purple-400', hex: '#a855f7' },
+  amber: { chip: 'bg-amber-100 text-amber-600', dot: 'bg-amber-400', hex: '#f59e0b' },
+  pink: { chip: 'bg-pink-100 text-pink-600', dot: 'bg-pink-400', hex: '#ec4899' },
+  sky: { chip: 'bg-sky-100 text-sky-600', dot: 'bg-sky-400', hex: '#0ea5e9' },
+  orange: { chip: 'bg-orange-100 text-orange-600', dot: 'bg-orange-400', hex: '#f97316' },
+  slate: { chip: 'bg-slate-100 text-slate-600', dot: 'bg-slate-400', hex: '#64748b' },
+};
+
+export const DIFFICULTY_LABELS: Record<SubjectDifficulty, string> = {
+  1: 'Easy',
+  2: 'Medium',
+  3: 'Hard',
+};
+
+export const DEFAULT_SUBJECTS: Subject[] = [
+  { id: 'math', name: 'Math', emoji: '📐', color: 'blue', defaultMinutes: 30, difficulty: 3, archived: false },
+  { id: 'english', name: 'English', emoji: '📖', color: 'green', defaultMinutes: 30, difficulty: 3, archived: false },
+  { id: 'chinese', name: 'Chinese', emoji: '📚', color: 'red', defaultMinutes: 30, difficulty: 3, archived: false },
+  { id: 'rest', name: 'Rest', emoji: '☕', color: 'emerald', defaultMinutes: 15, difficulty: 1, archived: false, isBreak: true },
+];
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+export const createSubject = (name: string, registry: Subject[], defaultMinutes = 30): Subject => ({
+  id: `subject-${Date.now()}-${registry.length}`,
+  name: name.trim(),
+  emoji: '⚡',
+  color: 'purple',
+  defaultMinutes,
+  difficulty: 2,
+  archived: false,
+});
+
+/**
+ * The registry entry a task's free-text subject belongs to, by name or alias.
+ */
+export const findSubject = (registry: Subject[], name: string) => {
+  const key = normalize(name);
+  return registry.find(s => normalize(s.name) === key || (s.aliases || []).some(alias => normalize(alias) === key));
+};
+
+export const getSubjectColor = (registry: Subject[], name: string) =>
+  SUBJECT_COLORS[findSubject(registry, name)?.color || 'slate'];
+
+/**
+ * Every name that counts as a hard subject for the schedulers, aliases included.
+ */
+export const getHardSubjectNames = (registry: Subject[]) =>
+  registry.filter(s => s.difficulty === 3 && !s.isBreak).flatMap(s => [s.name, ...(s.aliases || [])]);
+
+/**
+ * Starts a registry from the built-in subjects plus any other names the child
+ * has already used, so nothing in history is left without an entry.
+ */
+export const seedSubjects = (names: string[]) => {
+  const registry = [...DEFAULT_SUBJECTS];
+  names.forEach(name => {
+    if (name.trim() && !findSubject(registry, name)) registry.push(createSubject(name, registry));
+  });
+  return registry;
+};
+
+/**
+ * Subject names in history that have no registry entry, with how many
+ * missions use each. Breaks are left out.
+ */
+export const findUnmappedSubjects = (history: Record<string, Task[]>, registry: Subject[]) => {
+  const counts = new Map<string, number>();
+  Object.values(history).forEach(tasks => tasks.forEach(task => {
+    if (task.isBreak || findSubject(registry, task.subject)) return;
+    counts.set(task.subject, (counts.get(task.subject) || 0) + 1);
+  }));
+  return Array.from(counts.entries()).map(([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count);
+};
+
+/**
+ * Files every item with the subject `fromName` under `toName` instead. Lists
+ * with nothing to change keep their identity.
+ */
+export const remapSubjectName = <T extends { subject: string }>(items: T[], fromName: string, toName: string) => {
+  const key = normalize(fromName);
+  return items.some(item => normalize(item.subject) === key)
+    ? items.map(item => normalize(item.subject) === key ? { ...item, subject: toName } : item)
+    : items;
+};
+
+// Untouched days keep their identity, so only changed days are saved
+export const remapHistorySubject = (history: Record<string, Task[]>, fromName: string, toName: string) => {
+  const next: Record<string, Task[]> = {};
+  Object.entries(history).forEach(([dateKey, tasks]) => {
+    next[dateKey] = remapSubjectName(tasks, fromName, toName);
+  });
+  return next;
+};
@@ -0,0 +1,65 @@
+import { RecurrenceRule, Task, TaskStatus, TaskTemplate } from "../types";
+import { daysBetweenKeys, getWeekdayOfKey } from "./dates";
+
+const WEEKDAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Whether a template produces a task on the given day.
+ */
+export const occursOn = (template: TaskTemplate, dateKey: string): boolean => {
+  if (template.paused) return false;
+  if (dateKey < template.startDate) return false;
+  if (template.endDate && dateKey > template.endDate) return false;
+
+  const weekday = getWeekdayOfKey(dateKey);
+  const { rule } = template;
+
+  switch (rule.kind) {
+    case 'weekdays':
+      return weekday >= 1 && weekday <= 5;
+    case 'weekly':
+      return rule.days.includes(weekday);
+    case 'interval': {
+      const daysSinceStart = daysBetweenKeys(template.startDate, dateKey);
+      return daysSinceStart % Math.max(1, rule.everyDays) === 0;
+    }
+  }
+};
+
+/**
+ * Tasks the templates generate for a day, in template order. Routines are
+ * set up by a parent, so the child can't delete, skip or move them.
+ */
+export const buildTasksFromTemplates = (templates: TaskTemplate[], dateKey: string): Task[] =>
+  templates
+    .filter(template => occursOn(template, dateKey))
+    .map((template, idx) => ({
+      id: `tpl-${template.id}-${dateKey}-${idx}`,
+      title: template.title,
+      subject: template.subject,
+      estimatedMinutes: template.estimatedMinutes,
+      emoji: template.emoji,
+      isBreak: template.isBreak,
+      status: TaskStatus.PENDING,
+      templateId: template.id,
+      parentAssigned: true,
+    }));
+
+export const describeRule = (rule: RecurrenceRule): string => {
+  switch (rule.kind) {
+    case 'weekdays':
+      return 'Every weekday';
+    case 'weekly':
+      return rule.days.length === 7
+        ? 'Every day'
+        : `Every ${[...rule.days].sort().map(d => WEEKDAY_SHORT[d]).join('/')}`;
+    case 'interval':
+      return rule.everyDays === 1 ? 'Every day' : `Every ${rule.everyDays} days`;
+  }
+};
+
+export const createTemplate = (fields: Omit<TaskTemplate, 'id' | 'paused'>): TaskTemplate => ({
+  ...fields,
+  id: `template-${Date.now()}`,
+  paused: false,
+});
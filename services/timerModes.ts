@@ -0,0 +1,127 @@
+import { PomodoroPhase, PomodoroSettings, Task, TimerCycle, TimerMode, TimerSession } from "../types";
+import { getElapsedSeconds } from "./timerSession";
+
+export const TIMER_MODE_LABELS: Record<TimerMode, string> = {
+  'countdown': 'Countdown',
+  'pomodoro': 'Pomodoro',
+  'stopwatch': 'Stopwatch',
+};
+
+export const PHASE_LABELS: Record<PomodoroPhase, string> = {
+  'work': 'Focus',
+  'short-break': 'Short break',
+  'long-break': 'Long break',
+};
+
+export const isRestPhase = (kind: PomodoroPhase) => kind !== 'work';
+
+/**
+ * The focus rounds a task splits into: full rounds, then a shorter one for
+ * whatever is left of the estimate.
+ */
+export const getWorkRounds = (estimatedMinutes: number, pomodoro: PomodoroSettings) => {
+  const rounds: number[] = [];
+  for (let left = estimatedMinutes; left > 0; left -= pomodoro.workMinutes) {
+    rounds.push(Math.min(left, pomodoro.workMinutes));
+  }
+  return rounds.length > 0 ? rounds : [pomodoro.workMinutes];
+};
+
+export interface PomodoroState {
+  kind: PomodoroPhase;
+  round: number; // 1-based focus round this phase belongs to
+  totalRounds: number;
+  phaseSeconds: number; // Length of the current phase; Infinity once every round is done
+  elapsedSeconds: number; // Time spent in the current phase
+}
+
+/**
+ * Where a Pomodoro run is: a break follows each focus round (a long one every
+ * few rounds) and another round follows each break. Once the planned rounds
+ * are done the timer just keeps counting focus time.
+ */
+export const getPomodoroState = (session: TimerSession, estimatedMinutes: number, pomodoro: PomodoroSettings, now: number = Date.now()): PomodoroState => {
+  const cycles = session.cycles || [];
+  const rounds = getWorkRounds(estimatedMinutes, pomodoro);
+  const roundsDone = cycles.filter(c => c.kind === 'work').length;
+  const elapsedSeconds = Math.max(0, getElapsedSeconds(session, now) - Math.floor((session.phaseStartMs || 0) / 1000));
+
+  if (cycles.length > 0 && cycles[cycles.length - 1].kind === 'work' && roundsDone < rounds.length) {
+    const isLong = roundsDone % pomodoro.roundsBeforeLongBreak === 0;
+    return {
+      kind: isLong ? 'long-break' : 'short-break',
+      round: roundsDone,
+      totalRounds: rounds.length,
+      phaseSeconds: (isLong ? pomodoro.longBreakMinutes : pomodoro.shortBreakMinutes) * 60,
+      elapsedSeconds,
+    };
+  }
+
+  return {
+    kind: 'work',
+    round: Math.min(roundsDone + 1, rounds.length),
+    totalRounds: rounds.length,
+    phaseSeconds: roundsDone < rounds.length ? rounds[roundsDone] * 60 : Infinity,
+    elapsedSeconds,
+  };
+};
+
+const endPhase = (session: TimerSession, kind: PomodoroPhase, seconds: number, endedAt: number): TimerSession => ({
+  ...session,
+  cycles: [...(session.cycles || []), { kind, seconds, endedAt }],
+  phaseStartMs: (session.phaseStartMs || 0) + seconds * 1000,
+});
+
+/**
+ * Logs every phase that has run its full length, catching up on several at
+ * once after the device slept. The same session comes back when nothing ended.
+ */
+export const advancePomodoro = (session: TimerSession, estimatedMinutes: number, pomodoro: PomodoroSettings, now: number = Date.now()) => {
+  let next = session;
+  for (let state = getPomodoroState(next, estimatedMinutes, pomodoro, now); state.elapsedSeconds >= state.phaseSeconds;
+    state = getPomodoroState(next, estimatedMinutes, pomodoro, now)) {
+    next = endPhase(next, state.kind, state.phaseSeconds, now - (state.elapsedSeconds - state.phaseSeconds) * 1000);
+  }
+  return next;
+};
+
+/**
+ * Ends the current phase early, e.g. to skip a break.
+ */
+export const skipPomodoroPhase = (session: TimerSession, estimatedMinutes: number, pomodoro: PomodoroSettings, now: number = Date.now()) => {
+  const state = getPomodoroState(session, estimatedMinutes, pomodoro, now);
+  return endPhase(session, state.kind, Math.min(state.elapsedSeconds, state.phaseSeconds), now);
+};
+
+/**
+ * Switches a session to another mode. A Pomodoro run starts its phase from
+ * the time already on the clock.
+ */
+export const setSessionMode = (session: TimerSession, mode: TimerMode, now: number = Date.now()): TimerSession => ({
+  ...session,
+  mode,
+  phaseStartMs: getElapsedSeconds(session, now) * 1000,
+});
+
+/**
+ * The log to keep on the task when the timer is closed: finished phases plus
+ * the one under way when the task is finished.
+ */
+export const closeCycles = (session: TimerSession, estimatedMinutes: number, pomodoro: PomodoroSettings, includeCurrent: boolean, now: number = Date.now()): TimerCycle[] | undefined => {
+  const cycles = [...(session.cycles || [])];
+  if (includeCurrent && session.mode === 'pomodoro') {
+    const state = getPomodoroState(session, estimatedMinutes, pomodoro, now);
+    if (state.elapsedSeconds > 0) cycles.push({ kind: state.kind, seconds: state.elapsedSeconds, endedAt: now });
+  }
+  return cycles.length > 0 ? cycles : undefined;
+};
+
+/**
+ * Splits a task's time into work and rest. Time outside Pomodoro breaks all
+ * counts as work.
+ */
+export const splitWorkAndRest = (task: Task) => {
+  const total = task.actualDurationSeconds || 0;
+  const restSeconds = Math.min(total, (task.cycles || []).filter(c => isRestPhase(c.kind)).reduce((sum, c) => sum + c.seconds, 0));
+  return { workSeconds: total - restSeconds, restSeconds };
+};
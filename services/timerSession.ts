@@ -0,0 +1,102 @@
+import { PauseInterval, Task, TimerMode, TimerSession } from "../types";
+import { getProfileStorageKey } from "./profiles";
+import { readRecord, writeRecords } from "./storage";
+
+/**
+ * Opens a new (paused) session for a task. Any partial progress already
+ * recorded on the task is carried over so parked tasks resume where they left off,
+ * including partway through a Pomodoro phase.
+ */
+export const createSession = (task: Task, dateKey: string, mode: TimerMode = 'countdown', now: number = Date.now()): TimerSession => {
+  const cycles = task.cycles || [];
+  const accumulatedMs = (task.actualDurationSeconds || 0) * 1000;
+  return {
+    taskId: task.id,
+    dateKey,
+    createdAt: now,
+    startedAt: null,
+    accumulatedMs,
+    mode,
+    cycles,
+    phaseStartMs: Math.min(accumulatedMs, cycles.reduce((sum, c) => sum + c.seconds, 0) * 1000),
+    pauses: task.pauses || [],
+  };
+};
+
+export const isSessionRunning = (session: TimerSession) => session.startedAt !== null;
+
+/**
+ * Elapsed time is derived from wall-clock timestamps rather than counted ticks,
+ * so throttled background tabs and sleeping devices never under-count.
+ */
+export const getElapsedSeconds = (session: TimerSession, now: number = Date.now()): number => {
+  const runningMs = session.startedAt !== null ? Math.max(0, now - session.startedAt) : 0;
+  return Math.floor((session.accumulatedMs + runningMs) / 1000);
+};
+
+export const startSession = (session: TimerSession, now: number = Date.now()): TimerSession => {
+  if (isSessionRunning(session)) return session;
+  return { ...session, startedAt: now };
+};
+
+export const pauseSession = (session: TimerSession, now: number = Date.now()): TimerSession => {
+  if (session.startedAt === null) return session;
+  return {
+    ...session,
+    startedAt: null,
+    accumulatedMs: session.accumulatedMs + Math.max(0, now - session.startedAt),
+  };
+};
+
+export const resetSession = (session: TimerSession): TimerSession => ({
+  ...session,
+  startedAt: null,
+  accumulatedMs: 0,
+  cycles: [],
+  phaseStartMs: 0,
+  pauses: [],
+});
+
+const endOpenPause = (pauses: PauseInterval[] = [], now: number) =>
+  pauses.map(p => p.endedAt === undefined ? { ...p, endedAt: now } : p);
+
+/**
+ * A pause from the pause button, logged so interruptions can be told apart
+ * from slow work. Parking or finishing a task pauses without logging.
+ */
+export const interruptSession = (session: TimerSession, now: number = Date.now()): TimerSession => {
+  if (!isSessionRunning(session)) return session;
+  return { ...pauseSession(session, now), pauses: [...(session.pauses || []), { startedAt: now }] };
+};
+
+export const resumeSession = (session: TimerSession, now: number = Date.now()): TimerSession =>
+  startSession({ ...session, pauses: endOpenPause(session.pauses, now) }, now);
+
+export const setPauseReason = (session: TimerSession, reason: string): TimerSession => ({
+  ...session,
+  pauses: (session.pauses || []).map(p => p.endedAt === undefined ? { ...p, reason } : p),
+});
+
+/**
+ * The pause log to keep on the task when the timer is closed, with a pause
+ * still open ending now.
+ */
+export const closePauses = (session: TimerSession, now: number = Date.now()) => {
+  const pauses = endOpenPause(session.pauses, now);
+  return pauses.length > 0 ? pauses : undefined;
+};
+
+export const loadSession = async (profileId: string): Promise<TimerSession | null> => {
+  const saved = await readRecord<Partial<TimerSession> | null>(getProfileStorageKey(profileId, 'timer_session'), null);
+  if (saved && typeof saved.taskId === 'string' && typeof saved.dateKey === 'string') {
+    return saved as TimerSession;
+  }
+  return null;
+};
+
+export const saveSession = (profileId: string, session: TimerSession | null) => {
+  const key = getProfileStorageKey(profileId, 'timer_session');
+  return session
+    ? writeRecords({ [key]: session }, [], 'save the timer')
+    : writeRecords({}, [key], 'save the timer');
+};
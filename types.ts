@@ -1,11 +1,20 @@
 
 export enum TaskStatus {
   PENDING = 'PENDING',
-  ACTIVE = 'ACTIVE',
+  ACTIVE = 'ACTIVE', // The timer is running on this task
+  REVIEW = 'REVIEW', // Finished by the child, waiting for a parent to sign it off
   COMPLETED = 'COMPLETED',
   SKIPPED = 'SKIPPED'
 }
 
+// One step of a mission's checklist
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  doneAt?: number; // Epoch ms when it was ticked
+  doneAtSeconds?: number; // Timer reading when it was ticked
+}
+
 export interface Task {
   id: string;
   title: string;
@@ -15,11 +24,212 @@ export interface Task {
   isBreak?: boolean; // Whether this is an AI-suggested break
   emoji?: string;
   actualDurationSeconds?: number;
+  completedAt?: number; // Epoch ms when the task was marked done
+  templateId?: string; // Set when the task was generated from a recurring template
+  skipReason?: string; // Why a SKIPPED task was skipped
+  originalDate?: string; // Date key the task was first due on, set once it has been moved
+  carryOverCount?: number; // How many times the task has been pushed to a later day
+  checklist?: ChecklistItem[];
+  assignmentId?: string; // Set on the daily chunks of an assignment
+  dueDate?: string; // Date key the assignment this chunk belongs to is due
+  cycles?: TimerCycle[]; // Pomodoro rounds and breaks, so the time spent splits into work and rest
+  pauses?: PauseInterval[]; // Every stop made with the pause button
+  parentAssigned?: boolean; // Set by a parent (in parent mode, or from a routine); only a parent can skip or move it
+}
+
+// A stop on the timer; the paused time is not part of actualDurationSeconds
+export interface PauseInterval {
+  startedAt: number; // Epoch ms
+  endedAt?: number; // Unset while still paused
+  reason?: string;
+}
+
+export type TimerMode = 'countdown' | 'pomodoro' | 'stopwatch';
+
+export type PomodoroPhase = 'work' | 'short-break' | 'long-break';
+
+export interface TimerCycle {
+  kind: PomodoroPhase;
+  seconds: number;
+  endedAt: number; // Epoch ms
+}
+
+export interface PomodoroSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  roundsBeforeLongBreak: number;
+}
+
+// Longer homework with a due date, planned as daily chunks on the days before it
+export interface Assignment {
+  id: string;
+  title: string;
+  subject: string;
+  emoji?: string;
+  dueDate: string; // Date key
+  totalMinutes: number;
+  createdAt: number;
+  parentAssigned?: boolean; // Added in parent mode; its chunks are locked like other parent tasks
+}
+
+export type RecurrenceRule =
+  | { kind: 'weekdays' } // Monday to Friday
+  | { kind: 'weekly'; days: number[] } // 0 = Sunday
+  | { kind: 'interval'; everyDays: number }; // Counted from the template's start date
+
+export type SubjectColor = 'blue' | 'green' | 'red' | 'emerald' | 'purple' | 'amber' | 'pink' | 'sky' | 'orange' | 'slate';
+
+export type SubjectDifficulty = 1 | 2 | 3; // Easy, medium, hard
+
+// An entry in a child's subject registry. Tasks keep the subject by name.
+export interface Subject {
+  id: string;
+  name: string;
+  emoji: string;
+  color: SubjectColor;
+  defaultMinutes: number;
+  difficulty: SubjectDifficulty; // Hard subjects get a break after them
+  archived: boolean; // Hidden when adding missions, still used to show history
+  isBreak?: boolean; // Missions in this subject are breaks (Rest)
+  aliases?: string[]; // Other names in history that mean this subject
+}
+
+export interface TaskTemplate {
+  id: string;
+  title: string;
+  subject: string;
+  estimatedMinutes: number;
+  emoji?: string;
+  isBreak?: boolean;
+  rule: RecurrenceRule;
+  startDate: string; // Date key
+  endDate?: string; // Date key, inclusive
+  paused: boolean;
+}
+
+// A persisted timer run, rebuilt from wall-clock timestamps so it survives reloads
+export interface TimerSession {
+  taskId: string;
+  dateKey: string; // History key of the day the task belongs to
+  createdAt: number;
+  startedAt: number | null; // Epoch ms of the current running stretch, null while paused
+  accumulatedMs: number; // Time banked from earlier running stretches
+  mode?: TimerMode; // Sessions saved before timer modes are countdowns
+  cycles?: TimerCycle[]; // Pomodoro phases finished so far
+  phaseStartMs?: number; // Elapsed time at which the current Pomodoro phase began
+  pauses?: PauseInterval[];
+  chain?: string[]; // Task ids being run back to back on autopilot
 }
 
 export interface UserProfile {
+  id: string;
   name: string;
-  avatar: string;
+  avatar: string; // Emoji
+  pinHash?: string; // Set when the profile is locked with a PIN
+  createdAt: number;
+}
+
+export type BadgeCriterion =
+  | { kind: 'streak'; days: number } // Consecutive days with a finished mission
+  | { kind: 'subject-minutes'; subject: string; minutes: number } // Lifetime minutes in one subject
+  | { kind: 'missions'; count: number } // Lifetime finished missions
+  | { kind: 'on-time'; count: number } // Missions finished within their estimate
+  | { kind: 'points'; points: number }; // Lifetime points earned
+
+export interface BadgeRule {
+  id: string;
+  name: string;
+  emoji: string;
+  criterion: BadgeCriterion;
+}
+
+// Point values and badges, editable by parents per child
+export interface RewardRules {
+  pointsPerMission: number;
+  onTimeBonus: number; // Finished within estimatedMinutes
+  breakBonus: number; // A planned break actually taken
+  streakDayBonus: number; // Each day that keeps a streak going
+  badges: BadgeRule[];
+}
+
+// Something from the parent-run reward shop
+export interface ShopItem {
+  id: string;
+  name: string;
+  emoji: string;
+  cost: number; // Points
+}
+
+export type RedemptionStatus = 'pending' | 'approved' | 'declined';
+
+export interface Redemption {
+  id: string;
+  itemId: string;
+  itemName: string; // Copied so the ledger still reads right if the item is renamed or removed
+  emoji: string;
+  cost: number; // Price at the time of the request
+  requestedAt: number;
+  status: RedemptionStatus;
+  decidedAt?: number;
+}
+
+export interface RewardState {
+  rules: RewardRules;
+  unlockedBadges: Record<string, string>; // Badge id -> date key it was first earned
+  shop: ShopItem[];
+  redemptions: Redemption[];
+}
+
+export type SchedulerMode = 'local' | 'ai' | 'ai-fallback';
+
+export type AIProviderKind = 'gemini' | 'openai' | 'mock';
+
+// Device-wide AI settings, edited on the settings screen
+export interface AIConfig {
+  provider: AIProviderKind;
+  model: string;
+  endpoint: string; // Base URL for OpenAI-compatible servers
+  apiKey: string; // Empty falls back to the build-time key
+  timeoutMs: number;
+}
+
+// Local clock times as 'HH:MM'
+export interface TimeRange {
+  start: string;
+  end: string;
+}
+
+export interface BlockedTime extends TimeRange {
+  label: string; // E.g. "Dinner"
+}
+
+// When homework happens on one weekday, minus the parts kept for other things
+export interface AvailabilityWindow extends TimeRange {
+  blocked: BlockedTime[];
+}
+
+export type ChimeMoment = 'start' | 'halfway' | 'five-left' | 'time-up' | 'break-over';
+
+export interface SoundSettings {
+  chimes: Record<ChimeMoment, boolean>;
+  volume: number; // 0 to 1
+  notifications: boolean; // Also show a system notification while the app is in the background
+  quietHours: TimeRange | null; // May run past midnight, e.g. 21:00 to 07:00
+}
+
+export interface ProfileSettings {
+  defaultTaskMinutes: number;
+  schedulerMode: SchedulerMode;
+  motivationNudges: boolean; // Extra cheers at halfway and when running over
+  dailyMinutes: number; // Homework time on days without set hours
+  weekdayWindows: (AvailabilityWindow | null)[]; // Indexed by weekday, 0 = Sunday
+  timerMode: TimerMode; // The last mode picked on the timer
+  pomodoro: PomodoroSettings;
+  sound: SoundSettings;
+  requireSignOff: boolean; // Finished missions wait for a parent's OK before they count
+  carryOverCheckedOn?: string; // Date key of the last day the carry-over offer was shown
+  dateKeysChecked?: boolean; // History has been checked for days filed under their UTC date
 }
 
 export enum AppState {
@@ -27,5 +237,14 @@ export enum AppState {
   PLANNING = 'PLANNING',
   DOING = 'DOING',
   SUMMARY = 'SUMMARY',
-  CALENDAR = 'CALENDAR'
+  CALENDAR = 'CALENDAR',
+  DASHBOARD = 'DASHBOARD',
+  TEMPLATES = 'TEMPLATES',
+  SETTINGS = 'SETTINGS',
+  BACKUP = 'BACKUP',
+  TROPHIES = 'TROPHIES',
+  SUBJECTS = 'SUBJECTS',
+  BACKLOG = 'BACKLOG',
+  AVAILABILITY = 'AVAILABILITY',
+  AUTOPILOT = 'AUTOPILOT'
 }